@@ -1,21 +1,319 @@
 export {
   FEVER_LABELS,
+  type ConfusionMatrix,
   type FeverLabel,
   type PredictedLabel,
   normalizePredictedLabel,
+  parsePredictedLabel,
+  PARSE_PATHS,
+  type ParsePath,
   createConfusionMatrix,
   recordPrediction,
   sumConfusionMatrix,
   correctFromConfusionMatrix,
+  type LabelSchema,
+  LABEL_SCHEMAS,
+  DEFAULT_LABEL_SCHEMA,
+  isDefaultLabelSchema,
+  formatLabelSchema,
+  loadLabelSchema,
+  parseLabelAliases,
+  resolveLabel,
+  validateLabelSchema,
+  withLabelAliases,
 } from "./src/lib/labels"
 
+export {
+  computeMetrics,
+  type ClassificationMetrics,
+  type LabelMetrics,
+} from "./src/lib/metrics"
+
 export {
   evaluateModels,
+  evaluateModel,
+  evaluateExample,
+  evaluateModelExamples,
+  isTransportFailure,
+  recordItem,
+  summarizeItems,
+  EVAL_MODES,
+  type EvalMode,
   type FeverExample,
+  type GenerationSettings,
   type ModelEvalItem,
   type ModelEvalSummary,
   type RunConfig,
   type RunProgressEvent,
+  type EvaluateOptions,
 } from "./src/lib/evaluate"
 
+export {
+  classifyError,
+  createRateLimiter,
+  withRetry,
+  DEFAULT_RETRY_OPTIONS,
+  RequestTimeoutError,
+  type ErrorKind,
+  type RateLimiter,
+  type RetryOptions,
+} from "./src/lib/retry"
+
+export {
+  parseFeverEvidence,
+  parseCitedEvidence,
+  scoreEvidence,
+  summarizeEvidence,
+  type EvidenceRef,
+  type EvidenceSet,
+  type EvidenceSummary,
+  type ItemEvidenceScore,
+} from "./src/lib/evidence"
+
+export {
+  createDefaultProviders,
+  createOpenRouterModelProvider,
+  createOpenAICompatibleModelProvider,
+  createMockModelProvider,
+  loadMockFixture,
+  resolveLanguageModel,
+  splitModelId,
+  BUILTIN_MOCK_POLICIES,
+  type ModelProvider,
+  type MockPolicy,
+  type ProviderOptions,
+} from "./src/lib/providers"
+
+export {
+  bootstrapInterval,
+  computeConfidenceIntervals,
+  compareModels,
+  compareAllModels,
+  mcnemarTest,
+  type BootstrapOptions,
+  type ConfidenceIntervals,
+  type Interval,
+  type PairwiseComparison,
+} from "./src/lib/stats"
+
+export {
+  BUILTIN_PROMPTS,
+  loadPromptTemplate,
+  renderPrompt,
+  parseAnswer,
+  sampleFewShot,
+  validatePromptTemplate,
+  type FewShotConfig,
+  type PromptAnswerFormat,
+  type PromptTemplate,
+  type ResolvedPrompt,
+} from "./src/lib/prompts"
+
+export {
+  OUTPUT_FORMATS,
+  buildAnswerSchema,
+  generateStructuredAnswer,
+  type OutputFormat,
+  type StructuredAnswer,
+  type StructuredResult,
+} from "./src/lib/structured"
+
+export {
+  CONFIDENCE_METHODS,
+  computeCalibration,
+  extractConfidence,
+  parseLabelDistribution,
+  parseVerbalConfidence,
+  type CalibrationBin,
+  type CalibrationSummary,
+  type ConfidenceMethod,
+  type ConfidenceSource,
+  type SelectiveAccuracy,
+} from "./src/lib/calibration"
+
+export {
+  majorityVote,
+  summarizeVoting,
+  tallyVotes,
+  type SampleVotes,
+  type VotingSummary,
+} from "./src/lib/voting"
+
+export {
+  loadRunManifest,
+  readRawItems,
+  writeRunManifest,
+  type ModelRunStatus,
+  type RunManifest,
+  type RunStatus,
+} from "./src/lib/manifest"
+
+export {
+  compareRuns,
+  diffModelItems,
+  type FlippedExample,
+  type ModelRunDiff,
+  type RunComparison,
+} from "./src/lib/compare"
+
+export { loadSavedRun, type SavedRun } from "./src/lib/runs"
+
+export { mergeShardRuns, type MergedRun } from "./src/lib/merge"
+
+export {
+  CLAIM_FEATURES,
+  analyzeErrors,
+  claimFeatures,
+  type ClaimFeature,
+  type ClaimOutcome,
+  type ConfusionPair,
+  type ErrorAnalysis,
+  type FeatureGroup,
+  type ModelAnswer,
+} from "./src/lib/errorAnalysis"
+
+export {
+  SAMPLE_STRATEGIES,
+  STRATIFY_KEYS,
+  formatSampling,
+  parseShard,
+  sampleExamples,
+  type ExampleSampling,
+  type SampleRecord,
+  type SampleStrategy,
+  type Shard,
+  type StratifyKey,
+} from "./src/lib/sampling"
+
+export {
+  buildRunSummary,
+  renderSummaryCsv,
+  writeRunSummary,
+  type ModelRunSummary,
+  type RunSummary,
+} from "./src/lib/summary"
+
+export { computeLatencyStats, type LatencyStats } from "./src/lib/latency"
+
+export { createConcurrencyLimiter, runConcurrently, type ConcurrencyLimiter } from "./src/lib/scheduler"
+
+export {
+  createBudget,
+  formatUsd,
+  lookupPricing,
+  priceUsage,
+  summarizeCost,
+  sumTokenUsage,
+  type Budget,
+  type BudgetLimits,
+  type CostSummary,
+  type ModelPricing,
+  type TokenUsageTotals,
+} from "./src/lib/cost"
+
+export {
+  buildLeaderboard,
+  loadRunSummaries,
+  type DatasetLeaderboard,
+  type Leaderboard,
+  type LeaderboardEntry,
+  type LeaderboardResult,
+} from "./src/lib/leaderboard"
+
+export { escapeHtml, htmlPathFor, renderHtmlReport } from "./src/lib/html"
+
+export {
+  renderComparisonMarkdown,
+  renderErrorAnalysisMarkdown,
+  renderLeaderboardHtml,
+  renderLeaderboardMarkdown,
+  renderMarkdownReport,
+  type RunReportMeta,
+} from "./src/lib/report"
+
+export {
+  DATASET_FIELDS,
+  DATASET_FORMATS,
+  formatDatasetIssues,
+  inferDatasetFormat,
+  loadDataset,
+  loadExamples,
+  parseDatasetFields,
+  type DatasetField,
+  type DatasetFields,
+  type DatasetFormat,
+  type DatasetSource,
+  type DatasetIssue,
+  type DatasetIssueKind,
+  type DatasetValidationReport,
+} from "./src/lib/dataset"
+
+export { readJsonlFile, readJsonlRows, readLines, type JsonlReadOptions } from "./src/lib/readJsonl"
+export { readDelimitedRows, type DelimitedReadOptions } from "./src/lib/readDelimited"
+
+export {
+  resolveBenchmarkOptions,
+  runBenchmark,
+  type BenchmarkEvent,
+  type BenchmarkHooks,
+  type BenchmarkOptions,
+  type BenchmarkResult,
+  type ModelOptions,
+  type ResolvedBenchmarkOptions,
+} from "./src/lib/runner"
+
+export {
+  EXIT_CODES,
+  checkThresholds,
+  exitCodeFor,
+  formatThresholdFailure,
+  type QualityThresholds,
+  type ThresholdFailure,
+} from "./src/lib/gates"
+
+export { PROGRESS_FORMATS, createProgressPrinter, type ProgressFormat } from "./src/lib/progress"
 
+export {
+  CONFIG_FILE_NAMES,
+  configToOptions,
+  defineConfig,
+  findConfigFile,
+  loadConfigFile,
+  optionsToConfig,
+  validateConfig,
+  type DatasetConfig,
+  type FactbenchConfig,
+  type ModelConfig,
+} from "./src/lib/config"
+
+export { CACHE_ROOT, type CacheEntry } from "./src/lib/cache"
+
+export {
+  computeCacheStats,
+  computeDatasetContentHash,
+  exportCacheBundle,
+  importCacheBundle,
+  listCacheFiles,
+  matchesCacheFilter,
+  readCacheBundle,
+  removeCacheEntries,
+  type CacheBundleEntry,
+  type CacheBundleHeader,
+  type CacheDatasetStats,
+  type CacheFile,
+  type CacheFilter,
+  type CacheModelStats,
+} from "./src/lib/cacheAdmin"
+
+export {
+  DEFAULT_SIMILARITY,
+  cleanDatasetPath,
+  inspectDataset,
+  renderDatasetInspection,
+  writeCleanDataset,
+  type DatasetInspection,
+  type DuplicateGroup,
+  type DuplicateMember,
+  type LengthHistogram,
+  type NearDuplicate,
+} from "./src/lib/datasetInspect"
@@ -0,0 +1,182 @@
+import { Command } from "commander"
+import { CACHE_ROOT, getDatasetCacheId } from "../lib/cache"
+import {
+  computeCacheStats,
+  exportCacheBundle,
+  formatAge,
+  importCacheBundle,
+  listCacheFiles,
+  parseAge,
+  removeCacheEntries,
+  type CacheFile,
+  type CacheFilter,
+} from "../lib/cacheAdmin"
+
+const STATS_FORMATS = ["text", "json"] as const
+
+/**
+ * Splits a comma-separated option.
+ * @param csv - Option value.
+ * @returns Trimmed non-empty parts, or undefined if the option is unset.
+ */
+function splitCsv(csv: string | undefined): string[] | undefined {
+  return csv ? csv.split(",").map((s) => s.trim()).filter(Boolean) : undefined
+}
+
+/**
+ * Reads the cache files, optionally only those of one dataset file.
+ * @param cacheRoot - Root directory of the cache.
+ * @param filePath - Dataset file, if given.
+ * @returns Cache files.
+ */
+async function cacheFilesFor(cacheRoot: string, filePath: string | undefined): Promise<CacheFile[]> {
+  const files = await listCacheFiles(cacheRoot)
+  if (!filePath) return files
+  const datasetCacheId = await getDatasetCacheId(filePath)
+  return files.filter((f) => f.datasetCacheId === datasetCacheId)
+}
+
+/**
+ * Prints the result of a prune or invalidate.
+ * @param result - Entries removed and kept.
+ * @param dryRun - Whether nothing was written.
+ */
+function reportRemoval(result: { removed: number; kept: number }, dryRun: boolean): void {
+  console.log(
+    dryRun
+      ? `Would remove ${result.removed} entries (${result.kept} kept). Dry run, nothing changed.`
+      : `Removed ${result.removed} entries (${result.kept} kept).`,
+  )
+}
+
+/**
+ * Builds the `cache` subcommand: inspects, prunes, shares and invalidates the
+ * response cache.
+ * @returns The commander command.
+ */
+export function cacheCommand(): Command {
+  const cache = new Command("cache").description("Inspect and manage the response cache")
+
+  cache
+    .command("stats")
+    .description("Count cached entries per dataset and model, with their age")
+    .option("--cache-dir <path>", "Cache directory", CACHE_ROOT)
+    .option("--file <path>", "Only the cache of this dataset file")
+    .option("--format <format>", `Output format (${STATS_FORMATS.join(" | ")})`, "text")
+    .action(async (opts: Record<string, string | undefined>) => {
+      const format = String(opts.format)
+      if (!(STATS_FORMATS as readonly string[]).includes(format)) {
+        throw new Error(`Invalid format: ${opts.format}. Expected one of: ${STATS_FORMATS.join(", ")}`)
+      }
+      const stats = computeCacheStats(await cacheFilesFor(opts.cacheDir ?? CACHE_ROOT, opts.file))
+      if (format === "json") {
+        console.log(JSON.stringify(stats, null, 2))
+        return
+      }
+      if (stats.length === 0) {
+        console.log("The cache is empty.")
+        return
+      }
+      const now = Date.now()
+      const age = (iso: string | undefined) => (iso ? formatAge(now - Date.parse(iso)) : "-")
+      for (const ds of stats) {
+        console.log(`${ds.datasetPath ?? "(unknown dataset)"} [${ds.datasetCacheId.slice(0, 12)}]: ${ds.entries} entries`)
+        for (const m of ds.models) {
+          console.log(
+            `  ${m.modelId}: ${m.entries} entries, ${m.variants} variant(s), ${m.errors} errors, newest ${age(m.newestIso)}, oldest ${age(m.oldestIso)}`,
+          )
+        }
+      }
+    })
+
+  cache
+    .command("prune")
+    .description("Drop entries by age, model or error status")
+    .option("--cache-dir <path>", "Cache directory", CACHE_ROOT)
+    .option("--file <path>", "Only the cache of this dataset file")
+    .option("--older-than <age>", "Entries cached longer ago than this (e.g. 30d, 12h)")
+    .option("--models <csv>", "Entries of these model IDs")
+    .option("--errors", "Failed answers (model errors and invalid labels)")
+    .option("--dry-run", "Count the entries without removing them")
+    .action(async (opts: Record<string, string | boolean | undefined>) => {
+      const filter: CacheFilter = {
+        olderThanMs: opts.olderThan ? parseAge(String(opts.olderThan)) : undefined,
+        models: splitCsv(opts.models as string | undefined),
+        errors: opts.errors ? true : undefined,
+      }
+      if (filter.olderThanMs === undefined && !filter.models && !filter.errors) {
+        throw new Error("prune needs --older-than, --models or --errors")
+      }
+      const files = await cacheFilesFor(String(opts.cacheDir), opts.file as string | undefined)
+      reportRemoval(await removeCacheEntries(files, filter, { dryRun: Boolean(opts.dryRun) }), Boolean(opts.dryRun))
+    })
+
+  cache
+    .command("invalidate")
+    .description("Remove the entries of a dataset by model or example")
+    .requiredOption("--file <path>", "Dataset file whose cache is invalidated")
+    .option("--cache-dir <path>", "Cache directory", CACHE_ROOT)
+    .option("--models <csv>", "Entries of these model IDs")
+    .option("--examples <csv>", "Entries of these example IDs")
+    .option("--claim <regex>", "Entries whose claim matches this pattern (case-insensitive)")
+    .option("--dry-run", "Count the entries without removing them")
+    .action(async (opts: Record<string, string | boolean | undefined>) => {
+      let claim: RegExp | undefined
+      if (opts.claim) {
+        try {
+          claim = new RegExp(String(opts.claim), "i")
+        } catch (err) {
+          throw new Error(`Invalid claim pattern: ${err instanceof Error ? err.message : String(err)}`)
+        }
+      }
+      const filter: CacheFilter = {
+        models: splitCsv(opts.models as string | undefined),
+        exampleIds: splitCsv(opts.examples as string | undefined),
+        claim,
+      }
+      if (!filter.models && !filter.exampleIds && !filter.claim) {
+        throw new Error("invalidate needs --models, --examples or --claim")
+      }
+      const files = await cacheFilesFor(String(opts.cacheDir), String(opts.file))
+      reportRemoval(await removeCacheEntries(files, filter, { dryRun: Boolean(opts.dryRun) }), Boolean(opts.dryRun))
+    })
+
+  cache
+    .command("export")
+    .description("Write a dataset's cache to a bundle keyed by the dataset's content hash")
+    .requiredOption("--file <path>", "Dataset file whose cache is exported")
+    .requiredOption("--out <path>", "Bundle path (JSONL)")
+    .option("--cache-dir <path>", "Cache directory", CACHE_ROOT)
+    .option("--models <csv>", "Only entries of these model IDs")
+    .action(async (opts: Record<string, string | undefined>) => {
+      const models = splitCsv(opts.models)
+      const header = await exportCacheBundle({
+        cacheRoot: opts.cacheDir ?? CACHE_ROOT,
+        datasetPath: String(opts.file),
+        out: String(opts.out),
+        filter: models ? { models } : undefined,
+      })
+      console.log(
+        `Exported ${header.entries} entries (${header.models.join(", ") || "no models"}) for dataset ${header.datasetContentHash.slice(0, 12)} to ${opts.out}`,
+      )
+    })
+
+  cache
+    .command("import")
+    .description("Merge a cache bundle into the cache of a local dataset file with the same contents")
+    .argument("<bundle>", "Bundle written by cache export")
+    .requiredOption("--file <path>", "Local dataset file the bundle belongs to")
+    .option("--cache-dir <path>", "Cache directory", CACHE_ROOT)
+    .action(async (bundle: string, opts: Record<string, string | undefined>) => {
+      const result = await importCacheBundle({
+        cacheRoot: opts.cacheDir ?? CACHE_ROOT,
+        bundlePath: bundle,
+        datasetPath: String(opts.file),
+      })
+      console.log(
+        `Imported ${result.added} new and ${result.replaced} newer entries; skipped ${result.skipped} already cached.`,
+      )
+    })
+
+  return cache
+}
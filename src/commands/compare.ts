@@ -0,0 +1,67 @@
+import { Command } from "commander"
+import { compareRuns } from "../lib/compare"
+import { renderComparisonMarkdown } from "../lib/report"
+import { loadSavedRun } from "../lib/runs"
+
+const COMPARE_FORMATS = ["md", "json"] as const
+
+/**
+ * Formats a fraction as a percentage with one decimal place.
+ * @param x - The fraction.
+ * @returns Percentage string.
+ */
+function pct(x: number): string {
+  return `${(x * 100).toFixed(1)}%`
+}
+
+/**
+ * Builds the `compare` subcommand: diffs two or more saved runs against the first.
+ * @returns The commander command.
+ */
+export function compareCommand(): Command {
+  return new Command("compare")
+    .description("Compare saved runs against the first (base) run to catch regressions")
+    .argument("<runs...>", "Run IDs under runs/ or run directory paths; the first one is the base")
+    .option("--format <format>", `Report format (${COMPARE_FORMATS.join(" | ")})`, "md")
+    .option("--out <path>", "Report path (default: runs/compare-<timestamp>.<format>)")
+    .option("--models <csv>", "Only compare these model IDs")
+    .option("--max-examples <n>", "Flipped examples listed per model and direction in markdown", "20")
+    .action(async (runIds: string[], opts: Record<string, string | undefined>) => {
+      if (runIds.length < 2) {
+        throw new Error("compare needs at least two runs")
+      }
+      const format = String(opts.format)
+      if (!(COMPARE_FORMATS as readonly string[]).includes(format)) {
+        throw new Error(`Invalid format: ${opts.format}. Expected one of: ${COMPARE_FORMATS.join(", ")}`)
+      }
+      const maxExamples = Number.parseInt(String(opts.maxExamples), 10)
+      if (isNaN(maxExamples) || maxExamples < 0) {
+        throw new Error(`Invalid max-examples: ${opts.maxExamples}. Must be a non-negative integer.`)
+      }
+      const models = opts.models
+        ? opts.models.split(",").map((s) => s.trim()).filter(Boolean)
+        : undefined
+
+      const runs = []
+      for (const id of runIds) runs.push(await loadSavedRun(id))
+      const comparison = compareRuns(runs, { models })
+
+      const out = opts.out ?? `runs/compare-${comparison.generatedAtIso.replace(/[:.]/g, "-")}.${format}`
+      const content =
+        format === "json"
+          ? JSON.stringify(comparison, null, 2) + "\n"
+          : renderComparisonMarkdown(comparison, { maxExamples })
+      await Bun.write(out, content)
+
+      for (const d of comparison.diffs) {
+        const sign = d.delta > 0 ? "+" : ""
+        console.log(
+          `${d.modelId} [${d.runId}]: ${pct(d.accuracyBefore)} → ${pct(d.accuracyAfter)} (${sign}${(d.delta * 100).toFixed(1)}pp) on ${d.shared} shared | regressions ${d.regressions.length} | improvements ${d.improvements.length}`,
+        )
+      }
+      for (const u of comparison.unmatchedModels) {
+        console.log(`${u.modelId}: missing from ${u.runId}, not compared`)
+      }
+      console.log(`Report written to ${out}`)
+    })
+}
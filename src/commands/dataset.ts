@@ -0,0 +1,78 @@
+import { Command } from "commander"
+import { DATASET_FORMATS, parseDatasetFields, type DatasetFormat } from "../lib/dataset"
+import {
+  DEFAULT_SIMILARITY,
+  cleanDatasetPath,
+  inspectDataset,
+  renderDatasetInspection,
+  writeCleanDataset,
+} from "../lib/datasetInspect"
+import { loadLabelSchema, parseLabelAliases, withLabelAliases } from "../lib/labels"
+
+/**
+ * Builds the `dataset` subcommand: checks a dataset file before paying for a run.
+ * @returns The commander command.
+ */
+export function datasetCommand(): Command {
+  return new Command("dataset")
+    .description("Inspect a dataset: label distribution, claim lengths, invalid rows, evidence coverage and duplicates")
+    .argument("<file>", "Dataset file (.gz is decompressed)")
+    .option("--format <format>", `Dataset format (${DATASET_FORMATS.join(" | ")}; default: from the file extension)`)
+    .option("--fields <map>", "Dataset field mapping, e.g. claim=statement,label=verdict")
+    .option("--no-header", "CSV/TSV file has no header row")
+    .option("--labels <name|path>", "Label schema: built-in name or a JSON schema file", "fever")
+    .option(
+      "--label-alias <from=to>",
+      "Extra spelling of a label (repeatable)",
+      (v: string, prev: string[] | undefined) => [...(prev ?? []), v],
+    )
+    .option("--limit <n>", "Only inspect the first n valid examples")
+    .option("--similarity <x>", "Near-duplicate threshold (0-1; 0 skips the search)", String(DEFAULT_SIMILARITY))
+    .option("--max-examples <n>", "Invalid rows, duplicate groups and near-duplicate pairs listed", "20")
+    .option("--json", "Print the inspection as JSON")
+    .option("--fix [path]", "Write a cleaned, de-duplicated JSONL copy (default: <file>.clean.jsonl)")
+    .action(async (file: string, opts: Record<string, string | string[] | boolean | undefined>) => {
+      const format = opts.format as DatasetFormat | undefined
+      if (format !== undefined && !(DATASET_FORMATS as readonly string[]).includes(format)) {
+        throw new Error(`Invalid format: ${format}. Expected one of: ${DATASET_FORMATS.join(", ")}`)
+      }
+      let limit: number | undefined
+      if (opts.limit !== undefined) {
+        limit = Number.parseInt(String(opts.limit), 10)
+        if (isNaN(limit) || limit < 1) {
+          throw new Error(`Invalid limit: ${opts.limit}. Must be a positive integer.`)
+        }
+      }
+      const similarity = Number.parseFloat(String(opts.similarity))
+      const maxExamples = Number.parseInt(String(opts.maxExamples), 10)
+      if (isNaN(maxExamples) || maxExamples < 0) {
+        throw new Error(`Invalid max-examples: ${opts.maxExamples}. Must be a non-negative integer.`)
+      }
+      const labels = withLabelAliases(
+        await loadLabelSchema(String(opts.labels)),
+        parseLabelAliases((opts.labelAlias as string[] | undefined) ?? []),
+      )
+
+      const fixPath = opts.fix ? (typeof opts.fix === "string" ? opts.fix : cleanDatasetPath(file)) : undefined
+      if (fixPath === file) {
+        throw new Error(`Refusing to overwrite the dataset ${file}; pick another --fix path`)
+      }
+
+      const { inspection, examples } = await inspectDataset(file, {
+        format,
+        fields: opts.fields ? parseDatasetFields(String(opts.fields)) : undefined,
+        header: opts.header === false ? false : undefined,
+        labels,
+        limit,
+        similarity,
+      })
+      console.log(opts.json ? JSON.stringify(inspection, null, 2) : renderDatasetInspection(inspection, { maxExamples }))
+
+      if (fixPath) {
+        const written = await writeCleanDataset(fixPath, examples, inspection)
+        // Keep stdout valid JSON with --json
+        const log = opts.json ? console.error : console.log
+        log(`Wrote ${written} examples to ${fixPath}`)
+      }
+    })
+}
@@ -0,0 +1,54 @@
+import { Command } from "commander"
+import path from "node:path"
+import { analyzeErrors } from "../lib/errorAnalysis"
+import { renderErrorAnalysisMarkdown } from "../lib/report"
+import { loadSavedRun } from "../lib/runs"
+
+const ERRORS_FORMATS = ["md", "json"] as const
+
+/**
+ * Builds the `errors` subcommand: per-claim error analysis of a saved run.
+ * @returns The commander command.
+ */
+export function errorsCommand(): Command {
+  return new Command("errors")
+    .description("Analyze a saved run's errors per claim: claims every model got wrong, disagreements, confusions")
+    .argument("<run>", "Run ID under runs/ or run directory path")
+    .option("--format <format>", `Report format (${ERRORS_FORMATS.join(" | ")})`, "md")
+    .option("--out <path>", "Report path (default: error-analysis.<format> in the run directory)")
+    .option("--models <csv>", "Only analyze these model IDs")
+    .option("--max-examples <n>", "Claims listed per table in markdown", "20")
+    .action(async (runId: string, opts: Record<string, string | undefined>) => {
+      const format = String(opts.format)
+      if (!(ERRORS_FORMATS as readonly string[]).includes(format)) {
+        throw new Error(`Invalid format: ${opts.format}. Expected one of: ${ERRORS_FORMATS.join(", ")}`)
+      }
+      const maxExamples = Number.parseInt(String(opts.maxExamples), 10)
+      if (isNaN(maxExamples) || maxExamples < 0) {
+        throw new Error(`Invalid max-examples: ${opts.maxExamples}. Must be a non-negative integer.`)
+      }
+
+      const run = await loadSavedRun(runId)
+      const models = opts.models ? opts.models.split(",").map((s) => s.trim()).filter(Boolean) : run.models
+      const unknown = models.find((m) => !run.models.includes(m))
+      if (unknown !== undefined) {
+        throw new Error(`Run ${run.runId} has no results for ${unknown}. Models: ${run.models.join(", ")}`)
+      }
+      const analysis = analyzeErrors(run.items, models)
+
+      const out = opts.out ?? path.join(run.dir, `error-analysis.${format}`)
+      const content =
+        format === "json"
+          ? JSON.stringify({ runId: run.runId, ...analysis }, null, 2) + "\n"
+          : renderErrorAnalysisMarkdown(analysis, { runId: run.runId, maxExamples })
+      await Bun.write(out, content)
+
+      console.log(
+        `${analysis.claims} claims: ${analysis.allWrong.length} wrong for every model, ${analysis.disagreements.length} with disagreeing models`,
+      )
+      for (const p of analysis.confusionPairs.slice(0, 3)) {
+        console.log(`  ${p.gold} → ${p.predicted}: ${p.count}`)
+      }
+      console.log(`Report written to ${out}`)
+    })
+}
@@ -0,0 +1,37 @@
+import { Command } from "commander"
+import { cacheCommand } from "./cache"
+import { compareCommand } from "./compare"
+import { datasetCommand } from "./dataset"
+import { errorsCommand } from "./errors"
+import { leaderboardCommand } from "./leaderboard"
+import { mergeCommand } from "./merge"
+
+/**
+ * Subcommands that run without the live UI.
+ */
+const SUBCOMMANDS: Record<string, () => Command> = {
+  cache: cacheCommand,
+  compare: compareCommand,
+  dataset: datasetCommand,
+  errors: errorsCommand,
+  leaderboard: leaderboardCommand,
+  merge: mergeCommand,
+}
+
+/**
+ * Runs a subcommand if the first argument names one.
+ * @param argv - Command-line arguments array.
+ * @returns True if a subcommand handled the invocation.
+ */
+export async function runSubcommand(argv: string[]): Promise<boolean> {
+  const factory = SUBCOMMANDS[argv[2] ?? ""]
+  if (!factory) return false
+  const program = new Command().name("checkmate-factbench").addCommand(factory())
+  try {
+    await program.parseAsync(argv)
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`)
+    process.exitCode = 1
+  }
+  return true
+}
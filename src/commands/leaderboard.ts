@@ -0,0 +1,49 @@
+import { Command } from "commander"
+import { buildLeaderboard, loadRunSummaries } from "../lib/leaderboard"
+import { RUNS_ROOT } from "../lib/manifest"
+import { renderLeaderboardHtml, renderLeaderboardMarkdown } from "../lib/report"
+
+const LEADERBOARD_FORMATS = ["md", "json", "html"] as const
+
+/**
+ * Builds the `leaderboard` subcommand: ranks models across all saved runs.
+ * @returns The commander command.
+ */
+export function leaderboardCommand(): Command {
+  return new Command("leaderboard")
+    .description("Aggregate the summaries of all runs into a ranked leaderboard per dataset")
+    .option("--format <format>", `Leaderboard format (${LEADERBOARD_FORMATS.join(" | ")})`, "md")
+    .option("--out <path>", "Leaderboard path (default: runs/leaderboard.<format>)")
+    .option("--runs-dir <path>", "Directory holding the runs", RUNS_ROOT)
+    .option("--dataset <hash>", "Only rank runs on this dataset (hash prefix)")
+    .action(async (opts: Record<string, string | undefined>) => {
+      const format = String(opts.format)
+      if (!(LEADERBOARD_FORMATS as readonly string[]).includes(format)) {
+        throw new Error(`Invalid format: ${opts.format}. Expected one of: ${LEADERBOARD_FORMATS.join(", ")}`)
+      }
+      const runsDir = opts.runsDir ?? RUNS_ROOT
+      const { summaries, skipped } = await loadRunSummaries(runsDir)
+      const leaderboard = buildLeaderboard(summaries, { dataset: opts.dataset, runsDir })
+      leaderboard.skipped.unshift(...skipped)
+
+      const out = opts.out ?? `${runsDir}/leaderboard.${format}`
+      const content =
+        format === "json"
+          ? JSON.stringify(leaderboard, null, 2) + "\n"
+          : format === "html"
+            ? renderLeaderboardHtml(leaderboard)
+            : renderLeaderboardMarkdown(leaderboard)
+      await Bun.write(out, content)
+
+      for (const d of leaderboard.datasets) {
+        console.log(
+          `${d.filePath} (${d.examples} examples, dataset ${d.datasetHash.slice(0, 12)}, setup ${d.cacheVariant ?? "default"}):`,
+        )
+        for (const e of d.entries) {
+          console.log(`  ${e.rank}. ${e.modelId}: best ${(e.best.accuracy * 100).toFixed(1)}% (${e.best.runId}), ${e.runs} run(s)`)
+        }
+      }
+      if (leaderboard.datasets.length === 0) console.log("No complete runs with a summary found.")
+      console.log(`Leaderboard written to ${out}`)
+    })
+}
@@ -0,0 +1,26 @@
+import { Command } from "commander"
+import { RUNS_ROOT } from "../lib/manifest"
+import { mergeShardRuns } from "../lib/merge"
+
+/**
+ * Builds the `merge` subcommand: combines the shard runs of one sample into a single run.
+ * @returns The commander command.
+ */
+export function mergeCommand(): Command {
+  return new Command("merge")
+    .description("Merge the shard runs of one sample (--shard i/n) into a single run")
+    .argument("<runs...>", "Run IDs under runs/ or run directory paths of the shards")
+    .option("--runs-dir <path>", "Directory holding the shard runs and the merged run", RUNS_ROOT)
+    .action(async (runIds: string[], opts: Record<string, string | undefined>) => {
+      const merged = await mergeShardRuns(runIds, { runsDir: opts.runsDir ?? RUNS_ROOT })
+      for (const s of merged.summaries) {
+        console.log(`${s.modelId}: ${(s.accuracy * 100).toFixed(1)}% (${s.correct}/${s.total})`)
+      }
+      if (merged.missingShards.length > 0) {
+        console.log(
+          `Missing shards ${merged.missingShards.join(", ")}; evaluate them with --resume ${merged.runId}`,
+        )
+      }
+      console.log(`Merged run ${merged.runId} written to ${merged.outDir} (report: ${merged.outMdPath})`)
+    })
+}
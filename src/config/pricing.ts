@@ -0,0 +1,16 @@
+/**
+ * Prices in USD per million tokens, keyed by model ID. Used to estimate run
+ * cost; update it when provider prices change. Models ending in `:free` and the
+ * `mock:`/`local:` providers are free and need no entry.
+ */
+export const MODEL_PRICING: Record<string, { promptPerMTok: number; completionPerMTok: number }> = {
+  "openai/gpt-4o": { promptPerMTok: 2.5, completionPerMTok: 10 },
+  "openai/gpt-4o-mini": { promptPerMTok: 0.15, completionPerMTok: 0.6 },
+  "openai/gpt-4.1": { promptPerMTok: 2, completionPerMTok: 8 },
+  "openai/gpt-4.1-mini": { promptPerMTok: 0.4, completionPerMTok: 1.6 },
+  "anthropic/claude-3.5-haiku": { promptPerMTok: 0.8, completionPerMTok: 4 },
+  "anthropic/claude-3.7-sonnet": { promptPerMTok: 3, completionPerMTok: 15 },
+  "google/gemini-2.0-flash-001": { promptPerMTok: 0.1, completionPerMTok: 0.4 },
+  "meta-llama/llama-3.3-70b-instruct": { promptPerMTok: 0.13, completionPerMTok: 0.4 },
+  "mistralai/mistral-small-3.1-24b-instruct": { promptPerMTok: 0.1, completionPerMTok: 0.3 },
+}
@@ -1,63 +1,168 @@
-import React, { useEffect, useMemo, useState } from "react"
-import { createCliRenderer } from "@opentui/core"
-import { createRoot } from "@opentui/react"
+import React, { useEffect, useState } from "react"
+import { createCliRenderer, type CliRenderer } from "@opentui/core"
+import { createRoot, useKeyboard } from "@opentui/react"
 import { Command } from "commander"
-import { readJsonlFile } from "./lib/readJsonl"
-import type { FeverExample, ModelEvalSummary, RunProgressEvent } from "./lib/evaluate"
-import { evaluateModelExamples } from "./lib/evaluate"
-import { ensureDir, renderMarkdownReport, safeSlug, writeJsonl } from "./lib/report"
+import type { EvalMode, ModelEvalSummary } from "./lib/evaluate"
+import { EVAL_MODES } from "./lib/evaluate"
+import { DEFAULT_LOCAL_BASE_URL } from "./lib/providers"
 import {
-  FEVER_LABELS,
-  correctFromConfusionMatrix,
-  createConfusionMatrix,
-  isFeverLabel,
-  recordPrediction,
-  sumConfusionMatrix,
+  runBenchmark,
+  type BenchmarkEvent,
+  type BenchmarkOptions,
+  type ResolvedBenchmarkOptions,
+} from "./lib/runner"
+import { formatUsd } from "./lib/cost"
+import { DATASET_FORMATS, formatDatasetIssues, parseDatasetFields, type DatasetFormat } from "./lib/dataset"
+import { formatMs } from "./lib/latency"
+import { htmlPathFor } from "./lib/html"
+import {
+  DEFAULT_LABEL_SCHEMA,
+  LABEL_SCHEMAS,
+  isDefaultLabelSchema,
+  loadLabelSchema,
+  parseLabelAliases,
+  withLabelAliases,
 } from "./lib/labels"
-import { DEFAULT_MODELS } from "./config/models"
+import { CONFIG_FILE_NAMES, configToOptions, findConfigFile, loadConfigFile } from "./lib/config"
 import {
-  cacheHitToItem,
-  computeExampleHash,
-  exampleIdToString,
-  getDatasetCacheId,
-  getModelCachePath,
-  loadModelCache,
-  saveModelCache,
-  type CacheEntry,
-} from "./lib/cache"
+  EXIT_CODES,
+  exitCodeFor,
+  formatThresholdFailure,
+  type QualityThresholds,
+  type ThresholdFailure,
+} from "./lib/gates"
+import { PROGRESS_FORMATS, createProgressPrinter, type ProgressFormat } from "./lib/progress"
+import { DEFAULT_RETRY_OPTIONS, DEFAULT_TIMEOUT_MS } from "./lib/retry"
+import { BUILTIN_PROMPTS } from "./lib/prompts"
+import { OUTPUT_FORMATS, type OutputFormat } from "./lib/structured"
+import { SAMPLE_STRATEGIES, STRATIFY_KEYS, parseShard, type SampleStrategy, type StratifyKey } from "./lib/sampling"
+import { CONFIDENCE_METHODS, type ConfidenceMethod } from "./lib/calibration"
+import { DEFAULT_MODELS } from "./config/models"
+import { runSubcommand } from "./commands"
 
 type AppState = {
   started: boolean
   done: boolean
+  /** Ctrl-C was pressed: in-flight requests are draining. */
+  stopping: boolean
+  interrupted?: boolean
+  /** Set when a budget stopped the run. */
+  stopReason?: string
+  /** Spend of the requests made by this invocation. */
+  spent: { costUsd: number; tokens: number }
   error?: string
   runId?: string
   outMdPath?: string
   outDir?: string
   examplesTotal: number
-  currentModel?: string
-  currentModelDone: number
+  /** Per-model progress; models that haven't started have no entry. */
+  progress: Record<string, { completed: number; status: "running" | "done" }>
   summaries: Record<string, Omit<ModelEvalSummary, "items">>
+  /** Models that missed a `--min-accuracy` / `--max-invalid-rate` threshold. */
+  failures?: ThresholdFailure[]
+  /** Options in effect, known once the run starts. */
+  options?: ResolvedBenchmarkOptions
+  /** Rows skipped by a lenient dataset load. */
+  datasetIssues?: string
+}
+
+type CliArgs = {
+  options: BenchmarkOptions
+  /** Render the live UI; otherwise progress is printed as lines. */
+  tui: boolean
+  progressFormat: ProgressFormat
 }
 
 /**
- * Parses command-line arguments and validates them.
+ * Parses command-line arguments, merges them over the config file and
+ * validates them. Flags given on the command line win over the config file,
+ * which wins over the built-in defaults.
  * @param argv - Command-line arguments array.
  * @returns Parsed and validated arguments.
- * @throws Error if arguments are invalid.
+ * @throws Error if arguments or the config file are invalid.
  */
-function parseArgs(argv: string[]) {
+async function parseArgs(argv: string[]): Promise<CliArgs> {
   const program = new Command()
     .name("checkmate-factbench")
     .description("Run FEVER-style label validation via OpenRouter + AI SDK")
-    .option("--file <path>", "JSONL dataset file", "val/train.jsonl")
+    .option("--config <path>", `Config file (default: ${CONFIG_FILE_NAMES.join(" or ")} if present)`)
+    .option("--dataset <name>", "Dataset declared in the config file")
+    .option("--file <path>", "Dataset file (.gz is decompressed)", "val/train.jsonl")
+    .option("--format <format>", `Dataset format (${DATASET_FORMATS.join(" | ")}; default: from the file extension)`)
+    .option("--fields <map>", "Dataset field mapping, e.g. claim=statement,label=verdict,id=row_id")
+    .option("--no-header", "CSV/TSV file has no header row (map fields by column number)")
+    .option(
+      "--labels <name|path>",
+      `Label schema: built-in (${Object.keys(LABEL_SCHEMAS).join(", ")}) or a JSON schema file`,
+      "fever",
+    )
+    .option(
+      "--label-alias <from=to>",
+      "Extra spelling of a label in the dataset or model answers (repeatable)",
+      (v: string, prev: string[] | undefined) => [...(prev ?? []), v],
+    )
+    .option("--sample <strategy>", `How to pick the examples (${SAMPLE_STRATEGIES.join(" | ")})`, "first")
+    .option("--seed <n>", "Seed of random and stratified sampling", "0")
+    .option("--stratify <keys>", `Fields stratified sampling balances (comma-separated: ${STRATIFY_KEYS.join(", ")})`, "label")
+    .option("--offset <n>", "Dataset rows to skip before sampling", "0")
+    .option("--shard <i/n>", "Evaluate only shard i of n of the sample (merge the shards with the merge command)")
+    .option("--lenient", "Skip invalid dataset rows instead of failing (listed in dataset-report.json)")
     .option("--limit <n>", "Number of examples to evaluate per model", "10")
     .option(
       "--models <csv>",
-      "Comma-separated OpenRouter model IDs",
+      "Comma-separated model IDs (OpenRouter IDs, or prefixed with local: / mock:)",
       DEFAULT_MODELS.join(","),
     )
     .option("--out <path>", "Output markdown path (optional)")
     .option("--concurrency <n>", "Requests in flight per model", "2")
+    .option("--parallel-models <n>", "Models evaluated at the same time (default: all)")
+    .option("--max-concurrency <n>", "Cap on requests in flight across all models (0 = no cap)", "0")
+    .option(
+      "--local-base-url <url>",
+      "Base URL of the OpenAI-compatible endpoint used for local: models",
+      process.env.FACTBENCH_LOCAL_BASE_URL ?? DEFAULT_LOCAL_BASE_URL,
+    )
+    .option("--retries <n>", "Retries per request on transport errors", String(DEFAULT_RETRY_OPTIONS.maxRetries))
+    .option("--timeout <ms>", "Per-request timeout in milliseconds (0 disables it)", String(DEFAULT_TIMEOUT_MS))
+    .option("--rpm <n>", "Max requests per minute per model (0 = unlimited)", "0")
+    .option("--mode <mode>", `Evaluation mode (${EVAL_MODES.join(" | ")})`, "label")
+    .option(
+      "--prompt <name|path>",
+      `Prompt template: built-in (${Object.keys(BUILTIN_PROMPTS).join(", ")}) or a JSON template file (default: depends on --mode)`,
+    )
+    .option("--shots <k>", "Number of few-shot examples (requires a pool)")
+    .option("--few-shot-pool <path>", "Dataset file to sample few-shot examples from")
+    .option("--few-shot-seed <n>", "Seed for few-shot sampling")
+    .option("--resume <runId>", "Continue an interrupted run with its original options")
+    .option(
+      "--output <format>",
+      `Response format (${OUTPUT_FORMATS.join(" | ")}); structured requests a JSON answer object`,
+      "text",
+    )
+    .option(
+      "--confidence <method>",
+      `Confidence elicitation (${CONFIDENCE_METHODS.join(" | ")}); logprobs needs a provider that returns them`,
+      "none",
+    )
+    .option("--temperature <t>", "Sampling temperature for every model (0-2; config model entries override it)")
+    .option("--max-output-tokens <n>", "Maximum completion tokens per request")
+    .option("--generation-seed <n>", "Sampling seed for every model, for providers that support one")
+    .option(
+      "--stop <sequence>",
+      "Stop sequence (repeatable)",
+      (v: string, prev: string[] | undefined) => [...(prev ?? []), v],
+    )
+    .option("--samples <n>", "Query each claim n times and take the majority vote", "1")
+    .option("--max-cost <usd>", "Stop issuing requests once this invocation has spent this much (USD)")
+    .option("--max-tokens <n>", "Stop issuing requests once this invocation has used this many tokens")
+    .option("--no-tui", "Print line-based progress instead of the live UI (default when stdout is not a terminal)")
+    .option(
+      "--progress-format <format>",
+      `Progress output without the live UI (${PROGRESS_FORMATS.join(" | ")}); ndjson implies --no-tui`,
+      "text",
+    )
+    .option("--min-accuracy <x>", "Exit with code 2 if any model's accuracy is below this (0-1)")
+    .option("--max-invalid-rate <x>", "Exit with code 2 if any model's invalid rate is above this (0-1)")
 
   program.parse(argv)
   const opts = program.opts()
@@ -79,6 +184,20 @@ function parseArgs(argv: string[]) {
   }
   const concurrency = concurrencyRaw
 
+  let parallelModels: number | undefined
+  if (opts.parallelModels !== undefined) {
+    parallelModels = Number.parseInt(String(opts.parallelModels), 10)
+    if (isNaN(parallelModels) || parallelModels < 1) {
+      throw new Error(`Invalid parallel-models: ${opts.parallelModels}. Must be a positive integer.`)
+    }
+  }
+
+  const maxConcurrencyRaw = Number.parseInt(String(opts.maxConcurrency), 10)
+  if (isNaN(maxConcurrencyRaw) || maxConcurrencyRaw < 0) {
+    throw new Error(`Invalid max-concurrency: ${opts.maxConcurrency}. Must be a non-negative integer.`)
+  }
+  const maxConcurrency = maxConcurrencyRaw > 0 ? maxConcurrencyRaw : undefined
+
   const models = String(opts.models)
     .split(",")
     .map((s) => s.trim())
@@ -90,318 +209,312 @@ function parseArgs(argv: string[]) {
 
   const out = opts.out ? String(opts.out) : undefined
 
-  return { filePath, limit, models, out, concurrency }
-}
+  const modeRaw = String(opts.mode)
+  if (!(EVAL_MODES as readonly string[]).includes(modeRaw)) {
+    throw new Error(`Invalid mode: ${opts.mode}. Expected one of: ${EVAL_MODES.join(", ")}`)
+  }
+  const mode = modeRaw as EvalMode
 
-/**
- * Loads and validates examples from a JSONL file.
- * @param filePath - Path to the JSONL dataset file.
- * @param limit - Maximum number of examples to load.
- * @returns Array of validated FEVER examples.
- * @throws Error if the file is invalid or examples are malformed.
- */
-async function loadExamples(filePath: string, limit: number): Promise<FeverExample[]> {
-  if (!filePath || typeof filePath !== "string") {
-    throw new Error("File path must be a non-empty string")
+  const outputRaw = String(opts.output)
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(outputRaw)) {
+    throw new Error(`Invalid output: ${opts.output}. Expected one of: ${OUTPUT_FORMATS.join(", ")}`)
   }
-  if (limit < 1 || !Number.isInteger(limit)) {
-    throw new Error("Limit must be a positive integer")
+  const output = outputRaw as OutputFormat
+
+  const confidenceRaw = String(opts.confidence)
+  if (!(CONFIDENCE_METHODS as readonly string[]).includes(confidenceRaw)) {
+    throw new Error(
+      `Invalid confidence method: ${opts.confidence}. Expected one of: ${CONFIDENCE_METHODS.join(", ")}`,
+    )
+  }
+  const confidence = confidenceRaw as ConfidenceMethod
+  if (output === "structured" && confidence === "distribution") {
+    throw new Error("--confidence distribution needs --output text (structured answers report a single confidence)")
   }
 
-  const examples: FeverExample[] = []
-  let rowIndex = 0
-  
-  try {
-    for await (const row of readJsonlFile<Record<string, unknown>>(filePath, limit)) {
-      rowIndex++
-      
-      if (!row || typeof row !== "object") {
-        throw new Error(`Invalid row at index ${rowIndex}: must be a JSON object`)
-      }
+  const localBaseURL = String(opts.localBaseUrl)
 
-      const label = row?.label
-      if (!isFeverLabel(label)) {
-        throw new Error(
-          `Invalid label in dataset row id=${row?.id ?? "unknown"} (line ${rowIndex}): ${String(label)}. Expected one of: ${FEVER_LABELS.join(
-            ", ",
-          )}`,
-        )
-      }
-      
-      const claim = String(row?.claim ?? "")
-      if (!claim.trim()) {
-        throw new Error(`Missing or empty claim in dataset row id=${row?.id ?? "unknown"} (line ${rowIndex})`)
-      }
-      
-      const rowId = row.id
-      const id: string | number = 
-        typeof rowId === "string" || typeof rowId === "number" 
-          ? rowId 
-          : rowIndex
-      
-      examples.push({
-        id,
-        claim,
-        label,
-        verifiable: row?.verifiable as string | undefined,
-      })
+  const prompt = opts.prompt ? String(opts.prompt) : undefined
+
+  let shots: number | undefined
+  if (opts.shots !== undefined) {
+    shots = Number.parseInt(String(opts.shots), 10)
+    if (isNaN(shots) || shots < 1) {
+      throw new Error(`Invalid shots: ${opts.shots}. Must be a positive integer.`)
     }
-  } catch (err) {
-    if (err instanceof Error) {
-      throw err
+  }
+  const fewShotPool = opts.fewShotPool ? String(opts.fewShotPool) : undefined
+  let fewShotSeed: number | undefined
+  if (opts.fewShotSeed !== undefined) {
+    fewShotSeed = Number.parseInt(String(opts.fewShotSeed), 10)
+    if (isNaN(fewShotSeed)) {
+      throw new Error(`Invalid few-shot seed: ${opts.fewShotSeed}. Must be an integer.`)
+    }
+  }
+
+  const retries = Number.parseInt(String(opts.retries), 10)
+  if (isNaN(retries) || retries < 0) {
+    throw new Error(`Invalid retries: ${opts.retries}. Must be a non-negative integer.`)
+  }
+
+  const timeoutMs = Number.parseInt(String(opts.timeout), 10)
+  if (isNaN(timeoutMs) || timeoutMs < 0) {
+    throw new Error(`Invalid timeout: ${opts.timeout}. Must be a non-negative integer.`)
+  }
+
+  const rpm = Number.parseFloat(String(opts.rpm))
+  if (isNaN(rpm) || rpm < 0) {
+    throw new Error(`Invalid rpm: ${opts.rpm}. Must be a non-negative number.`)
+  }
+  const requestsPerMinute = rpm > 0 ? rpm : undefined
+
+  let maxCostUsd: number | undefined
+  if (opts.maxCost !== undefined) {
+    maxCostUsd = Number.parseFloat(String(opts.maxCost))
+    if (isNaN(maxCostUsd) || maxCostUsd <= 0) {
+      throw new Error(`Invalid max-cost: ${opts.maxCost}. Must be a positive number.`)
+    }
+  }
+  let maxTokens: number | undefined
+  if (opts.maxTokens !== undefined) {
+    maxTokens = Number.parseInt(String(opts.maxTokens), 10)
+    if (isNaN(maxTokens) || maxTokens < 1) {
+      throw new Error(`Invalid max-tokens: ${opts.maxTokens}. Must be a positive integer.`)
+    }
+  }
+
+  let temperature: number | undefined
+  if (opts.temperature !== undefined) {
+    temperature = Number.parseFloat(String(opts.temperature))
+    if (isNaN(temperature) || temperature < 0 || temperature > 2) {
+      throw new Error(`Invalid temperature: ${opts.temperature}. Must be a number between 0 and 2.`)
+    }
+  }
+  let maxOutputTokens: number | undefined
+  if (opts.maxOutputTokens !== undefined) {
+    maxOutputTokens = Number.parseInt(String(opts.maxOutputTokens), 10)
+    if (isNaN(maxOutputTokens) || maxOutputTokens < 1) {
+      throw new Error(`Invalid max-output-tokens: ${opts.maxOutputTokens}. Must be a positive integer.`)
+    }
+  }
+  let generationSeed: number | undefined
+  if (opts.generationSeed !== undefined) {
+    generationSeed = Number.parseInt(String(opts.generationSeed), 10)
+    if (isNaN(generationSeed)) {
+      throw new Error(`Invalid generation-seed: ${opts.generationSeed}. Must be an integer.`)
+    }
+  }
+  const stop = opts.stop as string[] | undefined
+
+  const strategy = String(opts.sample) as SampleStrategy
+  if (!(SAMPLE_STRATEGIES as readonly string[]).includes(strategy)) {
+    throw new Error(`Invalid sample strategy: ${opts.sample}. Expected one of: ${SAMPLE_STRATEGIES.join(", ")}`)
+  }
+  const sampleSeed = Number.parseInt(String(opts.seed), 10)
+  if (isNaN(sampleSeed)) {
+    throw new Error(`Invalid seed: ${opts.seed}. Must be an integer.`)
+  }
+  const stratifyBy = String(opts.stratify).split(",").map((s) => s.trim()) as StratifyKey[]
+  const unknownKey = stratifyBy.find((k) => !(STRATIFY_KEYS as readonly string[]).includes(k))
+  if (unknownKey !== undefined) {
+    throw new Error(`Invalid stratify key: ${unknownKey}. Expected some of: ${STRATIFY_KEYS.join(", ")}`)
+  }
+  const offset = Number.parseInt(String(opts.offset), 10)
+  if (isNaN(offset) || offset < 0) {
+    throw new Error(`Invalid offset: ${opts.offset}. Must be a non-negative integer.`)
+  }
+  const shard = opts.shard !== undefined ? parseShard(String(opts.shard)) : undefined
+  const samples = Number.parseInt(String(opts.samples), 10)
+  if (isNaN(samples) || samples < 1) {
+    throw new Error(`Invalid samples: ${opts.samples}. Must be a positive integer.`)
+  }
+
+  const progressFormat = String(opts.progressFormat) as ProgressFormat
+  if (!(PROGRESS_FORMATS as readonly string[]).includes(progressFormat)) {
+    throw new Error(
+      `Invalid progress format: ${opts.progressFormat}. Expected one of: ${PROGRESS_FORMATS.join(", ")}`,
+    )
+  }
+  const tui = opts.tui !== false && progressFormat === "text" && Boolean(process.stdout.isTTY)
+
+  const thresholds: QualityThresholds = {}
+  for (const [flag, key] of [
+    ["min-accuracy", "minAccuracy"],
+    ["max-invalid-rate", "maxInvalidRate"],
+  ] as const) {
+    if (opts[key] === undefined) continue
+    const v = Number.parseFloat(String(opts[key]))
+    if (isNaN(v) || v < 0 || v > 1) {
+      throw new Error(`Invalid ${flag}: ${opts[key]}. Must be a number between 0 and 1.`)
     }
-    throw new Error(`Failed to load examples: ${String(err)}`)
+    thresholds[key] = v
   }
 
-  if (examples.length === 0) {
-    throw new Error(`No valid examples found in ${filePath}`)
+  const configPath = opts.config ? String(opts.config) : await findConfigFile()
+  const config = configPath ? await loadConfigFile(configPath) : undefined
+  if (opts.dataset !== undefined && !config) {
+    throw new Error("--dataset needs a config file that declares datasets")
   }
+  const fromConfig = config ? configToOptions(config, opts.dataset ? String(opts.dataset) : undefined) : {}
 
-  return examples
+  let format: DatasetFormat | undefined
+  if (opts.format !== undefined) {
+    format = String(opts.format) as DatasetFormat
+    if (!(DATASET_FORMATS as readonly string[]).includes(format)) {
+      throw new Error(`Invalid format: ${opts.format}. Expected one of: ${DATASET_FORMATS.join(", ")}`)
+    }
+  }
+  const fields = opts.fields !== undefined ? parseDatasetFields(String(opts.fields)) : undefined
+  const labelSchema =
+    program.getOptionValueSource("labels") === "cli" || !fromConfig.labels
+      ? await loadLabelSchema(String(opts.labels))
+      : fromConfig.labels
+  const labels = withLabelAliases(labelSchema, parseLabelAliases((opts.labelAlias as string[] | undefined) ?? []))
+  /**
+   * Picks the command-line value if the flag was given, else the config value, else the default.
+   * @param flag - Commander option name.
+   * @param cliValue - Parsed flag value (or its default).
+   * @param configValue - Value from the config file.
+   * @returns The effective value.
+   */
+  function pick<T>(flag: string, cliValue: T, configValue: T | undefined): T {
+    return program.getOptionValueSource(flag) === "cli" || configValue === undefined ? cliValue : configValue
+  }
+
+  const options: BenchmarkOptions = {
+    filePath: pick("file", filePath, fromConfig.filePath),
+    format: pick("format", format, fromConfig.format),
+    fields: pick("fields", fields, fromConfig.fields),
+    header: pick("header", opts.header === false ? false : undefined, fromConfig.header),
+    labels: isDefaultLabelSchema(labels) ? undefined : labels,
+    limit: pick("limit", limit, fromConfig.limit),
+    lenient: pick("lenient", opts.lenient === true ? true : undefined, fromConfig.lenient),
+    sampling: {
+      strategy: pick("sample", strategy, fromConfig.sampling?.strategy),
+      seed: pick("seed", sampleSeed, fromConfig.sampling?.seed),
+      stratifyBy: pick("stratify", stratifyBy, fromConfig.sampling?.stratifyBy),
+      offset: pick("offset", offset, fromConfig.sampling?.offset),
+      shard: pick("shard", shard, fromConfig.sampling?.shard),
+    },
+    models: pick("models", models, fromConfig.models),
+    modelOptions: fromConfig.modelOptions,
+    out,
+    concurrency: pick("concurrency", concurrency, fromConfig.concurrency),
+    parallelModels: pick("parallelModels", parallelModels, fromConfig.parallelModels),
+    maxConcurrency: pick("maxConcurrency", maxConcurrency, fromConfig.maxConcurrency),
+    mode: pick("mode", mode, fromConfig.mode),
+    generation: {
+      temperature: pick("temperature", temperature, fromConfig.generation?.temperature),
+      maxTokens: pick("maxOutputTokens", maxOutputTokens, fromConfig.generation?.maxTokens),
+      seed: pick("generationSeed", generationSeed, fromConfig.generation?.seed),
+      stop: pick("stop", stop, fromConfig.generation?.stop),
+    },
+    samples: pick("samples", samples, fromConfig.samples),
+    output: pick("output", output, fromConfig.output),
+    confidence: pick("confidence", confidence, fromConfig.confidence),
+    prompt: pick("prompt", prompt, fromConfig.prompt),
+    fewShot: {
+      k: pick("shots", shots, fromConfig.fewShot?.k),
+      pool: pick("fewShotPool", fewShotPool, fromConfig.fewShot?.pool),
+      seed: pick("fewShotSeed", fewShotSeed, fromConfig.fewShot?.seed),
+    },
+    localBaseURL: pick("localBaseUrl", localBaseURL, fromConfig.localBaseURL),
+    retries: pick("retries", retries, fromConfig.retries),
+    timeoutMs: pick("timeout", timeoutMs, fromConfig.timeoutMs),
+    requestsPerMinute: pick("rpm", requestsPerMinute, fromConfig.requestsPerMinute),
+    maxCostUsd: pick("maxCost", maxCostUsd, fromConfig.maxCostUsd),
+    maxTokens: pick("maxTokens", maxTokens, fromConfig.maxTokens),
+    thresholds: {
+      minAccuracy: pick("minAccuracy", thresholds.minAccuracy, fromConfig.thresholds?.minAccuracy),
+      maxInvalidRate: pick("maxInvalidRate", thresholds.maxInvalidRate, fromConfig.thresholds?.maxInvalidRate),
+    },
+    runsDir: fromConfig.runsDir,
+    cacheDir: fromConfig.cacheDir,
+    resume: opts.resume ? String(opts.resume) : undefined,
+  }
+  return { options, tui, progressFormat }
 }
 
-function App() {
-  const args = useMemo(() => parseArgs(process.argv), [])
+function App(props: { args: BenchmarkOptions; stop: AbortController }) {
+  const { args, stop } = props
 
   const [state, setState] = useState<AppState>(() => ({
     started: false,
     done: false,
+    stopping: false,
+    spent: { costUsd: 0, tokens: 0 },
     examplesTotal: 0,
-    currentModelDone: 0,
+    progress: {},
     summaries: {},
   }))
 
-  useEffect(() => {
-    let cancelled = false
-
-    async function run() {
-      const apiKey = process.env.OPENROUTER_API_KEY
-      if (!apiKey) {
-        throw new Error(
-          "Missing OPENROUTER_API_KEY env var. Set it and rerun (e.g. OPENROUTER_API_KEY=... bun run dev -- --limit 10).",
-        )
-      }
+  useKeyboard((key) => {
+    if (key.ctrl && key.name === "c") interrupt(state.done)
+  })
 
-      const timestampIso = new Date().toISOString()
-      const runId = timestampIso.replace(/[:.]/g, "-")
-      const outDir = `runs/${runId}`
-      const rawDir = `${outDir}/raw`
-      await ensureDir(rawDir)
-
-      const outMdPath = args.out ?? `${outDir}.md`
+  useEffect(() => {
+    const onStop = () => setState((s: AppState) => ({ ...s, stopping: true }))
+    stop.signal.addEventListener("abort", onStop, { once: true })
+    return () => stop.signal.removeEventListener("abort", onStop)
+  }, [stop])
 
-      const examples = await loadExamples(args.filePath, args.limit)
-      const datasetCacheId = await getDatasetCacheId(args.filePath)
-      const cacheRoot = ".cache"
+  useEffect(() => {
+    let cancelled = false
 
+    const onEvent = (ev: BenchmarkEvent) => {
       if (cancelled) return
-      setState((s: AppState) => ({
-        ...s,
-        started: true,
-        runId,
-        outMdPath,
-        outDir,
-        examplesTotal: examples.length,
-      }))
-
-      const summaries = []
-      for (const modelId of args.models) {
-        if (cancelled) return
-
-        const cachePath = await getModelCachePath({
-          cacheRoot,
-          datasetCacheId,
-          modelId,
-        })
-        const cacheMap = await loadModelCache({ cachePath })
-
-        // Prepare cache hits + misses
-        const fullItems: Array<import("./lib/evaluate").ModelEvalItem> = new Array(
-          examples.length,
-        )
-        const missing: Array<{ idx: number; ex: FeverExample; exHash: string; exId: string }> =
-          []
-
-        for (let i = 0; i < examples.length; i++) {
-          const ex = examples[i]
-          const exId = exampleIdToString(ex.id)
-          const exHash = await computeExampleHash(ex)
-          const hit = cacheMap.get(exId)
-          if (hit && hit.exampleHash === exHash && hit.modelId === modelId) {
-            fullItems[i] = cacheHitToItem(hit)
-          } else {
-            missing.push({ idx: i, ex, exHash, exId })
-          }
-        }
-
-        // Notify start
-        const onProgress = async (ev: RunProgressEvent) => {
-          if (cancelled) return
-          if (ev.type === "modelStart") {
-            setState((s: AppState) => ({ ...s, currentModel: ev.modelId, currentModelDone: 0 }))
-            return
-          }
-          if (ev.type === "modelItem") {
-            setState((s: AppState) => ({
-              ...s,
-              currentModel: ev.modelId,
-              currentModelDone: ev.completed,
-              summaries: { ...s.summaries, [ev.modelId]: ev.summarySoFar },
-            }))
-            return
-          }
-          if (ev.type === "modelDone") {
-            const rawPath = `${rawDir}/${safeSlug(ev.modelId)}.jsonl`
-            await writeJsonl(rawPath, ev.summary.items)
-            setState((s: AppState) => ({
-              ...s,
-              summaries: {
-                ...s.summaries,
-                [ev.modelId]: {
-                  modelId: ev.summary.modelId,
-                  confusion: ev.summary.confusion,
-                  total: ev.summary.total,
-                  correct: ev.summary.correct,
-                  invalid: ev.summary.invalid,
-                  accuracy: ev.summary.accuracy,
-                  invalidRate: ev.summary.invalidRate,
-                },
-              },
-            }))
-          }
-        }
-
-        await onProgress({ type: "modelStart", modelId, totalExamples: examples.length })
-
-        // Seed confusion with cached items + emit progress for them
-        const cm = createConfusionMatrix()
-        let completed = 0
-        for (let i = 0; i < fullItems.length; i++) {
-          const item = fullItems[i]
-          if (!item) continue
-          recordPrediction(cm, item.goldLabel, item.predictedLabel)
-          completed++
-          const total = sumConfusionMatrix(cm)
-          const correct = correctFromConfusionMatrix(cm)
-          const invalid = cm.invalid
-          const summarySoFar = {
-            modelId,
-            confusion: cm,
-            total,
-            correct,
-            invalid,
-            accuracy: total === 0 ? 0 : correct / total,
-            invalidRate: total === 0 ? 0 : invalid / total,
-          }
-          await onProgress({
-            type: "modelItem",
-            modelId,
-            index: i,
-            completed,
-            totalExamples: examples.length,
-            item,
-            summarySoFar,
-          })
-        }
-
-        // Evaluate only missing rows
-        const missingExamples = missing.map((m) => m.ex)
-        await evaluateModelExamples(
-          {
-            openrouterApiKey: apiKey,
-            modelId,
-            examples: missingExamples,
-            concurrency: args.concurrency,
-          },
-          async (item, localIdx) => {
-            const { idx, exHash } = missing[localIdx]
-            item.cached = false
-            item.exampleHash = exHash
-            fullItems[idx] = item
-            recordPrediction(cm, item.goldLabel, item.predictedLabel)
-            completed++
-
-            const total = sumConfusionMatrix(cm)
-            const correct = correctFromConfusionMatrix(cm)
-            const invalid = cm.invalid
-            const summarySoFar = {
-              modelId,
-              confusion: cm,
-              total,
-              correct,
-              invalid,
-              accuracy: total === 0 ? 0 : correct / total,
-              invalidRate: total === 0 ? 0 : invalid / total,
-            }
-            await onProgress({
-              type: "modelItem",
-              modelId,
-              index: idx,
-              completed,
-              totalExamples: examples.length,
-              item,
-              summarySoFar,
-            })
-          },
-        )
-
-        // Update cache with all items (cached + new)
-        for (let i = 0; i < examples.length; i++) {
-          const ex = examples[i]
-          const exId = exampleIdToString(ex.id)
-          const exHash = fullItems[i]?.exampleHash ?? (await computeExampleHash(ex))
-          const item = fullItems[i]
-          if (!item) continue
-          const entry: CacheEntry = {
-            v: 1,
-            datasetPath: args.filePath,
-            modelId,
-            exampleId: exId,
-            exampleHash: exHash,
-            item: { ...item, cached: false },
-            cachedAtIso: new Date().toISOString(),
-          }
-          cacheMap.set(exId, entry)
+      switch (ev.type) {
+        case "runStart":
+          setState((s: AppState) => ({
+            ...s,
+            started: true,
+            options: ev.options,
+            runId: ev.runId,
+            outMdPath: ev.outMdPath,
+            outDir: ev.outDir,
+            examplesTotal: ev.examplesTotal,
+            datasetIssues: formatDatasetIssues(ev.dataset),
+          }))
+          return
+        case "modelStart":
+          setState((s: AppState) => ({
+            ...s,
+            progress: { ...s.progress, [ev.modelId]: { completed: 0, status: "running" } },
+          }))
+          return
+        case "modelItem":
+          setState((s: AppState) => ({
+            ...s,
+            progress: { ...s.progress, [ev.modelId]: { completed: ev.completed, status: "running" } },
+            summaries: { ...s.summaries, [ev.modelId]: ev.summarySoFar },
+          }))
+          return
+        case "modelDone": {
+          const { items, ...summaryWithoutItems } = ev.summary
+          setState((s: AppState) => ({
+            ...s,
+            progress: {
+              ...s.progress,
+              [ev.modelId]: { completed: items.filter(Boolean).length, status: "done" },
+            },
+            summaries: { ...s.summaries, [ev.modelId]: summaryWithoutItems },
+          }))
+          return
         }
-        await saveModelCache({ cachePath, entries: cacheMap })
-
-        // Finalize model summary
-        const total = sumConfusionMatrix(cm)
-        const correct = correctFromConfusionMatrix(cm)
-        const invalid = cm.invalid
-        const summary = {
-          modelId,
-          items: fullItems,
-          confusion: cm,
-          total,
-          correct,
-          invalid,
-          accuracy: total === 0 ? 0 : correct / total,
-          invalidRate: total === 0 ? 0 : invalid / total,
+        case "spend":
+          setState((s: AppState) => ({ ...s, spent: ev.spent, stopReason: ev.stopReason }))
+          return
+        case "runDone": {
+          const { failures } = ev.result
+          exitCode = exitCodeFor({ interrupted: ev.result.interrupted, failures })
+          setState((s: AppState) => ({ ...s, done: true, interrupted: ev.result.interrupted, failures }))
+          return
         }
-        await onProgress({ type: "modelDone", modelId, summary })
-        summaries.push(summary)
       }
-
-      // Write markdown report
-      const md = renderMarkdownReport(
-        {
-          runId,
-          timestampIso,
-          filePath: args.filePath,
-          limit: examples.length,
-          models: args.models,
-          concurrency: args.concurrency,
-        },
-        summaries,
-      )
-      await Bun.write(outMdPath, md)
-
-      if (cancelled) return
-      setState((s: AppState) => ({ ...s, done: true }))
     }
 
-    run().catch((e) => {
+    runBenchmark(args, { signal: stop.signal, onEvent }).catch((e) => {
+      exitCode = EXIT_CODES.error
       if (cancelled) return
       setState((s: AppState) => ({
         ...s,
@@ -415,16 +528,20 @@ function App() {
     }
   }, [args])
 
-  const models = args.models
+  // A resumed run shows the options stored in its manifest once it starts
+  const opts = state.options ?? args
+  const models = opts.models
 
   return (
     <box flexDirection="column" padding={1}>
       <text>Checkmate FactBench — OpenRouter validation</text>
       <text>
-        file: {args.filePath} | limit: {args.limit} | concurrency: {args.concurrency}
+        file: {opts.filePath} | limit: {opts.limit} | concurrency: {opts.concurrency}/model
+        {opts.maxConcurrency ? ` (max ${opts.maxConcurrency})` : ""} | mode:{" "}
+        {opts.mode} | prompt: {opts.prompt}
       </text>
       <text>models: {models.join(", ")}</text>
-      <text>labels: {FEVER_LABELS.join(", ")}</text>
+      <text>labels: {(opts.labels ?? DEFAULT_LABEL_SCHEMA).labels.join(", ")}</text>
       <text>---</text>
 
       {state.error ? (
@@ -434,29 +551,152 @@ function App() {
       ) : (
         <>
           <text>
-            current: {state.currentModel ?? "-"} ({state.currentModelDone}/{state.examplesTotal})
+            running: {models.filter((m) => state.progress[m]?.status === "running").join(", ") || "-"} (
+            {models.filter((m) => state.progress[m]?.status === "done").length}/{models.length} models done)
+          </text>
+          <text>
+            outputs: {state.outMdPath ?? "-"}
+            {state.outMdPath ? `, ${htmlPathFor(state.outMdPath)}` : ""} (raw: {state.outDir ?? "-"}/raw/)
           </text>
-          <text>outputs: {state.outMdPath ?? "-"} (raw: {state.outDir ?? "-"}/raw/)</text>
+          {state.datasetIssues ? <text>dataset: {state.datasetIssues}</text> : null}
+          {opts.maxCostUsd !== undefined || opts.maxTokens !== undefined ? (
+            <text>
+              budget: {formatUsd(state.spent.costUsd)}
+              {opts.maxCostUsd !== undefined ? ` / ${formatUsd(opts.maxCostUsd)}` : ""} | tokens {state.spent.tokens}
+              {opts.maxTokens !== undefined ? ` / ${opts.maxTokens}` : ""}
+            </text>
+          ) : null}
           <text>---</text>
 
           {models.map((m: string) => {
+            const name = opts.modelOptions?.[m]?.alias ?? m
             const s = state.summaries[m]
-            if (!s) return <text key={m}>{m}: pending…</text>
+            const p = state.progress[m]
+            if (!s || !p) return <text key={m}>{name}: pending…</text>
+            const status = p.status === "done" ? "done" : `${p.completed}/${state.examplesTotal}`
             const accPct = (s.accuracy * 100).toFixed(1)
             const invPct = (s.invalidRate * 100).toFixed(1)
+            const macroPct = (s.metrics.macroF1 * 100).toFixed(1)
+            const kappa = s.metrics.kappa.toFixed(2)
+            const calibration = s.calibration
+              ? ` | ECE ${(s.calibration.ece * 100).toFixed(1)}% | Brier ${s.calibration.brier.toFixed(3)}`
+              : ""
+            const votes = s.voting ? ` | ${s.voting.samples} votes, agreement ${(s.voting.meanAgreement * 100).toFixed(1)}%` : ""
+            const transport = s.transportErrors ? ` | transport errors ${s.transportErrors}` : ""
+            const l = s.latency
+            const latency =
+              l && l.count > 0
+                ? [
+                    ` | p50 ${formatMs(l.p50Ms)} p90 ${formatMs(l.p90Ms)} p99 ${formatMs(l.p99Ms)}`,
+                    l.requestsPerSecond !== undefined ? ` | ${l.requestsPerSecond.toFixed(2)} req/s` : "",
+                    l.tokensPerSecond !== undefined ? ` | ${l.tokensPerSecond.toFixed(1)} tok/s` : "",
+                  ].join("")
+                : ""
+            const cost = s.cost
+              ? ` | cost ${formatUsd(s.cost.spent.costUsd)}${s.cost.cached.items ? ` (+${s.cost.cached.items} cached)` : ""} | per correct ${formatUsd(s.cost.costPerCorrectUsd)}`
+              : ""
+            const fever = s.evidence
+              ? ` | FEVER ${(s.evidence.strictScore * 100).toFixed(1)}% | ev-F1 ${(s.evidence.f1 * 100).toFixed(1)}%`
+              : ""
             return (
               <text key={m}>
-                {m}: acc {accPct}% ({s.correct}/{s.total}) | invalid {invPct}%
+                {name} [{status}]: acc {accPct}% ({s.correct}/{s.total}) | macro-F1 {macroPct}% | κ {kappa} | invalid{" "}
+                {invPct}%{fever}{calibration}{votes}{latency}{cost}{transport}
               </text>
             )
           })}
 
-          {state.done ? <text>Done.</text> : <text>Running…</text>}
+          {state.failures?.map((f) => (
+            <text key={`${f.modelId}:${f.metric}`}>Threshold failed: {formatThresholdFailure(f)}</text>
+          ))}
+
+          {state.done && state.stopReason ? (
+            <text>
+              Stopped: {state.stopReason}. Partial report written. Resume with --resume {state.runId} (and a larger
+              budget). Press Ctrl-C to exit.
+            </text>
+          ) : state.done && state.interrupted ? (
+            <text>
+              Interrupted. Partial report written. Resume with --resume {state.runId}. Press Ctrl-C to exit.
+            </text>
+          ) : state.done ? (
+            <text>Done.</text>
+          ) : state.stopping ? (
+            <text>Stopping: waiting for in-flight requests… (Ctrl-C again to quit immediately)</text>
+          ) : (
+            <text>Running…</text>
+          )}
         </>
       )}
     </box>
   )
 }
 
-const renderer = await createCliRenderer()
-createRoot(renderer).render(<App />)
\ No newline at end of file
+const stop = new AbortController()
+let renderer: CliRenderer | undefined
+/** Exit code once the run has finished (see `EXIT_CODES`). */
+let exitCode: number = EXIT_CODES.ok
+
+/**
+ * First Ctrl-C stops starting new requests and lets the run write a partial
+ * report; a second one (or one after the run finished) exits immediately.
+ * @param done - Whether the run has finished.
+ */
+function interrupt(done: boolean) {
+  if (done || stop.signal.aborted) {
+    renderer?.destroy()
+    process.exit(done ? exitCode : 130)
+  }
+  stop.abort()
+}
+
+/**
+ * Starts a benchmark run with the live terminal UI.
+ * @param args - Parsed arguments.
+ */
+async function startTui(args: CliArgs) {
+  renderer = await createCliRenderer({
+    exitOnCtrlC: false,
+    exitSignals: ["SIGTERM", "SIGQUIT", "SIGABRT"],
+  })
+  process.on("SIGINT", () => interrupt(false))
+  createRoot(renderer).render(<App args={args.options} stop={stop} />)
+}
+
+/**
+ * Runs a benchmark without the live UI, printing progress to stdout, and sets
+ * the exit code from the thresholds.
+ * @param args - Parsed arguments.
+ */
+async function runHeadless(args: CliArgs) {
+  const print = createProgressPrinter(args.progressFormat)
+  process.on("SIGINT", () => {
+    if (!stop.signal.aborted) console.error("Stopping: waiting for in-flight requests… (Ctrl-C again to quit immediately)")
+    interrupt(false)
+  })
+  try {
+    const result = await runBenchmark(args.options, { signal: stop.signal, onEvent: print })
+    const { failures } = result
+    if (args.progressFormat === "ndjson") {
+      console.log(JSON.stringify({ type: "thresholds", passed: failures.length === 0, failures }))
+    } else {
+      for (const f of failures) console.log(`threshold failed: ${formatThresholdFailure(f)}`)
+    }
+    process.exitCode = exitCodeFor({ interrupted: result.interrupted, failures })
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`)
+    process.exitCode = EXIT_CODES.error
+  }
+}
+
+if (!(await runSubcommand(process.argv))) {
+  let args: CliArgs | undefined
+  try {
+    args = await parseArgs(process.argv)
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`)
+    process.exitCode = EXIT_CODES.error
+  }
+  if (args?.tui) await startTui(args)
+  else if (args) await runHeadless(args)
+}
@@ -1,8 +1,17 @@
-import { mkdir, readFile, writeFile } from "node:fs/promises"
+import { appendFile, mkdir, readFile, writeFile } from "node:fs/promises"
 import path from "node:path"
 import { safeSlug } from "./report"
 import { sha256Hex } from "./hash"
-import type { FeverExample, ModelEvalItem } from "./evaluate"
+import type { EvalMode, FeverExample, GenerationSettings, ModelEvalItem } from "./evaluate"
+import { defaultPromptName, loadPromptTemplate, type ResolvedPrompt } from "./prompts"
+import { isDefaultLabelSchema } from "./labels"
+import type { OutputFormat } from "./structured"
+import type { ConfidenceMethod } from "./calibration"
+
+/**
+ * Default root directory of the response cache.
+ */
+export const CACHE_ROOT = ".cache"
 
 export type CacheEntry = {
   v: 1
@@ -10,6 +19,9 @@ export type CacheEntry = {
   modelId: string
   exampleId: string
   exampleHash: string
+  variant?: string
+  promptTemplate?: string
+  promptHash?: string
   item: ModelEvalItem
   cachedAtIso: string
 }
@@ -46,6 +58,74 @@ export async function computeExampleHash(ex: FeverExample): Promise<string> {
   return sha256Hex(JSON.stringify({ id: ex.id, claim: ex.claim, label: ex.label }))
 }
 
+/**
+ * Computes a content hash for a list of evaluated examples. Runs with the same
+ * dataset hash scored exactly the same examples, so their results are comparable.
+ * @param examples - The evaluated examples, in order.
+ * @returns SHA-256 hash over the example hashes.
+ */
+export async function computeDatasetHash(examples: FeverExample[]): Promise<string> {
+  if (!Array.isArray(examples)) {
+    throw new Error("Examples must be an array")
+  }
+  const hashes: string[] = []
+  for (const ex of examples) hashes.push(await computeExampleHash(ex))
+  return sha256Hex(hashes.join("\n"))
+}
+
+/**
+ * Builds the lookup key for a cache entry.
+ * Entries produced under a non-default evaluation variant (e.g. evidence mode)
+ * are stored alongside, not instead of, the default label-only entries.
+ * @param exampleId - The example ID as a string.
+ * @param variant - Optional variant tag; omitted for the default label-only mode.
+ * @returns Cache map key.
+ */
+export function cacheEntryKey(exampleId: string, variant?: string): string {
+  return variant ? `${exampleId}::${variant}` : exampleId
+}
+
+/**
+ * Computes the cache variant tag for an evaluation setup. The default setup
+ * (label mode with the default prompt and FEVER labels) has no tag, so caches
+ * written before variants existed stay valid.
+ * @param params - Variant parameters.
+ * @param params.mode - Evaluation mode.
+ * @param params.prompt - Resolved prompt template (its label schema adds a tag unless it is FEVER).
+ * @param params.output - Response format (text is the default and adds no tag).
+ * @param params.confidence - Confidence method (none is the default and adds no tag).
+ * @param params.generation - Per-model sampling settings (provider defaults add no tag).
+ * @param params.samples - Samples per claim (1 is the default and adds no tag).
+ * @returns Variant tag, or undefined for the default setup.
+ */
+export async function computeCacheVariant(params: {
+  mode: EvalMode
+  prompt: ResolvedPrompt
+  output?: OutputFormat
+  confidence?: ConfidenceMethod
+  generation?: GenerationSettings
+  samples?: number
+}): Promise<string | undefined> {
+  const parts: string[] = []
+  if (params.mode !== "label") parts.push(params.mode)
+  if (params.output && params.output !== "text") parts.push(params.output)
+  if (params.confidence && params.confidence !== "none") parts.push(`confidence=${params.confidence}`)
+  if (params.generation?.temperature !== undefined) parts.push(`temperature=${params.generation.temperature}`)
+  if (params.generation?.maxTokens !== undefined) parts.push(`maxTokens=${params.generation.maxTokens}`)
+  if (params.generation?.seed !== undefined) parts.push(`seed=${params.generation.seed}`)
+  if (params.generation?.stop?.length) parts.push(`stop=${JSON.stringify(params.generation.stop)}`)
+  if (params.samples && params.samples > 1) parts.push(`samples=${params.samples}`)
+  const { labels } = params.prompt
+  if (!isDefaultLabelSchema(labels)) {
+    parts.push(`labels=${labels.name}@${(await sha256Hex(JSON.stringify(labels))).slice(0, 12)}`)
+  }
+  const defaultPrompt = await loadPromptTemplate(defaultPromptName(params.mode, labels), {}, labels)
+  if (params.prompt.hash !== defaultPrompt.hash) {
+    parts.push(`prompt=${params.prompt.template.name}@${params.prompt.hash.slice(0, 12)}`)
+  }
+  return parts.length ? parts.join("::") : undefined
+}
+
 /**
  * Gets the cache file path for a specific model and dataset combination.
  * Creates the directory if it doesn't exist.
@@ -72,7 +152,7 @@ export async function getModelCachePath(params: {
  * Loads cached evaluation results from a JSONL file.
  * @param params - Cache loading parameters.
  * @param params.cachePath - Path to the cache file.
- * @returns Map of example IDs to cache entries.
+ * @returns Map of cache keys (see `cacheEntryKey`) to cache entries.
  */
 export async function loadModelCache(params: {
   cachePath: string
@@ -93,7 +173,7 @@ export async function loadModelCache(params: {
         const entry = JSON.parse(t) as CacheEntry
         if (!entry || entry.v !== 1) continue
         if (!entry.exampleId) continue
-        map.set(entry.exampleId, entry)
+        map.set(cacheEntryKey(entry.exampleId, entry.variant), entry)
       } catch (err) {
         // Skip invalid cache entries but continue processing
         console.warn(`Skipping invalid cache entry on line ${i + 1}: ${err instanceof Error ? err.message : String(err)}`)
@@ -130,6 +210,21 @@ export async function saveModelCache(params: {
   await writeFile(params.cachePath, content, "utf8")
 }
 
+/**
+ * Appends a single entry to a cache file. Later lines win when the cache is
+ * loaded, so entries can be checkpointed as they complete and compacted with
+ * `saveModelCache` afterwards.
+ * @param params - Cache append parameters.
+ * @param params.cachePath - Path to the cache file.
+ * @param params.entry - Entry to append.
+ */
+export async function appendCacheEntry(params: { cachePath: string; entry: CacheEntry }) {
+  if (!params.cachePath || typeof params.cachePath !== "string") {
+    throw new Error("Cache path must be a non-empty string")
+  }
+  await appendFile(params.cachePath, JSON.stringify(params.entry) + "\n", "utf8")
+}
+
 /**
  * Converts an example ID to a string representation.
  * @param id - The example ID (number or string).
@@ -143,7 +238,8 @@ export function exampleIdToString(id: number | string): string {
 }
 
 /**
- * Converts a cache entry to a ModelEvalItem.
+ * Converts a cache entry to a ModelEvalItem. The original `latencyMs` is kept
+ * so latency stats can be recomputed from the cache; live stats skip cached items.
  * @param hit - The cache entry to convert.
  * @returns ModelEvalItem with cached flag set to true.
  */
@@ -155,8 +251,5 @@ export function cacheHitToItem(hit: CacheEntry): ModelEvalItem {
     ...hit.item,
     cached: true,
     exampleHash: hit.exampleHash,
-    latencyMs: 0,
   }
 }
-
-
@@ -0,0 +1,374 @@
+import { readdir, readFile, rm } from "node:fs/promises"
+import path from "node:path"
+import {
+  cacheEntryKey,
+  getDatasetCacheId,
+  getModelCachePath,
+  loadModelCache,
+  saveModelCache,
+  type CacheEntry,
+} from "./cache"
+import type { ModelEvalItem } from "./evaluate"
+
+/**
+ * One model's cache file for one dataset.
+ */
+export type CacheFile = {
+  /** Directory name under `<cacheRoot>/factbench/` (hash of the dataset path). */
+  datasetCacheId: string
+  /** Dataset path recorded on the entries, if any. */
+  datasetPath?: string
+  modelId: string
+  cachePath: string
+  /** Entries by cache key (see `cacheEntryKey`). */
+  entries: Map<string, CacheEntry>
+}
+
+/**
+ * Selects cache entries. An entry must match every criterion that is set.
+ */
+export type CacheFilter = {
+  /** Only entries of these model IDs. */
+  models?: string[]
+  /** Only entries cached longer ago than this (milliseconds). */
+  olderThanMs?: number
+  /** Only failed answers (model errors and invalid labels). */
+  errors?: boolean
+  /** Only entries of these example IDs. */
+  exampleIds?: string[]
+  /** Only entries whose claim matches this pattern. */
+  claim?: RegExp
+}
+
+export type CacheModelStats = {
+  modelId: string
+  entries: number
+  /** Distinct evaluation variants (mode, prompt, sampling settings...). */
+  variants: number
+  errors: number
+  oldestIso?: string
+  newestIso?: string
+}
+
+export type CacheDatasetStats = {
+  datasetCacheId: string
+  datasetPath?: string
+  entries: number
+  models: CacheModelStats[]
+}
+
+/**
+ * First line of a cache bundle. Bundles are keyed by the content hash of the
+ * dataset file, so they can be imported wherever the same file lives.
+ */
+export type CacheBundleHeader = {
+  kind: "factbench-cache-bundle"
+  v: 1
+  /** SHA-256 of the dataset file contents. */
+  datasetContentHash: string
+  /** File name of the dataset the bundle was exported from. */
+  datasetFile: string
+  exportedAtIso: string
+  entries: number
+  models: string[]
+}
+
+/**
+ * A bundled cache entry; the dataset path is filled in on import.
+ */
+export type CacheBundleEntry = Omit<CacheEntry, "datasetPath">
+
+/**
+ * Reads every cache file under a cache root.
+ * @param cacheRoot - Root directory of the cache.
+ * @returns Cache files ordered by dataset and model; empty if the cache doesn't exist.
+ */
+export async function listCacheFiles(cacheRoot: string): Promise<CacheFile[]> {
+  const root = path.join(cacheRoot, "factbench")
+  const files: CacheFile[] = []
+  let datasetIds: string[]
+  try {
+    datasetIds = (await readdir(root, { withFileTypes: true })).filter((d) => d.isDirectory()).map((d) => d.name)
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return files
+    throw err
+  }
+  for (const datasetCacheId of datasetIds.sort()) {
+    const names = (await readdir(path.join(root, datasetCacheId))).filter((n) => n.endsWith(".jsonl")).sort()
+    for (const name of names) {
+      const cachePath = path.join(root, datasetCacheId, name)
+      const entries = await loadModelCache({ cachePath })
+      const first = entries.values().next().value
+      files.push({
+        datasetCacheId,
+        datasetPath: first?.datasetPath,
+        modelId: first?.modelId ?? name.replace(/\.jsonl$/, ""),
+        cachePath,
+        entries,
+      })
+    }
+  }
+  return files
+}
+
+/**
+ * Checks whether a cached answer failed: the model returned an error or no
+ * valid label.
+ * @param item - The cached item.
+ * @returns True for failed answers.
+ */
+export function isCachedFailure(item: ModelEvalItem): boolean {
+  return Boolean(item.error) || item.predictedLabel === "INVALID"
+}
+
+/**
+ * Checks a cache entry against a filter.
+ * @param entry - The cache entry.
+ * @param filter - The filter.
+ * @param nowMs - Current time, for age checks.
+ * @returns True if the entry matches every criterion that is set.
+ */
+export function matchesCacheFilter(entry: CacheEntry, filter: CacheFilter, nowMs: number = Date.now()): boolean {
+  if (filter.models && !filter.models.includes(entry.modelId)) return false
+  if (filter.olderThanMs !== undefined) {
+    const cachedAt = Date.parse(entry.cachedAtIso)
+    if (!(nowMs - cachedAt > filter.olderThanMs)) return false
+  }
+  if (filter.errors && !isCachedFailure(entry.item)) return false
+  if (filter.exampleIds && !filter.exampleIds.includes(entry.exampleId)) return false
+  if (filter.claim && !filter.claim.test(entry.item.claim)) return false
+  return true
+}
+
+/**
+ * Counts cache entries per dataset and model.
+ * @param files - Cache files (see `listCacheFiles`).
+ * @returns Stats per dataset directory.
+ */
+export function computeCacheStats(files: CacheFile[]): CacheDatasetStats[] {
+  const datasets = new Map<string, CacheDatasetStats>()
+  for (const f of files) {
+    let ds = datasets.get(f.datasetCacheId)
+    if (!ds) {
+      ds = { datasetCacheId: f.datasetCacheId, datasetPath: f.datasetPath, entries: 0, models: [] }
+      datasets.set(f.datasetCacheId, ds)
+    }
+    const entries = [...f.entries.values()]
+    const times = entries.map((e) => e.cachedAtIso).sort()
+    ds.datasetPath ??= f.datasetPath
+    ds.entries += entries.length
+    ds.models.push({
+      modelId: f.modelId,
+      entries: entries.length,
+      variants: new Set(entries.map((e) => e.variant ?? "")).size,
+      errors: entries.filter((e) => isCachedFailure(e.item)).length,
+      oldestIso: times[0],
+      newestIso: times[times.length - 1],
+    })
+  }
+  return [...datasets.values()]
+}
+
+/**
+ * Removes matching entries from cache files. Files left empty are deleted.
+ * @param files - Cache files (see `listCacheFiles`).
+ * @param filter - Entries to remove.
+ * @param options - `dryRun` counts without writing.
+ * @returns Entries removed and kept.
+ */
+export async function removeCacheEntries(
+  files: CacheFile[],
+  filter: CacheFilter,
+  options: { dryRun?: boolean; nowMs?: number } = {},
+): Promise<{ removed: number; kept: number }> {
+  const nowMs = options.nowMs ?? Date.now()
+  let removed = 0
+  let kept = 0
+  for (const f of files) {
+    const entries = new Map<string, CacheEntry>()
+    for (const [key, entry] of f.entries) {
+      if (!matchesCacheFilter(entry, filter, nowMs)) entries.set(key, entry)
+    }
+    const n = f.entries.size - entries.size
+    removed += n
+    kept += entries.size
+    if (n === 0 || options.dryRun) continue
+    if (entries.size === 0) await rm(f.cachePath, { force: true })
+    else await saveModelCache({ cachePath: f.cachePath, entries })
+  }
+  return { removed, kept }
+}
+
+/**
+ * Hashes the contents of a dataset file, so caches can be shared regardless
+ * of where the file lives. The file is streamed, so large datasets are never
+ * held in memory.
+ * @param filePath - Path to the dataset file.
+ * @returns SHA-256 (hex) of the file's bytes.
+ * @throws Error if the file is missing.
+ */
+export async function computeDatasetContentHash(filePath: string): Promise<string> {
+  const file = Bun.file(filePath)
+  if (!(await file.exists())) {
+    throw new Error(`Dataset file not found: ${filePath}`)
+  }
+  const hasher = new Bun.CryptoHasher("sha256")
+  const reader = file.stream().getReader()
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    hasher.update(value)
+  }
+  return hasher.digest("hex")
+}
+
+/**
+ * Writes a dataset's cache entries to a portable bundle (JSONL: a header
+ * line, then one entry per line).
+ * @param params - Export parameters.
+ * @param params.cacheRoot - Root directory of the cache.
+ * @param params.datasetPath - Dataset file whose cache is exported.
+ * @param params.out - Bundle path.
+ * @param params.filter - Optional filter selecting the exported entries.
+ * @returns The bundle header.
+ */
+export async function exportCacheBundle(params: {
+  cacheRoot: string
+  datasetPath: string
+  out: string
+  filter?: CacheFilter
+}): Promise<CacheBundleHeader> {
+  const datasetContentHash = await computeDatasetContentHash(params.datasetPath)
+  const datasetCacheId = await getDatasetCacheId(params.datasetPath)
+  const files = (await listCacheFiles(params.cacheRoot)).filter((f) => f.datasetCacheId === datasetCacheId)
+
+  const rows: string[] = []
+  const models: string[] = []
+  for (const f of files) {
+    let count = 0
+    for (const entry of f.entries.values()) {
+      if (params.filter && !matchesCacheFilter(entry, params.filter)) continue
+      const { datasetPath: _datasetPath, ...bundled } = entry
+      rows.push(JSON.stringify(bundled satisfies CacheBundleEntry))
+      count++
+    }
+    if (count > 0) models.push(f.modelId)
+  }
+  const header: CacheBundleHeader = {
+    kind: "factbench-cache-bundle",
+    v: 1,
+    datasetContentHash,
+    datasetFile: path.basename(params.datasetPath),
+    exportedAtIso: new Date().toISOString(),
+    entries: rows.length,
+    models,
+  }
+  await Bun.write(params.out, [JSON.stringify(header), ...rows].join("\n") + "\n")
+  return header
+}
+
+/**
+ * Reads a cache bundle.
+ * @param bundlePath - Bundle path.
+ * @returns The header and entries.
+ * @throws Error if the file is not a cache bundle.
+ */
+export async function readCacheBundle(
+  bundlePath: string,
+): Promise<{ header: CacheBundleHeader; entries: CacheBundleEntry[] }> {
+  const lines = (await readFile(bundlePath, "utf8")).split(/\r?\n/).filter((l) => l.trim())
+  let header: CacheBundleHeader | undefined
+  try {
+    header = lines.length ? (JSON.parse(lines[0]) as CacheBundleHeader) : undefined
+  } catch {
+    header = undefined
+  }
+  if (header?.kind !== "factbench-cache-bundle" || header.v !== 1) {
+    throw new Error(`${bundlePath} is not a cache bundle`)
+  }
+  const entries = lines.slice(1).map((l, i) => {
+    try {
+      return JSON.parse(l) as CacheBundleEntry
+    } catch (err) {
+      throw new Error(`${bundlePath}: invalid entry on line ${i + 2} (${err instanceof Error ? err.message : String(err)})`)
+    }
+  })
+  return { header, entries }
+}
+
+/**
+ * Merges a cache bundle into the cache of a local dataset file. The file must
+ * have the contents the bundle was exported from; on conflicts the more
+ * recently cached entry wins.
+ * @param params - Import parameters.
+ * @param params.cacheRoot - Root directory of the cache.
+ * @param params.bundlePath - Bundle path.
+ * @param params.datasetPath - Local dataset file the entries belong to.
+ * @returns Entries added, replaced and skipped (an equally recent or newer entry exists).
+ * @throws Error if the dataset contents differ from the bundle's.
+ */
+export async function importCacheBundle(params: {
+  cacheRoot: string
+  bundlePath: string
+  datasetPath: string
+}): Promise<{ added: number; replaced: number; skipped: number }> {
+  const { header, entries } = await readCacheBundle(params.bundlePath)
+  const contentHash = await computeDatasetContentHash(params.datasetPath)
+  if (contentHash !== header.datasetContentHash) {
+    throw new Error(
+      `${params.datasetPath} does not match the bundle's dataset (${header.datasetFile}, content hash ${header.datasetContentHash.slice(0, 12)}; local ${contentHash.slice(0, 12)})`,
+    )
+  }
+  const datasetCacheId = await getDatasetCacheId(params.datasetPath)
+
+  const byModel = new Map<string, CacheBundleEntry[]>()
+  for (const e of entries) byModel.set(e.modelId, [...(byModel.get(e.modelId) ?? []), e])
+
+  let added = 0
+  let replaced = 0
+  let skipped = 0
+  for (const [modelId, modelEntries] of byModel) {
+    const cachePath = await getModelCachePath({ cacheRoot: params.cacheRoot, datasetCacheId, modelId })
+    const cache = await loadModelCache({ cachePath })
+    for (const e of modelEntries) {
+      const key = cacheEntryKey(e.exampleId, e.variant)
+      const existing = cache.get(key)
+      if (existing && existing.cachedAtIso >= e.cachedAtIso) {
+        skipped++
+        continue
+      }
+      if (existing) replaced++
+      else added++
+      cache.set(key, { ...e, datasetPath: params.datasetPath })
+    }
+    await saveModelCache({ cachePath, entries: cache })
+  }
+  return { added, replaced, skipped }
+}
+
+/**
+ * Parses an age such as `30d`, `12h`, `45m` or `90s`.
+ * @param s - The age.
+ * @returns Milliseconds.
+ * @throws Error if the age is malformed.
+ */
+export function parseAge(s: string): number {
+  const m = /^(\d+(?:\.\d+)?)([smhdw])$/.exec(s.trim())
+  if (!m) {
+    throw new Error(`Invalid age: ${s}. Expected a number with a unit (s, m, h, d, w), e.g. 30d`)
+  }
+  const unitMs = { s: 1_000, m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 }[m[2] as "s" | "m" | "h" | "d" | "w"]
+  return Number(m[1]) * unitMs
+}
+
+/**
+ * Formats an age for stats output.
+ * @param ms - Age in milliseconds.
+ * @returns E.g. "3d", "5h", "12m" or "40s".
+ */
+export function formatAge(ms: number): string {
+  if (ms >= 86_400_000) return `${Math.floor(ms / 86_400_000)}d`
+  if (ms >= 3_600_000) return `${Math.floor(ms / 3_600_000)}h`
+  if (ms >= 60_000) return `${Math.floor(ms / 60_000)}m`
+  return `${Math.max(0, Math.floor(ms / 1000))}s`
+}
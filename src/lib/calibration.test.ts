@@ -0,0 +1,176 @@
+import { describe, expect, test } from "bun:test"
+import {
+  applyConfidenceInstruction,
+  computeCalibration,
+  extractConfidence,
+  labelProbsFromLogprobs,
+  parseLabelDistribution,
+  parseVerbalConfidence,
+  stripConfidenceLines,
+} from "./calibration"
+import type { ModelEvalItem } from "./evaluate"
+import { LABEL_SCHEMAS } from "./labels"
+
+/**
+ * Builds a scored item with a confidence.
+ * @param predictedLabel - The predicted label.
+ * @param ok - Whether the answer was right.
+ * @param confidence - The item's confidence.
+ * @param extra - Fields to override.
+ * @returns The item.
+ */
+function item(
+  predictedLabel: ModelEvalItem["predictedLabel"],
+  ok: boolean,
+  confidence: number | undefined,
+  extra: Partial<ModelEvalItem> = {},
+): ModelEvalItem {
+  return {
+    datasetId: 1,
+    claim: "Claim.",
+    goldLabel: ok ? predictedLabel : "SUPPORTS",
+    predictedLabel,
+    rawText: "",
+    ok,
+    latencyMs: 1,
+    confidence,
+    ...extra,
+  }
+}
+
+describe("parseVerbalConfidence", () => {
+  test("reads fractions, percentages and bare numbers above 1 as probabilities", () => {
+    expect(parseVerbalConfidence("SUPPORTS\nCONFIDENCE: 0.8")).toBe(0.8)
+    expect(parseVerbalConfidence("SUPPORTS\nconfidence: 85%")).toBe(0.85)
+    expect(parseVerbalConfidence("SUPPORTS\n**Confidence:** 70")).toBe(0.7)
+  })
+
+  test("uses the last line and rejects missing or out-of-range values", () => {
+    expect(parseVerbalConfidence("CONFIDENCE: 10\nREFUTES\nCONFIDENCE: 90")).toBe(0.9)
+    expect(parseVerbalConfidence("SUPPORTS")).toBeUndefined()
+    expect(parseVerbalConfidence("CONFIDENCE: 150")).toBeUndefined()
+  })
+})
+
+describe("parseLabelDistribution", () => {
+  test("resolves aliases and normalizes the probabilities", () => {
+    expect(parseLabelDistribution("SUPPORTS\nPROBABILITIES: SUPPORTS=60%, refuted=20%, NEI=20%")).toEqual({
+      SUPPORTS: 0.6,
+      REFUTES: 0.2,
+      "NOT ENOUGH INFO": 0.2,
+    })
+    expect(parseLabelDistribution("PROBABILITIES: TRUE=3, FALSE=1", LABEL_SCHEMAS.binary)).toEqual({
+      TRUE: 0.75,
+      FALSE: 0.25,
+    })
+  })
+
+  test("returns undefined without a usable line", () => {
+    expect(parseLabelDistribution("SUPPORTS")).toBeUndefined()
+    expect(parseLabelDistribution("PROBABILITIES: SUPPORTS=0, REFUTES=0")).toBeUndefined()
+  })
+})
+
+describe("stripConfidenceLines", () => {
+  test("drops confidence and probability lines so they don't reach label parsing", () => {
+    expect(stripConfidenceLines("REFUTES\nPROBABILITIES: SUPPORTS=0.1, REFUTES=0.9\n**Confidence**: 90")).toBe(
+      "REFUTES",
+    )
+  })
+})
+
+describe("applyConfidenceInstruction", () => {
+  const rendered = { messages: [{ role: "user" as const, content: "Claim: x" }] }
+
+  test("appends the instruction to the final user message", () => {
+    const out = applyConfidenceInstruction(rendered, "distribution", LABEL_SCHEMAS.binary.labels)
+    expect(out.messages[0].content).toContain("PROBABILITIES: TRUE=<p>, FALSE=<p>")
+    expect(applyConfidenceInstruction(rendered, "logprobs")).toBe(rendered)
+  })
+
+  test("requires a text user message at the end", () => {
+    expect(() =>
+      applyConfidenceInstruction({ messages: [{ role: "assistant", content: "SUPPORTS" }] }, "verbal"),
+    ).toThrow("must end with a text user message")
+  })
+})
+
+describe("extractConfidence", () => {
+  test("prefers a structured confidence and reads the predicted label's probability", () => {
+    expect(
+      extractConfidence({ method: "distribution", rawText: "", label: "SUPPORTS", structuredConfidence: 0.4 }),
+    ).toEqual({ confidence: 0.4, confidenceSource: "verbal" })
+    const out = extractConfidence({
+      method: "distribution",
+      rawText: "REFUTES\nPROBABILITIES: SUPPORTS=0.25, REFUTES=0.75",
+      label: "REFUTES",
+    })
+    expect(out.confidence).toBe(0.75)
+    expect(out.confidenceSource).toBe("distribution")
+  })
+})
+
+describe("labelProbsFromLogprobs", () => {
+  test("reads label alternatives at the token where the label starts", () => {
+    const tokens = [
+      { token: "Answer: ", logprob: 0, topLogprobs: [] },
+      {
+        token: "SUP",
+        logprob: Math.log(0.6),
+        topLogprobs: [
+          { token: "SUP", logprob: Math.log(0.6) },
+          { token: "REF", logprob: Math.log(0.2) },
+          { token: " NOT", logprob: Math.log(0.1) },
+          { token: "maybe", logprob: Math.log(0.1) },
+        ],
+      },
+      { token: "PORTS", logprob: 0, topLogprobs: [] },
+    ]
+    const probs = labelProbsFromLogprobs(tokens, "SUPPORTS")
+    expect(probs?.SUPPORTS).toBeCloseTo(2 / 3, 10)
+    expect(probs?.REFUTES).toBeCloseTo(2 / 9, 10)
+    expect(probs?.["NOT ENOUGH INFO"]).toBeCloseTo(1 / 9, 10)
+    expect(labelProbsFromLogprobs(tokens, "REFUTES")).toBeUndefined()
+  })
+})
+
+describe("computeCalibration", () => {
+  const items = [
+    item("SUPPORTS", true, 0.9),
+    item("REFUTES", false, 0.8),
+    item("REFUTES", false, 0.2),
+    item("NOT ENOUGH INFO", true, 0.4),
+    item("SUPPORTS", false, 0.99, { errorKind: "transport", error: "timeout" }),
+    item("SUPPORTS", true, undefined),
+    undefined,
+  ]
+
+  test("computes ECE and Brier score over confident, scored items", () => {
+    const c = computeCalibration(items, { bins: 2, coverage: [0.25, 0.5, 1] })
+    expect(c?.n).toBe(4)
+    expect(c?.meanConfidence).toBeCloseTo(0.575, 10)
+    expect(c?.accuracy).toBe(0.5)
+    // (0.01 + 0.64 + 0.04 + 0.36) / 4
+    expect(c?.brier).toBeCloseTo(0.2625, 10)
+    // 0.5 * |0.3 - 0.5| + 0.5 * |0.85 - 0.5|
+    expect(c?.ece).toBeCloseTo(0.275, 10)
+    expect(c?.bins.map((b) => b.count)).toEqual([2, 2])
+    expect(c?.selective.map((s) => [s.n, s.threshold, s.accuracy])).toEqual([
+      [1, 0.9, 1],
+      [2, 0.8, 0.5],
+      [4, 0.2, 0.5],
+    ])
+    expect(c?.byLabel.REFUTES).toEqual({ n: 2, meanConfidence: 0.5, accuracy: 0 })
+  })
+
+  test("puts a confidence of 1 in the top bin", () => {
+    const c = computeCalibration([item("SUPPORTS", true, 1)], { bins: 4 })
+    expect(c?.bins.map((b) => b.count)).toEqual([0, 0, 0, 1])
+    expect(c?.ece).toBe(0)
+  })
+
+  test("returns undefined without confidences and rejects a bad bin count", () => {
+    expect(computeCalibration([item("SUPPORTS", true, undefined)])).toBeUndefined()
+    expect(() => computeCalibration(items, { bins: 0 })).toThrow("positive integer")
+  })
+})
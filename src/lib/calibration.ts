@@ -0,0 +1,394 @@
+import type { ModelEvalItem } from "./evaluate"
+import { DEFAULT_LABEL_SCHEMA, FEVER_LABELS, resolveLabel, type LabelSchema, type PredictedLabel } from "./labels"
+import type { RenderedPrompt } from "./prompts"
+
+/**
+ * How a confidence value is obtained for each answer.
+ * - `none`: no confidence is elicited (structured answers still carry one).
+ * - `verbal`: the model adds a `CONFIDENCE: <0-100>` line.
+ * - `distribution`: the model adds a `PROBABILITIES:` line with one probability per label.
+ * - `logprobs`: token log-probabilities of the label, where the provider exposes them.
+ */
+export type ConfidenceMethod = "none" | "verbal" | "distribution" | "logprobs"
+
+export const CONFIDENCE_METHODS = [
+  "none",
+  "verbal",
+  "distribution",
+  "logprobs",
+] as const satisfies readonly ConfidenceMethod[]
+
+/**
+ * Where an item's confidence came from. Structured answers report `verbal`;
+ * `vote` is the agreement rate of a multi-sample majority vote.
+ */
+export type ConfidenceSource = Exclude<ConfidenceMethod, "none"> | "vote"
+
+export type ItemConfidence = {
+  confidence?: number
+  confidenceSource?: ConfidenceSource
+  /** Per-label probabilities (`distribution` and `logprobs` only), normalized to sum to 1. */
+  labelProbs?: Partial<Record<string, number>>
+}
+
+export type TokenLogprob = {
+  token: string
+  logprob: number
+  topLogprobs: Array<{ token: string; logprob: number }>
+}
+
+export type CalibrationBin = {
+  lower: number
+  upper: number
+  count: number
+  meanConfidence: number
+  accuracy: number
+}
+
+export type SelectiveAccuracy = {
+  /** Fraction of confident items kept (most confident first). */
+  coverage: number
+  /** Lowest confidence among the kept items. */
+  threshold: number
+  n: number
+  accuracy: number
+}
+
+export type CalibrationSummary = {
+  /** Scored items with a confidence value. */
+  n: number
+  meanConfidence: number
+  accuracy: number
+  /** Expected calibration error over equal-width bins. */
+  ece: number
+  /** Brier score of the top-label confidence against correctness. */
+  brier: number
+  bins: CalibrationBin[]
+  selective: SelectiveAccuracy[]
+  /** Mean confidence and accuracy per predicted label. */
+  byLabel: Record<string, { n: number; meanConfidence: number; accuracy: number }>
+}
+
+export const DEFAULT_CALIBRATION_BINS = 10
+export const DEFAULT_COVERAGE_LEVELS = [0.25, 0.5, 0.75, 0.9, 1]
+export const LOGPROBS_TOP_K = 5
+
+const VERBAL_INSTRUCTION = [
+  "",
+  "After your answer, add one final line of the form:",
+  "CONFIDENCE: <0-100>",
+  "giving the probability (in percent) that your label is correct.",
+].join("\n")
+
+/**
+ * Builds the instruction asking for one probability per label.
+ * @param labels - Labels of the schema.
+ * @returns Instruction text.
+ */
+function distributionInstruction(labels: readonly string[]): string {
+  return [
+    "",
+    "After your answer, add one final line giving the probability of each label, summing to 1:",
+    `PROBABILITIES: ${labels.map((l) => `${l}=<p>`).join(", ")}`,
+  ].join("\n")
+}
+
+/**
+ * Appends the confidence elicitation instruction to the final user message.
+ * Few-shot answers are left untouched.
+ * @param rendered - The rendered prompt.
+ * @param method - Confidence method; only `verbal` and `distribution` change the prompt.
+ * @param labels - Labels listed by the `distribution` instruction (default FEVER).
+ * @returns The prompt to send.
+ */
+export function applyConfidenceInstruction(
+  rendered: RenderedPrompt,
+  method: ConfidenceMethod,
+  labels: readonly string[] = FEVER_LABELS,
+): RenderedPrompt {
+  if (method !== "verbal" && method !== "distribution") return rendered
+  const instruction = method === "verbal" ? VERBAL_INSTRUCTION : distributionInstruction(labels)
+  const messages = rendered.messages.slice()
+  const last = messages[messages.length - 1]
+  if (!last || last.role !== "user" || typeof last.content !== "string") {
+    throw new Error("Rendered prompt must end with a text user message")
+  }
+  messages[messages.length - 1] = { role: "user", content: `${last.content}\n${instruction}` }
+  return { ...rendered, messages }
+}
+
+/**
+ * Removes `CONFIDENCE:` and `PROBABILITIES:` lines so they don't interfere with
+ * label parsing (a probabilities line mentions every label).
+ * @param rawText - The raw model output.
+ * @returns The response without confidence lines.
+ */
+export function stripConfidenceLines(rawText: string): string {
+  return rawText
+    .split(/\r?\n/)
+    .filter((l) => !/^\s*(?:\*\*)?(?:confidence|probabilities)(?:\*\*)?\s*:/i.test(l))
+    .join("\n")
+    .trim()
+}
+
+/**
+ * Parses the last `CONFIDENCE:` line. Values above 1 are read as percentages.
+ * @param rawText - The raw model output.
+ * @returns Confidence in [0, 1], or undefined if missing or out of range.
+ */
+export function parseVerbalConfidence(rawText: string): number | undefined {
+  const matches = [...rawText.matchAll(/^\s*(?:\*\*)?confidence(?:\*\*)?\s*:\s*(?:\*\*)?\s*([\d.]+)\s*(%?)/gim)]
+  const m = matches[matches.length - 1]
+  if (!m) return undefined
+  const n = Number.parseFloat(m[1])
+  if (!Number.isFinite(n)) return undefined
+  const v = m[2] === "%" || n > 1 ? n / 100 : n
+  return v >= 0 && v <= 1 ? v : undefined
+}
+
+/**
+ * Normalizes per-label probabilities to sum to 1.
+ * @param probs - Unnormalized probabilities.
+ * @param labels - Labels of the schema.
+ * @returns Normalized probabilities, or undefined if they sum to 0.
+ */
+function normalizeProbs(
+  probs: Partial<Record<string, number>>,
+  labels: readonly string[],
+): Partial<Record<string, number>> | undefined {
+  let sum = 0
+  for (const l of labels) sum += probs[l] ?? 0
+  if (!(sum > 0)) return undefined
+  const out: Partial<Record<string, number>> = {}
+  for (const l of labels) out[l] = (probs[l] ?? 0) / sum
+  return out
+}
+
+/**
+ * Parses the last `PROBABILITIES:` line into a per-label distribution.
+ * Percentages are accepted and label aliases are resolved; the result is normalized.
+ * @param rawText - The raw model output.
+ * @param schema - The label schema (default `fever`).
+ * @returns Normalized label probabilities, or undefined if no usable line exists.
+ */
+export function parseLabelDistribution(
+  rawText: string,
+  schema: LabelSchema = DEFAULT_LABEL_SCHEMA,
+): Partial<Record<string, number>> | undefined {
+  const lines = rawText.split(/\r?\n/)
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const m = lines[i].match(/^\s*(?:\*\*)?probabilities(?:\*\*)?\s*:\s*(.+)$/i)
+    if (!m) continue
+    const probs: Partial<Record<string, number>> = {}
+    for (const part of m[1].split(/[,;]/)) {
+      const kv = part.match(/^\s*["'*]*\s*([A-Za-z_ -]+?)\s*["'*]*\s*[=:]\s*([\d.]+)\s*(%?)/)
+      if (!kv) continue
+      const label = resolveLabel(kv[1], schema)
+      const n = Number.parseFloat(kv[2])
+      if (!label || !Number.isFinite(n) || n < 0) continue
+      probs[label] = kv[3] === "%" ? n / 100 : n
+    }
+    return normalizeProbs(probs, schema.labels)
+  }
+  return undefined
+}
+
+/**
+ * Extracts token log-probabilities from a raw OpenAI-style chat completion body.
+ * @param body - Raw response body (`choices[0].logprobs.content`).
+ * @returns Token log-probabilities, or undefined if the body has none.
+ */
+export function extractTokenLogprobs(body: unknown): TokenLogprob[] | undefined {
+  const content = (body as { choices?: Array<{ logprobs?: { content?: unknown } }> } | undefined)
+    ?.choices?.[0]?.logprobs?.content
+  if (!Array.isArray(content) || content.length === 0) return undefined
+  const out: TokenLogprob[] = []
+  for (const t of content as Array<Record<string, unknown>>) {
+    if (typeof t?.token !== "string" || typeof t.logprob !== "number") return undefined
+    const top = Array.isArray(t.top_logprobs) ? (t.top_logprobs as Array<Record<string, unknown>>) : []
+    out.push({
+      token: t.token,
+      logprob: t.logprob,
+      topLogprobs: top
+        .filter((x) => typeof x?.token === "string" && typeof x.logprob === "number")
+        .map((x) => ({ token: x.token as string, logprob: x.logprob as number })),
+    })
+  }
+  return out
+}
+
+/**
+ * Derives label probabilities from the token where the predicted label starts.
+ * FEVER labels differ in their first letter, so the alternatives at that token
+ * decide between them; probabilities are normalized over the labels they cover.
+ * Labels of other schemas that share a first token can't be told apart this way.
+ * @param tokens - Token log-probabilities of the response.
+ * @param label - The parsed label.
+ * @param labels - Labels of the schema (default FEVER).
+ * @returns Label probabilities, or undefined if the label can't be located.
+ */
+export function labelProbsFromLogprobs(
+  tokens: TokenLogprob[],
+  label: string,
+  labels: readonly string[] = FEVER_LABELS,
+): Partial<Record<string, number>> | undefined {
+  const text = tokens.map((t) => t.token).join("")
+  const pos = text.toUpperCase().lastIndexOf(label.toUpperCase())
+  if (pos === -1) return undefined
+
+  let offset = 0
+  for (const t of tokens) {
+    const end = offset + t.token.length
+    if (pos < end) {
+      const prefix = t.token.slice(0, pos - offset)
+      const alternatives = t.topLogprobs.length > 0 ? t.topLogprobs : [{ token: t.token, logprob: t.logprob }]
+      const probs: Partial<Record<string, number>> = {}
+      for (const alt of alternatives) {
+        const rest = (alt.token.startsWith(prefix) ? alt.token.slice(prefix.length) : alt.token)
+          .replace(/^[\s"'`*_]+/, "")
+          .toUpperCase()
+        if (!rest) continue
+        const match = labels.find((l) => l.toUpperCase().startsWith(rest) || rest.startsWith(l.toUpperCase()))
+        if (match) probs[match] = (probs[match] ?? 0) + Math.exp(alt.logprob)
+      }
+      return normalizeProbs(probs, labels)
+    }
+    offset = end
+  }
+  return undefined
+}
+
+/**
+ * Determines an item's confidence from whatever the response carries.
+ * A structured answer's `confidence` field always wins.
+ * @param params - Confidence inputs.
+ * @param params.method - Requested confidence method.
+ * @param params.rawText - The raw model output.
+ * @param params.label - The parsed label.
+ * @param params.structuredConfidence - Confidence from a structured answer, if any.
+ * @param params.responseBody - Raw provider response body (for logprobs).
+ * @param params.labels - The label schema (default `fever`).
+ * @returns Confidence fields to store on the item.
+ */
+export function extractConfidence(params: {
+  method: ConfidenceMethod
+  rawText: string
+  label: PredictedLabel
+  structuredConfidence?: number
+  responseBody?: unknown
+  labels?: LabelSchema
+}): ItemConfidence {
+  const schema = params.labels ?? DEFAULT_LABEL_SCHEMA
+  if (params.structuredConfidence !== undefined) {
+    return { confidence: params.structuredConfidence, confidenceSource: "verbal" }
+  }
+  if (params.method === "verbal") {
+    const confidence = parseVerbalConfidence(params.rawText)
+    return confidence === undefined ? {} : { confidence, confidenceSource: "verbal" }
+  }
+  if (params.method === "distribution") {
+    const labelProbs = parseLabelDistribution(params.rawText, schema)
+    if (!labelProbs) return {}
+    const confidence = params.label === "INVALID" ? undefined : labelProbs[params.label]
+    return { confidence, confidenceSource: "distribution", labelProbs }
+  }
+  if (params.method === "logprobs" && params.label !== "INVALID") {
+    const tokens = extractTokenLogprobs(params.responseBody)
+    const labelProbs = tokens ? labelProbsFromLogprobs(tokens, params.label, schema.labels) : undefined
+    if (!labelProbs) return {}
+    return { confidence: labelProbs[params.label], confidenceSource: "logprobs", labelProbs }
+  }
+  return {}
+}
+
+/**
+ * Computes calibration metrics over scored items that carry a confidence.
+ * Transport failures are excluded; invalid answers with a confidence count as wrong.
+ * @param items - Evaluated items.
+ * @param opts - Number of bins, selective-accuracy coverage levels and the labels of `byLabel` (default FEVER).
+ * @returns Calibration summary, or undefined if no item has a confidence.
+ */
+export function computeCalibration(
+  items: Array<ModelEvalItem | undefined>,
+  opts: { bins?: number; coverage?: number[]; labels?: readonly string[] } = {},
+): CalibrationSummary | undefined {
+  const binCount = opts.bins ?? DEFAULT_CALIBRATION_BINS
+  if (!Number.isInteger(binCount) || binCount < 1) {
+    throw new Error("Calibration bin count must be a positive integer")
+  }
+  const sample = items.filter(
+    (i): i is ModelEvalItem & { confidence: number } =>
+      !!i && i.errorKind !== "transport" && typeof i.confidence === "number",
+  )
+  if (sample.length === 0) return undefined
+
+  const n = sample.length
+  let confSum = 0
+  let okCount = 0
+  let brier = 0
+  const bins: CalibrationBin[] = Array.from({ length: binCount }, (_, b) => ({
+    lower: b / binCount,
+    upper: (b + 1) / binCount,
+    count: 0,
+    meanConfidence: 0,
+    accuracy: 0,
+  }))
+  const labels = opts.labels ?? FEVER_LABELS
+  const byLabel: CalibrationSummary["byLabel"] = {}
+  for (const l of labels) byLabel[l] = { n: 0, meanConfidence: 0, accuracy: 0 }
+
+  for (const i of sample) {
+    const y = i.ok ? 1 : 0
+    confSum += i.confidence
+    okCount += y
+    brier += (i.confidence - y) ** 2
+    const bin = bins[Math.min(binCount - 1, Math.floor(i.confidence * binCount))]
+    bin.count++
+    bin.meanConfidence += i.confidence
+    bin.accuracy += y
+    const l = byLabel[i.predictedLabel]
+    if (l) {
+      l.n++
+      l.meanConfidence += i.confidence
+      l.accuracy += y
+    }
+  }
+
+  let ece = 0
+  for (const b of bins) {
+    if (b.count === 0) continue
+    b.meanConfidence /= b.count
+    b.accuracy /= b.count
+    ece += (b.count / n) * Math.abs(b.meanConfidence - b.accuracy)
+  }
+  for (const l of labels) {
+    const x = byLabel[l]
+    if (x.n === 0) continue
+    x.meanConfidence /= x.n
+    x.accuracy /= x.n
+  }
+
+  // Most confident first; ties keep item order so results are deterministic
+  const ranked = sample
+    .map((i, idx) => ({ i, idx }))
+    .sort((a, b) => b.i.confidence - a.i.confidence || a.idx - b.idx)
+  const selective: SelectiveAccuracy[] = []
+  for (const coverage of opts.coverage ?? DEFAULT_COVERAGE_LEVELS) {
+    const k = Math.max(1, Math.ceil(coverage * n))
+    const kept = ranked.slice(0, k)
+    let ok = 0
+    for (const x of kept) if (x.i.ok) ok++
+    selective.push({ coverage, threshold: kept[kept.length - 1].i.confidence, n: k, accuracy: ok / k })
+  }
+
+  return {
+    n,
+    meanConfidence: confSum / n,
+    accuracy: okCount / n,
+    ece,
+    brier: brier / n,
+    bins,
+    selective,
+    byLabel,
+  }
+}
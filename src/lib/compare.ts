@@ -0,0 +1,215 @@
+import { isTransportFailure, summarizeItems, type ModelEvalItem } from "./evaluate"
+import { FEVER_LABELS, createConfusionMatrix, type ConfusionMatrix, type PredictedLabel } from "./labels"
+import { safeSlug } from "./report"
+import type { SavedRun } from "./runs"
+import { mcnemarTest } from "./stats"
+
+export type FlippedExample = {
+  datasetId: number | string
+  exampleHash?: string
+  claim: string
+  goldLabel: string
+  before: PredictedLabel
+  after: PredictedLabel
+}
+
+/**
+ * One model compared between a base run and a later run, on the examples both
+ * runs scored (joined on `datasetId`, with matching `exampleHash` when recorded).
+ */
+export type ModelRunDiff = {
+  modelId: string
+  baseRunId: string
+  runId: string
+  /** Examples scored in both runs with the same content. */
+  shared: number
+  /** Same `datasetId` but a different `exampleHash`: the example changed. */
+  changedExamples: number
+  onlyInBase: number
+  onlyInRun: number
+  accuracyBefore: number
+  accuracyAfter: number
+  /** accuracyAfter - accuracyBefore */
+  delta: number
+  macroF1Before: number
+  macroF1After: number
+  invalidRateBefore: number
+  invalidRateAfter: number
+  /** McNemar p-value of the flips. */
+  mcnemarP: number
+  /** Correct in the base run, incorrect now. */
+  regressions: FlippedExample[]
+  /** Incorrect in the base run, correct now. */
+  improvements: FlippedExample[]
+  /** Examples whose predicted label changed (including wrong-to-wrong). */
+  labelChanges: number
+  /** After minus before, on shared examples. */
+  confusionDelta: ConfusionMatrix
+}
+
+export type RunComparison = {
+  generatedAtIso: string
+  baseRunId: string
+  runIds: string[]
+  diffs: ModelRunDiff[]
+  /** Models of the base run that a later run doesn't have (and vice versa). */
+  unmatchedModels: Array<{ runId: string; modelId: string }>
+}
+
+/**
+ * Subtracts two confusion matrices.
+ * @param after - Later matrix.
+ * @param before - Earlier matrix.
+ * @returns after - before, cell by cell.
+ */
+function confusionDelta(after: ConfusionMatrix, before: ConfusionMatrix): ConfusionMatrix {
+  const out = createConfusionMatrix(after.labels)
+  for (const g of out.labels) {
+    for (const p of out.labels) out.counts[g][p] = after.counts[g][p] - before.counts[g][p]
+    out.invalidByGold[g] = after.invalidByGold[g] - before.invalidByGold[g]
+  }
+  out.invalid = after.invalid - before.invalid
+  return out
+}
+
+/**
+ * Compares one model's items between two runs.
+ * @param modelId - The model ID.
+ * @param baseRunId - ID of the base run.
+ * @param runId - ID of the later run.
+ * @param before - Items from the base run.
+ * @param after - Items from the later run.
+ * @param labels - Labels of the runs' label schema (default FEVER).
+ * @returns The model diff.
+ */
+export function diffModelItems(
+  modelId: string,
+  baseRunId: string,
+  runId: string,
+  before: ModelEvalItem[],
+  after: ModelEvalItem[],
+  labels: readonly string[] = FEVER_LABELS,
+): ModelRunDiff {
+  const scored = (items: ModelEvalItem[]) =>
+    new Map(items.filter((i) => i && !isTransportFailure(i)).map((i) => [String(i.datasetId), i]))
+  const a = scored(before)
+  const b = scored(after)
+
+  const pairs: Array<[ModelEvalItem, ModelEvalItem]> = []
+  let changedExamples = 0
+  let onlyInBase = 0
+  for (const [id, x] of a) {
+    const y = b.get(id)
+    if (!y) {
+      onlyInBase++
+      continue
+    }
+    if (x.exampleHash && y.exampleHash && x.exampleHash !== y.exampleHash) {
+      changedExamples++
+      continue
+    }
+    pairs.push([x, y])
+  }
+  let onlyInRun = 0
+  for (const id of b.keys()) if (!a.has(id)) onlyInRun++
+
+  const regressions: FlippedExample[] = []
+  const improvements: FlippedExample[] = []
+  let labelChanges = 0
+  for (const [x, y] of pairs) {
+    if (x.predictedLabel !== y.predictedLabel) labelChanges++
+    if (x.ok === y.ok) continue
+    const flip: FlippedExample = {
+      datasetId: x.datasetId,
+      exampleHash: y.exampleHash ?? x.exampleHash,
+      claim: x.claim,
+      goldLabel: x.goldLabel,
+      before: x.predictedLabel,
+      after: y.predictedLabel,
+    }
+    if (x.ok) regressions.push(flip)
+    else improvements.push(flip)
+  }
+
+  const sb = summarizeItems(modelId, pairs.map(([x]) => x), labels)
+  const sa = summarizeItems(modelId, pairs.map(([, y]) => y), labels)
+  return {
+    modelId,
+    baseRunId,
+    runId,
+    shared: pairs.length,
+    changedExamples,
+    onlyInBase,
+    onlyInRun,
+    accuracyBefore: sb.accuracy,
+    accuracyAfter: sa.accuracy,
+    delta: sa.accuracy - sb.accuracy,
+    macroF1Before: sb.metrics.macroF1,
+    macroF1After: sa.metrics.macroF1,
+    invalidRateBefore: sb.invalidRate,
+    invalidRateAfter: sa.invalidRate,
+    mcnemarP: mcnemarTest(improvements.length, regressions.length),
+    regressions,
+    improvements,
+    labelChanges,
+    confusionDelta: confusionDelta(sa.confusion, sb.confusion),
+  }
+}
+
+/**
+ * Finds a model's items in a run. Runs saved without a manifest only know the
+ * filesystem slug of each model ID, so slugs are matched as a fallback.
+ * @param run - The saved run.
+ * @param modelId - The model ID to look up.
+ * @returns The run's items for the model, if present.
+ */
+function findModelItems(run: SavedRun, modelId: string): ModelEvalItem[] | undefined {
+  if (run.items[modelId]) return run.items[modelId]
+  const slug = safeSlug(modelId)
+  const key = run.models.find((m) => safeSlug(m) === slug)
+  return key === undefined ? undefined : run.items[key]
+}
+
+/**
+ * Compares every later run against the first (base) run, model by model.
+ * @param runs - Two or more saved runs; the first is the base.
+ * @param opts - Optional model filter.
+ * @returns The comparison.
+ * @throws Error if fewer than two runs are given or their label schemas differ.
+ */
+export function compareRuns(runs: SavedRun[], opts: { models?: string[] } = {}): RunComparison {
+  if (!Array.isArray(runs) || runs.length < 2) {
+    throw new Error("At least two runs are needed for a comparison")
+  }
+  const [base, ...rest] = runs
+  for (const run of rest) {
+    if (run.labels.labels.join("\n") !== base.labels.labels.join("\n")) {
+      throw new Error(
+        `Run ${run.runId} uses the ${run.labels.name} labels, base run ${base.runId} the ${base.labels.name} labels`,
+      )
+    }
+  }
+  const wanted = (m: string) => !opts.models || opts.models.includes(m)
+  const diffs: ModelRunDiff[] = []
+  const unmatchedModels: RunComparison["unmatchedModels"] = []
+  for (const run of rest) {
+    for (const modelId of base.models.filter(wanted)) {
+      const items = findModelItems(run, modelId)
+      if (!items) {
+        unmatchedModels.push({ runId: run.runId, modelId })
+        continue
+      }
+      diffs.push(diffModelItems(modelId, base.runId, run.runId, base.items[modelId], items, base.labels.labels))
+    }
+    for (const modelId of run.models.filter(wanted)) {
+      if (!findModelItems(base, modelId)) unmatchedModels.push({ runId: base.runId, modelId })
+    }
+  }
+  return {
+    generatedAtIso: new Date().toISOString(),
+    baseRunId: base.runId,
+    runIds: rest.map((r) => r.runId),
+    diffs,
+    unmatchedModels,
+  }
+}
@@ -0,0 +1,520 @@
+import { access } from "node:fs/promises"
+import path from "node:path"
+import { CONFIDENCE_METHODS, type ConfidenceMethod } from "./calibration"
+import { DATASET_FIELDS, DATASET_FORMATS, type DatasetFields, type DatasetFormat } from "./dataset"
+import { EVAL_MODES, type EvalMode, type GenerationSettings } from "./evaluate"
+import type { QualityThresholds } from "./gates"
+import { LABEL_SCHEMAS, isDefaultLabelSchema, validateLabelSchema, withLabelAliases, type LabelSchema } from "./labels"
+import { splitModelId } from "./providers"
+import type { BenchmarkOptions, ModelOptions, ResolvedBenchmarkOptions } from "./runner"
+import { SAMPLE_STRATEGIES, STRATIFY_KEYS, parseShard, type SampleStrategy, type StratifyKey } from "./sampling"
+import { OUTPUT_FORMATS, type OutputFormat } from "./structured"
+
+export type ModelProviderName = "openrouter" | "local" | "mock"
+
+export const MODEL_PROVIDER_NAMES = ["openrouter", "local", "mock"] as const satisfies readonly ModelProviderName[]
+
+/**
+ * A model entry of the config file. `provider` prefixes the ID (`local:`,
+ * `mock:`) unless it already carries that prefix.
+ */
+export type ModelConfig = {
+  id: string
+  provider?: ModelProviderName
+  /** Name shown in the live UI and reports instead of the ID. */
+  alias?: string
+  temperature?: number
+  /** Maximum completion tokens. */
+  maxTokens?: number
+  /** Sampling seed, for providers that support one. */
+  seed?: number
+  /** Stop sequences. */
+  stop?: string[]
+}
+
+export type DatasetConfig = {
+  /** Dataset file, relative to the working directory. */
+  file: string
+  /** File format; inferred from the extension when omitted. */
+  format?: DatasetFormat
+  /** Source field of each example field, e.g. `{ "claim": "statement" }`. */
+  fields?: DatasetFields
+  /** CSV/TSV: whether the first row names the columns (default true). */
+  header?: boolean
+  /** Built-in label schema name or an inline schema (default `fever`). */
+  labels?: string | LabelSchema
+  /** Extra spellings of labels, e.g. `{ "pants on fire!": "pants-fire" }`. */
+  labelAliases?: Record<string, string>
+  /** Examples evaluated per model. */
+  limit?: number
+  /** Skip invalid rows instead of failing. */
+  lenient?: boolean
+}
+
+/**
+ * Contents of `factbench.config.json` / `factbench.config.ts`. Every field is
+ * optional; command-line flags override the file.
+ */
+export type FactbenchConfig = {
+  $schema?: string
+  /** Named datasets; `--dataset <name>` picks one (default: `dataset`, else the first). */
+  datasets?: Record<string, DatasetConfig>
+  dataset?: string
+  models?: Array<string | ModelConfig>
+  prompt?: {
+    /** Built-in template name or template file. */
+    template?: string
+    shots?: number
+    pool?: string
+    seed?: number
+  }
+  /** How examples are picked from the dataset. */
+  sample?: {
+    strategy?: SampleStrategy
+    seed?: number
+    stratifyBy?: StratifyKey[]
+    /** Rows skipped before sampling. */
+    offset?: number
+    /** Shard of the sample to evaluate, e.g. `2/4`. */
+    shard?: string
+  }
+  mode?: EvalMode
+  /** Sampling settings for every model; model entries override them. */
+  generation?: GenerationSettings
+  /** Samples per claim, combined by majority vote. */
+  samples?: number
+  output?: OutputFormat
+  confidence?: ConfidenceMethod
+  concurrency?: number
+  parallelModels?: number
+  maxConcurrency?: number
+  retries?: number
+  timeoutMs?: number
+  requestsPerMinute?: number
+  localBaseURL?: string
+  budget?: { maxCostUsd?: number; maxTokens?: number }
+  thresholds?: QualityThresholds
+  /** Directory holding the run outputs (default `runs`). */
+  runsDir?: string
+  /** Directory holding the response cache (default `.cache`). */
+  cacheDir?: string
+}
+
+export const CONFIG_FILE_NAMES = ["factbench.config.ts", "factbench.config.json"] as const
+
+/**
+ * Identity helper that types a `factbench.config.ts` default export.
+ * @param config - The config.
+ * @returns The same config.
+ */
+export function defineConfig(config: FactbenchConfig): FactbenchConfig {
+  return config
+}
+
+/**
+ * Finds the config file in a directory.
+ * @param dir - Directory to look in (defaults to the working directory).
+ * @returns Path of the first of `CONFIG_FILE_NAMES` that exists, or undefined.
+ */
+export async function findConfigFile(dir: string = process.cwd()): Promise<string | undefined> {
+  for (const name of CONFIG_FILE_NAMES) {
+    const p = path.join(dir, name)
+    try {
+      await access(p)
+      return p
+    } catch {
+      // Not there; try the next name
+    }
+  }
+  return undefined
+}
+
+/**
+ * Loads and validates a config file. `.ts`/`.js` files are imported and must
+ * default-export the config; anything else is read as JSON.
+ * @param p - Path to the config file.
+ * @returns The validated config.
+ * @throws Error if the file is missing, unparseable or invalid.
+ */
+export async function loadConfigFile(p: string): Promise<FactbenchConfig> {
+  const file = Bun.file(p)
+  if (!(await file.exists())) {
+    throw new Error(`Config file not found: ${p}`)
+  }
+  let raw: unknown
+  if (/\.[cm]?[jt]s$/.test(p)) {
+    const mod = (await import(path.resolve(p))) as { default?: unknown }
+    raw = mod.default
+  } else {
+    try {
+      raw = JSON.parse(await file.text())
+    } catch (err) {
+      throw new Error(`${p}: invalid JSON (${err instanceof Error ? err.message : String(err)})`)
+    }
+  }
+  return validateConfig(raw, p)
+}
+
+type NumberRule = { integer?: boolean; min?: number; max?: number; positive?: boolean }
+
+/**
+ * Field checks that report the source file and the path of the bad value.
+ * @param source - Name of the config source for messages.
+ * @returns Checkers.
+ */
+function checkers(source: string) {
+  const fail = (at: string, msg: string): never => {
+    throw new Error(`${source}: ${at || "config"} ${msg}`)
+  }
+  const object = (v: unknown, at: string, keys?: readonly string[]): Record<string, unknown> => {
+    if (!v || typeof v !== "object" || Array.isArray(v)) fail(at, "must be an object")
+    const obj = v as Record<string, unknown>
+    for (const k of Object.keys(obj)) {
+      if (keys && !keys.includes(k)) fail(at ? `${at}.${k}` : k, `is not a known option (expected one of: ${keys.join(", ")})`)
+    }
+    return obj
+  }
+  const string = (v: unknown, at: string) => {
+    if (v !== undefined && (typeof v !== "string" || !v.trim())) fail(at, "must be a non-empty string")
+  }
+  const number = (v: unknown, at: string, rule: NumberRule = {}) => {
+    if (v === undefined) return
+    if (typeof v !== "number" || !Number.isFinite(v)) fail(at, "must be a number")
+    const n = v as number
+    if (rule.integer && !Number.isInteger(n)) fail(at, "must be an integer")
+    if (rule.positive && !(n > 0)) fail(at, "must be greater than 0")
+    if (rule.min !== undefined && n < rule.min) fail(at, `must be at least ${rule.min}`)
+    if (rule.max !== undefined && n > rule.max) fail(at, `must be at most ${rule.max}`)
+  }
+  const oneOf = (v: unknown, at: string, values: readonly string[]) => {
+    if (v !== undefined && !values.includes(v as string)) fail(at, `must be one of: ${values.join(", ")}`)
+  }
+  const strings = (v: unknown, at: string) => {
+    if (v === undefined) return
+    if (!Array.isArray(v) || v.length === 0) fail(at, "must be a non-empty array")
+    ;(v as unknown[]).forEach((x, i) => {
+      if (typeof x !== "string" || x === "") fail(`${at}[${i}]`, "must be a non-empty string")
+    })
+  }
+  const boolean = (v: unknown, at: string) => {
+    if (v !== undefined && typeof v !== "boolean") fail(at, "must be true or false")
+  }
+  return { fail, object, string, number, oneOf, strings, boolean }
+}
+
+const GENERATION_KEYS = ["temperature", "maxTokens", "seed", "stop"] as const
+
+/**
+ * Validates sampling settings shared by `generation` and model entries.
+ * @param c - Checkers.
+ * @param g - The object holding the settings.
+ * @param at - Path of the object.
+ */
+function checkGeneration(c: ReturnType<typeof checkers>, g: Record<string, unknown>, at: string): void {
+  const path = (k: string) => (at ? `${at}.${k}` : k)
+  c.number(g.temperature, path("temperature"), { min: 0, max: 2 })
+  c.number(g.maxTokens, path("maxTokens"), { integer: true, min: 1 })
+  c.number(g.seed, path("seed"), { integer: true })
+  c.strings(g.stop, path("stop"))
+}
+
+const CONFIG_KEYS = [
+  "$schema",
+  "datasets",
+  "dataset",
+  "models",
+  "prompt",
+  "sample",
+  "mode",
+  "generation",
+  "samples",
+  "output",
+  "confidence",
+  "concurrency",
+  "parallelModels",
+  "maxConcurrency",
+  "retries",
+  "timeoutMs",
+  "requestsPerMinute",
+  "localBaseURL",
+  "budget",
+  "thresholds",
+  "runsDir",
+  "cacheDir",
+] as const
+
+/**
+ * Validates a parsed config.
+ * @param raw - Parsed file contents.
+ * @param source - Name of the config source for messages (e.g. its path).
+ * @returns The config, typed.
+ * @throws Error naming the first invalid field.
+ */
+export function validateConfig(raw: unknown, source: string = "config"): FactbenchConfig {
+  const c = checkers(source)
+  const cfg = c.object(raw, "", CONFIG_KEYS)
+
+  if (cfg.datasets !== undefined) {
+    const datasets = c.object(cfg.datasets, "datasets")
+    if (Object.keys(datasets).length === 0) c.fail("datasets", "must declare at least one dataset")
+    for (const [name, ds] of Object.entries(datasets)) {
+      const at = `datasets.${name}`
+      const d = c.object(ds, at, ["file", "format", "fields", "header", "labels", "labelAliases", "limit", "lenient"])
+      if (d.file === undefined) c.fail(`${at}.file`, "is required")
+      c.string(d.file, `${at}.file`)
+      c.oneOf(d.format, `${at}.format`, DATASET_FORMATS)
+      if (d.fields !== undefined) {
+        const f = c.object(d.fields, `${at}.fields`, DATASET_FIELDS)
+        for (const k of Object.keys(f)) c.string(f[k], `${at}.fields.${k}`)
+      }
+      c.boolean(d.header, `${at}.header`)
+      if (typeof d.labels === "string") {
+        c.oneOf(d.labels, `${at}.labels`, Object.keys(LABEL_SCHEMAS))
+      } else if (d.labels !== undefined) {
+        try {
+          validateLabelSchema(d.labels, `${at}.labels`)
+        } catch (err) {
+          c.fail(`${at}.labels`, `is invalid (${err instanceof Error ? err.message : String(err)})`)
+        }
+      }
+      if (d.labelAliases !== undefined) {
+        const a = c.object(d.labelAliases, `${at}.labelAliases`)
+        for (const k of Object.keys(a)) c.string(a[k], `${at}.labelAliases.${k}`)
+        try {
+          withLabelAliases(configLabels(d as DatasetConfig), a as Record<string, string>)
+        } catch (err) {
+          c.fail(`${at}.labelAliases`, `is invalid (${err instanceof Error ? err.message : String(err)})`)
+        }
+      }
+      c.number(d.limit, `datasets.${name}.limit`, { integer: true, min: 1 })
+      c.boolean(d.lenient, `datasets.${name}.lenient`)
+    }
+  }
+  c.string(cfg.dataset, "dataset")
+  if (cfg.dataset !== undefined && !Object.hasOwn((cfg.datasets as object | undefined) ?? {}, cfg.dataset as string)) {
+    c.fail("dataset", `names an undeclared dataset "${cfg.dataset}"`)
+  }
+
+  if (cfg.models !== undefined) {
+    if (!Array.isArray(cfg.models) || cfg.models.length === 0) c.fail("models", "must be a non-empty array")
+    const seen = new Set<string>()
+    ;(cfg.models as unknown[]).forEach((m, i) => {
+      const at = `models[${i}]`
+      if (typeof m === "string") {
+        c.string(m, at)
+      } else {
+        const mc = c.object(m, at, ["id", "provider", "alias", ...GENERATION_KEYS])
+        if (mc.id === undefined) c.fail(`${at}.id`, "is required")
+        c.string(mc.id, `${at}.id`)
+        c.oneOf(mc.provider, `${at}.provider`, MODEL_PROVIDER_NAMES)
+        c.string(mc.alias, `${at}.alias`)
+        checkGeneration(c, mc, at)
+      }
+      const id = resolveConfigModelId(m as string | ModelConfig)
+      if (seen.has(id)) c.fail(at, `duplicates model "${id}"`)
+      seen.add(id)
+    })
+  }
+
+  if (cfg.prompt !== undefined) {
+    const p = c.object(cfg.prompt, "prompt", ["template", "shots", "pool", "seed"])
+    c.string(p.template, "prompt.template")
+    c.number(p.shots, "prompt.shots", { integer: true, min: 1 })
+    c.string(p.pool, "prompt.pool")
+    c.number(p.seed, "prompt.seed", { integer: true })
+  }
+  if (cfg.sample !== undefined) {
+    const s = c.object(cfg.sample, "sample", ["strategy", "seed", "stratifyBy", "offset", "shard"])
+    c.oneOf(s.strategy, "sample.strategy", SAMPLE_STRATEGIES)
+    c.number(s.seed, "sample.seed", { integer: true })
+    c.strings(s.stratifyBy, "sample.stratifyBy")
+    ;((s.stratifyBy as unknown[] | undefined) ?? []).forEach((k, i) =>
+      c.oneOf(k, `sample.stratifyBy[${i}]`, STRATIFY_KEYS),
+    )
+    c.number(s.offset, "sample.offset", { integer: true, min: 0 })
+    c.string(s.shard, "sample.shard")
+    if (s.shard !== undefined) {
+      try {
+        parseShard(s.shard as string)
+      } catch (err) {
+        c.fail("sample.shard", `is invalid (${err instanceof Error ? err.message : String(err)})`)
+      }
+    }
+  }
+  c.oneOf(cfg.mode, "mode", EVAL_MODES)
+  if (cfg.generation !== undefined) {
+    checkGeneration(c, c.object(cfg.generation, "generation", GENERATION_KEYS), "generation")
+  }
+  c.number(cfg.samples, "samples", { integer: true, min: 1 })
+  c.oneOf(cfg.output, "output", OUTPUT_FORMATS)
+  c.oneOf(cfg.confidence, "confidence", CONFIDENCE_METHODS)
+  c.number(cfg.concurrency, "concurrency", { integer: true, min: 1 })
+  c.number(cfg.parallelModels, "parallelModels", { integer: true, min: 1 })
+  c.number(cfg.maxConcurrency, "maxConcurrency", { integer: true, min: 1 })
+  c.number(cfg.retries, "retries", { integer: true, min: 0 })
+  c.number(cfg.timeoutMs, "timeoutMs", { integer: true, min: 0 })
+  c.number(cfg.requestsPerMinute, "requestsPerMinute", { positive: true })
+  c.string(cfg.localBaseURL, "localBaseURL")
+  if (cfg.budget !== undefined) {
+    const b = c.object(cfg.budget, "budget", ["maxCostUsd", "maxTokens"])
+    c.number(b.maxCostUsd, "budget.maxCostUsd", { positive: true })
+    c.number(b.maxTokens, "budget.maxTokens", { integer: true, min: 1 })
+  }
+  if (cfg.thresholds !== undefined) {
+    const t = c.object(cfg.thresholds, "thresholds", ["minAccuracy", "maxInvalidRate"])
+    c.number(t.minAccuracy, "thresholds.minAccuracy", { min: 0, max: 1 })
+    c.number(t.maxInvalidRate, "thresholds.maxInvalidRate", { min: 0, max: 1 })
+  }
+  c.string(cfg.runsDir, "runsDir")
+  c.string(cfg.cacheDir, "cacheDir")
+  return cfg as FactbenchConfig
+}
+
+/**
+ * Resolves the label schema of a dataset entry, aliases included.
+ * @param ds - The dataset entry.
+ * @returns The label schema (FEVER when the entry names none).
+ */
+function configLabels(ds: DatasetConfig): LabelSchema {
+  const schema = typeof ds.labels === "string" ? LABEL_SCHEMAS[ds.labels] : (ds.labels ?? LABEL_SCHEMAS.fever)
+  return withLabelAliases(schema, ds.labelAliases ?? {})
+}
+
+/**
+ * Resolves the model ID of a config entry, adding the provider prefix.
+ * @param entry - Model ID or model entry.
+ * @returns The (possibly prefixed) model ID.
+ */
+export function resolveConfigModelId(entry: string | ModelConfig): string {
+  if (typeof entry === "string") return entry
+  const { id, provider } = entry
+  if (!provider || provider === "openrouter" || splitModelId(id).provider === provider) return id
+  return `${provider}:${id}`
+}
+
+/**
+ * Converts a config into run options. Fields the config leaves out are left
+ * undefined so command-line flags and defaults can fill them.
+ * @param config - The validated config.
+ * @param dataset - Dataset name to use (defaults to `config.dataset`, else the first declared).
+ * @returns Partial run options.
+ * @throws Error if `dataset` names an undeclared dataset.
+ */
+export function configToOptions(config: FactbenchConfig, dataset?: string): Partial<BenchmarkOptions> {
+  const names = Object.keys(config.datasets ?? {})
+  if (dataset !== undefined && !config.datasets?.[dataset]) {
+    throw new Error(
+      `Unknown dataset "${dataset}"${names.length ? ` (the config declares: ${names.join(", ")})` : " (the config declares none)"}`,
+    )
+  }
+  const ds = config.datasets?.[dataset ?? config.dataset ?? names[0]]
+
+  const modelOptions: Record<string, ModelOptions> = {}
+  for (const m of config.models ?? []) {
+    if (typeof m === "string") continue
+    const { id: _id, provider: _provider, ...settings } = m
+    if (Object.keys(settings).length > 0) modelOptions[resolveConfigModelId(m)] = settings
+  }
+
+  const p = config.prompt
+  const s = config.sample
+  const labels = ds && (ds.labels !== undefined || ds.labelAliases !== undefined) ? configLabels(ds) : undefined
+  return {
+    filePath: ds?.file,
+    format: ds?.format,
+    fields: ds?.fields,
+    header: ds?.header,
+    labels,
+    limit: ds?.limit,
+    lenient: ds?.lenient,
+    sampling: s
+      ? {
+          strategy: s.strategy ?? "first",
+          seed: s.seed,
+          stratifyBy: s.stratifyBy,
+          offset: s.offset,
+          shard: s.shard !== undefined ? parseShard(s.shard) : undefined,
+        }
+      : undefined,
+    models: config.models?.map(resolveConfigModelId),
+    modelOptions: Object.keys(modelOptions).length > 0 ? modelOptions : undefined,
+    concurrency: config.concurrency,
+    parallelModels: config.parallelModels,
+    maxConcurrency: config.maxConcurrency,
+    mode: config.mode,
+    generation: config.generation,
+    samples: config.samples,
+    prompt: p?.template,
+    fewShot: p && (p.shots ?? p.pool ?? p.seed) !== undefined ? { k: p.shots, pool: p.pool, seed: p.seed } : undefined,
+    output: config.output,
+    confidence: config.confidence,
+    localBaseURL: config.localBaseURL,
+    retries: config.retries,
+    timeoutMs: config.timeoutMs,
+    requestsPerMinute: config.requestsPerMinute,
+    maxCostUsd: config.budget?.maxCostUsd,
+    maxTokens: config.budget?.maxTokens,
+    thresholds: config.thresholds,
+    runsDir: config.runsDir,
+    cacheDir: config.cacheDir,
+  }
+}
+
+/**
+ * Converts resolved run options back into a config, e.g. to store next to a
+ * run so it can be reproduced with `--config runs/<runId>/config.json`.
+ * @param options - Resolved run options.
+ * @returns A config with every setting spelled out.
+ */
+export function optionsToConfig(options: ResolvedBenchmarkOptions): FactbenchConfig {
+  const fewShot = options.fewShot
+  return {
+    datasets: {
+      default: {
+        file: options.filePath,
+        format: options.format,
+        fields: options.fields,
+        header: options.header,
+        labels: options.labels && !isDefaultLabelSchema(options.labels) ? options.labels : undefined,
+        limit: options.limit,
+        lenient: options.lenient,
+      },
+    },
+    models: options.models.map((id) => {
+      const settings = options.modelOptions?.[id]
+      return settings ? { id, ...settings } : id
+    }),
+    prompt: {
+      template: options.prompt,
+      shots: fewShot?.k,
+      pool: fewShot?.pool,
+      seed: fewShot?.seed,
+    },
+    sample: options.sampling && {
+      strategy: options.sampling.strategy,
+      seed: options.sampling.seed,
+      stratifyBy: options.sampling.stratifyBy,
+      offset: options.sampling.offset,
+      shard: options.sampling.shard && `${options.sampling.shard.index}/${options.sampling.shard.count}`,
+    },
+    mode: options.mode,
+    generation: options.generation,
+    samples: options.samples,
+    output: options.output,
+    confidence: options.confidence,
+    concurrency: options.concurrency,
+    parallelModels: options.parallelModels,
+    maxConcurrency: options.maxConcurrency,
+    retries: options.retries,
+    timeoutMs: options.timeoutMs,
+    requestsPerMinute: options.requestsPerMinute,
+    localBaseURL: options.localBaseURL,
+    budget:
+      options.maxCostUsd !== undefined || options.maxTokens !== undefined
+        ? { maxCostUsd: options.maxCostUsd, maxTokens: options.maxTokens }
+        : undefined,
+    thresholds: options.thresholds,
+    runsDir: options.runsDir,
+    cacheDir: options.cacheDir,
+  }
+}
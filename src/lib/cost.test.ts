@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test"
+import { createBudget, formatUsd, lookupPricing, priceUsage, sumTokenUsage, summarizeCost } from "./cost"
+import type { ModelEvalItem } from "./evaluate"
+
+const PRICING = { promptPerMTok: 2, completionPerMTok: 10 }
+
+/**
+ * Builds an item with token usage.
+ * @param ok - Whether the answer was right.
+ * @param usage - Token usage.
+ * @param extra - Fields to override.
+ * @returns The item.
+ */
+function item(ok: boolean, usage: ModelEvalItem["usage"], extra: Partial<ModelEvalItem> = {}): ModelEvalItem {
+  return {
+    datasetId: 1,
+    claim: "Claim.",
+    goldLabel: "SUPPORTS",
+    predictedLabel: ok ? "SUPPORTS" : "REFUTES",
+    rawText: "",
+    ok,
+    latencyMs: 1,
+    usage,
+    ...extra,
+  }
+}
+
+describe("lookupPricing", () => {
+  test("uses the table and treats mock, local and :free models as free", () => {
+    expect(lookupPricing("openai/x", { "openai/x": PRICING })).toBe(PRICING)
+    expect(lookupPricing("mock:supports", {})).toEqual({ promptPerMTok: 0, completionPerMTok: 0 })
+    expect(lookupPricing("local:llama3", {})).toEqual({ promptPerMTok: 0, completionPerMTok: 0 })
+    expect(lookupPricing("meta-llama/llama-3-8b:free", {})).toEqual({ promptPerMTok: 0, completionPerMTok: 0 })
+    expect(lookupPricing("unknown/model", {})).toBeUndefined()
+  })
+})
+
+describe("sumTokenUsage", () => {
+  test("sums usage and falls back to prompt plus completion for the total", () => {
+    expect(
+      sumTokenUsage([
+        item(true, { promptTokens: 100, completionTokens: 10 }),
+        item(true, { totalTokens: 50 }),
+        item(true, undefined),
+        undefined,
+      ]),
+    ).toEqual({ promptTokens: 100, completionTokens: 10, totalTokens: 160, itemsWithUsage: 2 })
+  })
+})
+
+describe("summarizeCost", () => {
+  test("prices fresh and cached items separately and leaves cached transport failures out", () => {
+    const usage = { promptTokens: 1_000_000, completionTokens: 100_000 }
+    const summary = summarizeCost(
+      "openai/x",
+      [
+        item(true, usage),
+        item(false, usage),
+        item(true, usage, { cached: true }),
+        item(false, usage, { cached: true, errorKind: "transport", error: "timeout" }),
+      ],
+      PRICING,
+    )
+    expect(priceUsage(usage, PRICING)).toBe(3)
+    expect(summary.spent.costUsd).toBe(6)
+    expect(summary.cached).toMatchObject({ items: 1, costUsd: 3 })
+    expect(summary.costPerCorrectUsd).toBe(4.5)
+  })
+
+  test("leaves costs unset without pricing", () => {
+    const summary = summarizeCost("unknown/model", [item(true, { promptTokens: 5 })], undefined)
+    expect(summary.spent.costUsd).toBeUndefined()
+    expect(summary.costPerCorrectUsd).toBeUndefined()
+  })
+})
+
+describe("formatUsd", () => {
+  test("rounds to cents from a dollar and keeps four significant digits below", () => {
+    expect(formatUsd(undefined)).toBe("n/a")
+    expect(formatUsd(0)).toBe("$0")
+    expect(formatUsd(12.345)).toBe("$12.35")
+    expect(formatUsd(0.00123456)).toBe("$0.001235")
+  })
+})
+
+describe("createBudget", () => {
+  test("reports the first limit reached", () => {
+    const budget = createBudget({ maxCostUsd: 5, maxTokens: 10_000_000 }, () => PRICING)
+    const usage = { promptTokens: 1_000_000, completionTokens: 100_000 }
+    expect(budget.record("openai/x", item(true, usage))).toBeUndefined()
+    expect(budget.record("openai/x", item(true, usage))).toBe("cost budget reached: $6.00 spent (max $5.00)")
+    expect(budget.spent()).toEqual({ costUsd: 6, tokens: 2_200_000 })
+  })
+
+  test("counts tokens of unpriced models towards the token limit", () => {
+    const budget = createBudget({ maxTokens: 100 }, () => undefined)
+    expect(budget.record("unknown/model", item(true, { totalTokens: 100 }))).toBe(
+      "token budget reached: 100 tokens used (max 100)",
+    )
+  })
+
+  test("rejects non-positive limits", () => {
+    expect(() => createBudget({ maxCostUsd: 0 })).toThrow("Budget maxCostUsd must be a positive number")
+  })
+})
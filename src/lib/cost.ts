@@ -0,0 +1,179 @@
+import { MODEL_PRICING } from "../config/pricing"
+import type { ModelEvalItem } from "./evaluate"
+import { isTransportFailure } from "./evaluate"
+import { splitModelId } from "./providers"
+
+export type ModelPricing = {
+  /** USD per million prompt (input) tokens. */
+  promptPerMTok: number
+  /** USD per million completion (output) tokens. */
+  completionPerMTok: number
+}
+
+export type TokenUsageTotals = {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  /** Items that reported usage. */
+  itemsWithUsage: number
+}
+
+/**
+ * Token usage and estimated cost of a model's items. Cached items cost nothing
+ * in this run; what they cost when first evaluated is reported separately.
+ */
+export type CostSummary = {
+  /** Unset when the model has no entry in the pricing table. */
+  pricing?: ModelPricing
+  /** Requests made in this run. */
+  spent: TokenUsageTotals & { costUsd?: number }
+  /** Items served from the cache. */
+  cached: TokenUsageTotals & { items: number; costUsd?: number }
+  /** Cost of all answers (spent plus cached) per correct answer. */
+  costPerCorrectUsd?: number
+}
+
+const FREE: ModelPricing = { promptPerMTok: 0, completionPerMTok: 0 }
+
+/**
+ * Looks up the price of a model. Free OpenRouter variants (`:free`) and the
+ * `mock`/`local` providers cost nothing.
+ * @param modelId - The model ID.
+ * @param table - Pricing table (defaults to `MODEL_PRICING`).
+ * @returns The pricing, or undefined if the model is unknown.
+ */
+export function lookupPricing(
+  modelId: string,
+  table: Record<string, ModelPricing> = MODEL_PRICING,
+): ModelPricing | undefined {
+  if (table[modelId]) return table[modelId]
+  const { provider } = splitModelId(modelId)
+  if (provider === "mock" || provider === "local" || modelId.endsWith(":free")) return FREE
+  return undefined
+}
+
+/**
+ * Sums token usage over items. Older items may only record `totalTokens`.
+ * @param items - Evaluated items.
+ * @returns Usage totals.
+ */
+export function sumTokenUsage(items: Array<ModelEvalItem | undefined>): TokenUsageTotals {
+  const totals: TokenUsageTotals = { promptTokens: 0, completionTokens: 0, totalTokens: 0, itemsWithUsage: 0 }
+  for (const item of items) {
+    if (!item?.usage) continue
+    const p = item.usage.promptTokens ?? 0
+    const c = item.usage.completionTokens ?? 0
+    totals.promptTokens += p
+    totals.completionTokens += c
+    totals.totalTokens += item.usage.totalTokens ?? p + c
+    totals.itemsWithUsage++
+  }
+  return totals
+}
+
+/**
+ * Prices token usage.
+ * @param usage - Token totals.
+ * @param pricing - Model pricing.
+ * @returns Cost in USD.
+ */
+export function priceUsage(
+  usage: Pick<TokenUsageTotals, "promptTokens" | "completionTokens">,
+  pricing: ModelPricing,
+): number {
+  return (usage.promptTokens * pricing.promptPerMTok + usage.completionTokens * pricing.completionPerMTok) / 1_000_000
+}
+
+/**
+ * Summarizes token usage and cost of a model's items.
+ * @param modelId - The model ID (for the pricing lookup).
+ * @param items - Evaluated items (may be sparse).
+ * @param pricing - Pricing to use (defaults to the table entry for the model).
+ * @returns Cost summary.
+ */
+export function summarizeCost(
+  modelId: string,
+  items: Array<ModelEvalItem | undefined>,
+  pricing: ModelPricing | undefined = lookupPricing(modelId),
+): CostSummary {
+  const present = items.filter((i): i is ModelEvalItem => Boolean(i))
+  const fresh = present.filter((i) => !i.cached)
+  const cachedItems = present.filter((i) => i.cached && !isTransportFailure(i))
+  const spent = sumTokenUsage(fresh)
+  const cached = sumTokenUsage(cachedItems)
+  const correct = present.filter((i) => i.ok).length
+  const spentCost = pricing ? priceUsage(spent, pricing) : undefined
+  const cachedCost = pricing ? priceUsage(cached, pricing) : undefined
+  return {
+    pricing,
+    spent: { ...spent, costUsd: spentCost },
+    cached: { ...cached, items: cachedItems.length, costUsd: cachedCost },
+    costPerCorrectUsd:
+      spentCost === undefined || cachedCost === undefined || correct === 0
+        ? undefined
+        : (spentCost + cachedCost) / correct,
+  }
+}
+
+/**
+ * Formats a USD amount; small amounts keep four significant digits.
+ * @param usd - Amount in USD (undefined when unknown).
+ * @returns Formatted amount, or "n/a".
+ */
+export function formatUsd(usd: number | undefined): string {
+  if (usd === undefined || !Number.isFinite(usd)) return "n/a"
+  if (usd === 0) return "$0"
+  return usd >= 1 ? `$${usd.toFixed(2)}` : `$${usd.toPrecision(4)}`
+}
+
+export type BudgetLimits = {
+  /** Maximum spend in USD across all models. */
+  maxCostUsd?: number
+  /** Maximum tokens (prompt + completion) across all models. */
+  maxTokens?: number
+}
+
+export type Budget = {
+  /**
+   * Records a newly evaluated item (cached items are free and shouldn't be recorded).
+   * @returns Why the budget is exhausted, once it is; undefined otherwise.
+   */
+  record(modelId: string, item: ModelEvalItem): string | undefined
+  spent(): { costUsd: number; tokens: number }
+}
+
+/**
+ * Creates a run budget that tracks spend over requests made in this process.
+ * @param limits - Cost and token limits; omitted limits are unlimited.
+ * @param pricingFor - Pricing lookup (defaults to `lookupPricing`).
+ * @returns The budget.
+ * @throws Error if a limit is not a positive number.
+ */
+export function createBudget(
+  limits: BudgetLimits,
+  pricingFor: (modelId: string) => ModelPricing | undefined = (m) => lookupPricing(m),
+): Budget {
+  for (const [name, v] of Object.entries(limits)) {
+    if (v !== undefined && !(v > 0)) {
+      throw new Error(`Budget ${name} must be a positive number`)
+    }
+  }
+  let costUsd = 0
+  let tokens = 0
+  return {
+    record(modelId, item) {
+      const usage = sumTokenUsage([item])
+      tokens += usage.totalTokens
+      const pricing = pricingFor(modelId)
+      if (pricing) costUsd += priceUsage(usage, pricing)
+      if (limits.maxCostUsd !== undefined && costUsd >= limits.maxCostUsd) {
+        return `cost budget reached: ${formatUsd(costUsd)} spent (max ${formatUsd(limits.maxCostUsd)})`
+      }
+      if (limits.maxTokens !== undefined && tokens >= limits.maxTokens) {
+        return `token budget reached: ${tokens} tokens used (max ${limits.maxTokens})`
+      }
+      return undefined
+    },
+    spent: () => ({ costUsd, tokens }),
+  }
+}
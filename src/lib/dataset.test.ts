@@ -0,0 +1,102 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test"
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { formatDatasetIssues, loadDataset, parseDatasetFields } from "./dataset"
+import { LABEL_SCHEMAS } from "./labels"
+
+let dir: string
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "factbench-dataset-"))
+})
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+/**
+ * Writes a file into the temp directory.
+ * @param name - File name.
+ * @param lines - Lines of the file.
+ * @returns The file path.
+ */
+async function writeLines(name: string, lines: string[]): Promise<string> {
+  const filePath = path.join(dir, name)
+  await Bun.write(filePath, lines.join("\n") + "\n")
+  return filePath
+}
+
+const row = (id: number | string | undefined, label: unknown, claim = `Claim ${String(id)}.`) =>
+  JSON.stringify({ ...(id === undefined ? {} : { id }), label, claim })
+
+describe("loadDataset", () => {
+  test("renames duplicate IDs in strict mode so every example keeps its own ID", async () => {
+    const filePath = await writeLines("dup.jsonl", [row(1, "SUPPORTS"), row(2, "REFUTES"), row(1, "NEI")])
+    const { examples, report } = await loadDataset(filePath)
+    expect(examples.map((ex) => ex.id)).toEqual([1, 2, "1#3"])
+    expect(new Set(examples.map((ex) => String(ex.id))).size).toBe(3)
+    expect(report.counts.duplicateId).toBe(1)
+    expect(report.issues[0]).toMatchObject({ kind: "duplicateId", line: 3, id: 1, renamedTo: "1#3" })
+    expect(formatDatasetIssues(report)).toBe("1 duplicate IDs renamed")
+  })
+
+  test("skips duplicate IDs in lenient mode", async () => {
+    const filePath = await writeLines("dup-lenient.jsonl", [row(1, "SUPPORTS"), row(1, "REFUTES")])
+    const { examples, report } = await loadDataset(filePath, { lenient: true })
+    expect(examples.map((ex) => ex.label)).toEqual(["SUPPORTS"])
+    expect(report.issues[0].renamedTo).toBeUndefined()
+    expect(formatDatasetIssues(report)).toBe("skipped 1 rows: 1 duplicate ID")
+  })
+
+  test("numbers rows without an ID by their line", async () => {
+    const filePath = await writeLines("no-id.jsonl", ["", row(undefined, "SUPPORTS"), "", row(undefined, "REFUTES")])
+    const { examples } = await loadDataset(filePath)
+    expect(examples.map((ex) => ex.id)).toEqual([2, 4])
+  })
+
+  test("throws on the first bad row in strict mode and lists every bad row in lenient mode", async () => {
+    const filePath = await writeLines("bad.jsonl", [row(1, "SUPPORTS"), "{oops", row(3, "MAYBE"), row(4, "REFUTES", " ")])
+    await expect(loadDataset(filePath)).rejects.toThrow("line 2")
+    const { examples, report } = await loadDataset(filePath, { lenient: true })
+    expect(examples).toHaveLength(1)
+    expect(report.issues.map((i) => [i.kind, i.line])).toEqual([
+      ["malformed", 2],
+      ["invalidLabel", 3],
+      ["emptyClaim", 4],
+    ])
+  })
+
+  test("decodes Hugging Face integer labels with the schema's ClassLabel order", async () => {
+    const filePath = await writeLines("liar.jsonl", [
+      JSON.stringify({ row: { id: "a", label: 0, statement: "A." } }),
+      JSON.stringify({ row: { id: "b", label: 4, statement: "B." } }),
+      JSON.stringify({ row: { id: "c", label: 5, statement: "C." } }),
+    ])
+    const { examples } = await loadDataset(filePath, {
+      format: "hf",
+      labels: LABEL_SCHEMAS.liar,
+      fields: parseDatasetFields("claim=statement"),
+    })
+    expect(examples.map((ex) => ex.label)).toEqual(["false", "barely-true", "pants-fire"])
+  })
+
+  test("maps CSV columns and stops at the limit", async () => {
+    const filePath = await writeLines("claims.csv", [
+      "row_id,statement,verdict",
+      "7,Water is wet.,true",
+      '8,"Fire, famously, is cold.",FALSE',
+      "9,Unread.,TRUE",
+    ])
+    const { examples, report } = await loadDataset(filePath, {
+      labels: LABEL_SCHEMAS.binary,
+      fields: parseDatasetFields("id=row_id,claim=statement,label=verdict"),
+      limit: 2,
+    })
+    expect(examples).toEqual([
+      { id: "7", claim: "Water is wet.", label: "TRUE", verifiable: undefined, evidence: [] },
+      { id: "8", claim: "Fire, famously, is cold.", label: "FALSE", verifiable: undefined, evidence: [] },
+    ])
+    expect(report.rowsRead).toBe(2)
+  })
+})
@@ -0,0 +1,350 @@
+import { readJsonlRows, readLines } from "./readJsonl"
+import { readDelimitedRows } from "./readDelimited"
+import { DEFAULT_LABEL_SCHEMA, resolveLabel, type LabelSchema } from "./labels"
+import { parseFeverEvidence } from "./evidence"
+import type { FeverExample } from "./evaluate"
+
+/**
+ * Dataset file format.
+ * - `jsonl`: one JSON object per line (the FEVER format).
+ * - `csv` / `tsv`: a header row naming the columns (CSV fields may be quoted).
+ * - `json`: a JSON array of objects.
+ * - `hf`: HuggingFace-style JSONL. Rows may be wrapped as `{"row": {...}}`
+ *   (datasets-server output) and integer labels index the schema's
+ *   `classLabels` (`ClassLabel` encoding), or its labels if it has none.
+ */
+export type DatasetFormat = "jsonl" | "csv" | "tsv" | "json" | "hf"
+
+export const DATASET_FORMATS = ["jsonl", "csv", "tsv", "json", "hf"] as const satisfies readonly DatasetFormat[]
+
+/**
+ * Which source field holds each example field. Values are column names or
+ * dotted paths into nested objects (e.g. `meta.id`); unmapped fields use
+ * their own name.
+ */
+export type DatasetFields = Partial<Record<DatasetField, string>>
+
+export type DatasetField = "id" | "claim" | "label" | "verifiable" | "evidence"
+
+export const DATASET_FIELDS = ["id", "claim", "label", "verifiable", "evidence"] as const satisfies readonly DatasetField[]
+
+/**
+ * How to read a dataset file.
+ */
+export type DatasetSource = {
+  /** File format; inferred from the extension when omitted. */
+  format?: DatasetFormat
+  fields?: DatasetFields
+  /** CSV/TSV only: whether the first row names the columns (default true). */
+  header?: boolean
+  /** Label schema of the gold labels (default `fever`). */
+  labels?: LabelSchema
+}
+
+export type DatasetIssueKind = "malformed" | "notObject" | "invalidLabel" | "emptyClaim" | "duplicateId"
+
+/**
+ * A row that was rejected while loading a dataset.
+ */
+export type DatasetIssue = {
+  kind: DatasetIssueKind
+  /** 1-based line number in the file. */
+  line: number
+  id?: string | number
+  message: string
+  /** ID the row was loaded under instead (duplicate IDs in strict mode). */
+  renamedTo?: string
+}
+
+/**
+ * What loading a dataset found. In strict mode the first issue throws, except
+ * for duplicate IDs, which are listed and loaded under a new ID; lenient mode
+ * skips every listed row.
+ */
+export type DatasetValidationReport = {
+  filePath: string
+  format: DatasetFormat
+  /** Non-blank lines read (the load stops once `limit` examples are valid). */
+  rowsRead: number
+  /** Examples loaded. */
+  examples: number
+  /** Listed rows per kind. */
+  counts: Record<DatasetIssueKind, number>
+  /** Skipped (or, with `renamedTo`, renamed) rows, in file order. */
+  issues: DatasetIssue[]
+}
+
+/**
+ * Infers a dataset's format from its extension (ignoring `.gz`).
+ * @param filePath - Path to the dataset file.
+ * @returns `csv`, `tsv` or `json` for those extensions, otherwise `jsonl`.
+ */
+export function inferDatasetFormat(filePath: string): DatasetFormat {
+  const ext = filePath.replace(/\.gz$/, "").split(".").pop()?.toLowerCase()
+  return ext === "csv" || ext === "tsv" || ext === "json" ? ext : "jsonl"
+}
+
+/**
+ * Parses a field mapping such as `claim=statement,label=verdict`.
+ * @param spec - Comma-separated `<field>=<source field>` pairs.
+ * @returns The field mapping.
+ * @throws Error if a pair is malformed or names an unknown field.
+ */
+export function parseDatasetFields(spec: string): DatasetFields {
+  const fields: DatasetFields = {}
+  for (const pair of spec.split(",").map((p) => p.trim()).filter(Boolean)) {
+    const i = pair.indexOf("=")
+    const field = i === -1 ? "" : pair.slice(0, i).trim()
+    const source = i === -1 ? "" : pair.slice(i + 1).trim()
+    if (!(DATASET_FIELDS as readonly string[]).includes(field) || !source) {
+      throw new Error(
+        `Invalid field mapping: ${pair}. Expected <field>=<source field> with field one of: ${DATASET_FIELDS.join(", ")}`,
+      )
+    }
+    fields[field as DatasetField] = source
+  }
+  return fields
+}
+
+/**
+ * Reads a value by column name or dotted path. A column whose name contains
+ * dots wins over the nested path.
+ * @param row - The row.
+ * @param path - Column name or dotted path.
+ * @returns The value, or undefined if missing.
+ */
+function getField(row: Record<string, unknown>, path: string): unknown {
+  if (path in row) return row[path]
+  let v: unknown = row
+  for (const key of path.split(".")) {
+    if (!v || typeof v !== "object") return undefined
+    v = (v as Record<string, unknown>)[key]
+  }
+  return v
+}
+
+/**
+ * Streams the rows of a dataset file in any supported format. JSON arrays are
+ * read whole; the other formats stream.
+ * @param filePath - Path to the dataset file (`.gz` is decompressed).
+ * @param format - The file format.
+ * @param options - Header flag, lenient mode and a callback for unparseable rows.
+ * @yields Parsed rows with their 1-based line number (array index for JSON).
+ * @throws Error if the file can't be parsed (strict mode).
+ */
+async function* readDatasetRows(
+  filePath: string,
+  format: DatasetFormat,
+  options: { header?: boolean; lenient: boolean; onInvalidLine: (info: { line: number; message: string }) => void },
+): AsyncGenerator<{ line: number; value: unknown }, void, void> {
+  if (format === "csv" || format === "tsv") {
+    yield* readDelimitedRows(filePath, { ...options, delimiter: format === "csv" ? "," : "\t" })
+    return
+  }
+  if (format === "json") {
+    const lines: string[] = []
+    for await (const l of readLines(filePath)) lines.push(l)
+    let rows: unknown
+    try {
+      rows = JSON.parse(lines.join("\n"))
+    } catch (err) {
+      throw new Error(`Invalid JSON in ${filePath}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+    if (!Array.isArray(rows)) {
+      throw new Error(`Dataset ${filePath} must hold a JSON array of rows`)
+    }
+    for (let i = 0; i < rows.length; i++) yield { line: i + 1, value: rows[i] }
+    return
+  }
+  for await (const { line, value } of readJsonlRows(filePath, options)) {
+    // datasets-server rows wrap the record
+    const wrapped = format === "hf" && value && typeof value === "object" && "row" in value
+    yield { line, value: wrapped ? (value as { row: unknown }).row : value }
+  }
+}
+
+/**
+ * Loads and validates examples from a dataset file, streaming it (except JSON
+ * arrays) so only the rows up to `limit` are read. Source fields are mapped
+ * onto `{id, claim, label}` and gold labels are matched to the label schema,
+ * aliases included. Rows that can't be parsed, with a bad label or an empty
+ * claim throw in strict mode; in lenient mode they are skipped and listed in
+ * the report. Rows with an ID seen before are listed either way; lenient mode
+ * skips them and strict mode loads them as `<id>#<line>`, so every loaded
+ * example has its own ID for the cache, resumes and cross-model joins.
+ * @param filePath - Path to the dataset file (`.gz` is decompressed).
+ * @param options - Loading options.
+ * @param options.limit - Optional maximum number of examples to load.
+ * @param options.lenient - Skip invalid rows instead of throwing.
+ * @param options.format - File format (inferred from the extension by default).
+ * @param options.fields - Source field of each example field.
+ * @param options.header - CSV/TSV: whether the first row names the columns.
+ * @param options.labels - Label schema of the gold labels (default `fever`).
+ * @returns Validated examples and the validation report.
+ * @throws Error if the file is invalid (strict mode) or has no valid examples.
+ */
+export async function loadDataset(
+  filePath: string,
+  options: DatasetSource & { limit?: number; lenient?: boolean } = {},
+): Promise<{ examples: FeverExample[]; report: DatasetValidationReport }> {
+  if (!filePath || typeof filePath !== "string") {
+    throw new Error("File path must be a non-empty string")
+  }
+  const { limit, lenient = false, fields = {}, labels = DEFAULT_LABEL_SCHEMA } = options
+  if (limit !== undefined && (limit < 1 || !Number.isInteger(limit))) {
+    throw new Error("Limit must be a positive integer")
+  }
+  const format = options.format ?? inferDatasetFormat(filePath)
+  if (!(DATASET_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`Invalid dataset format: ${format}. Expected one of: ${DATASET_FORMATS.join(", ")}`)
+  }
+  const field = (row: Record<string, unknown>, name: DatasetField) => getField(row, fields[name] ?? name)
+
+  const report: DatasetValidationReport = {
+    filePath,
+    format,
+    rowsRead: 0,
+    examples: 0,
+    counts: { malformed: 0, notObject: 0, invalidLabel: 0, emptyClaim: 0, duplicateId: 0 },
+    issues: [],
+  }
+  const reject = (issue: DatasetIssue) => {
+    if (!lenient) throw new Error(issue.message)
+    report.counts[issue.kind]++
+    report.issues.push(issue)
+  }
+
+  const examples: FeverExample[] = []
+  const seen = new Map<string, number>()
+  const rows = readDatasetRows(filePath, format, {
+    header: options.header,
+    lenient,
+    onInvalidLine: ({ line, message }) => {
+      report.rowsRead++
+      const what = format === "csv" || format === "tsv" ? "record" : "JSON"
+      reject({ kind: "malformed", line, message: `Invalid ${what} on line ${line} of ${filePath}: ${message}` })
+    },
+  })
+  for await (const { line, value } of rows) {
+    report.rowsRead++
+
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      reject({ kind: "notObject", line, message: `Invalid row on line ${line}: must be a JSON object` })
+      continue
+    }
+    const row = value as Record<string, unknown>
+
+    const rowId = field(row, "id")
+    let id: string | number =
+      (typeof rowId === "string" && rowId !== "") || typeof rowId === "number" ? rowId : line
+
+    const rawLabel = field(row, "label")
+    const label =
+      format === "hf" && typeof rawLabel === "number" && Number.isInteger(rawLabel)
+        ? (labels.classLabels ?? labels.labels)[rawLabel]
+        : resolveLabel(rawLabel, labels)
+    if (label === undefined) {
+      reject({
+        kind: "invalidLabel",
+        line,
+        id,
+        message: `Invalid label in dataset row id=${rowId ?? "unknown"} (line ${line}): ${String(rawLabel)}. Expected one of: ${labels.labels.join(
+          ", ",
+        )}`,
+      })
+      continue
+    }
+
+    const claim = String(field(row, "claim") ?? "")
+    if (!claim.trim()) {
+      reject({
+        kind: "emptyClaim",
+        line,
+        id,
+        message: `Missing or empty claim in dataset row id=${rowId ?? "unknown"} (line ${line})`,
+      })
+      continue
+    }
+
+    const firstLine = seen.get(String(id))
+    if (firstLine !== undefined) {
+      const message = `Duplicate id=${id} on line ${line} (first seen on line ${firstLine})`
+      report.counts.duplicateId++
+      if (lenient) {
+        report.issues.push({ kind: "duplicateId", line, id, message })
+        continue
+      }
+      const renamedTo = `${id}#${line}`
+      report.issues.push({ kind: "duplicateId", line, id, message: `${message}; loaded as id=${renamedTo}`, renamedTo })
+      id = renamedTo
+    }
+    seen.set(String(id), line)
+
+    // CSV/TSV cells hold evidence as JSON text
+    let evidence = field(row, "evidence")
+    if (typeof evidence === "string" && evidence.trim().startsWith("[")) {
+      try {
+        evidence = JSON.parse(evidence)
+      } catch {
+        evidence = undefined
+      }
+    }
+    const verifiable = field(row, "verifiable")
+    examples.push({
+      id,
+      claim,
+      label,
+      verifiable: typeof verifiable === "string" && verifiable ? verifiable : undefined,
+      evidence: parseFeverEvidence(evidence),
+    })
+    if (limit !== undefined && examples.length >= limit) break
+  }
+
+  if (examples.length === 0) {
+    throw new Error(`No valid examples found in ${filePath}`)
+  }
+  report.examples = examples.length
+  return { examples, report }
+}
+
+/**
+ * Loads and validates examples from a dataset file.
+ * @param filePath - Path to the dataset file (`.gz` is decompressed).
+ * @param limit - Optional maximum number of examples to load.
+ * @param options - Format, field mapping and label schema; `lenient` skips invalid rows instead of throwing.
+ * @returns Array of validated examples.
+ * @throws Error if the file is invalid or examples are malformed.
+ */
+export async function loadExamples(
+  filePath: string,
+  limit?: number,
+  options: DatasetSource & { lenient?: boolean } = {},
+): Promise<FeverExample[]> {
+  return (await loadDataset(filePath, { ...options, limit })).examples
+}
+
+/**
+ * Summarizes the skipped and flagged rows of a dataset load.
+ * @param report - The validation report.
+ * @returns E.g. "skipped 3 rows: 1 malformed, 2 invalid label" or "2 duplicate IDs renamed", or undefined if there were no issues.
+ */
+export function formatDatasetIssues(report: DatasetValidationReport): string | undefined {
+  const names: Record<DatasetIssueKind, string> = {
+    malformed: "malformed",
+    notObject: "not an object",
+    invalidLabel: "invalid label",
+    emptyClaim: "empty claim",
+    duplicateId: "duplicate ID",
+  }
+  const skipped = report.issues.filter((i) => i.renamedTo === undefined)
+  const renamed = report.issues.length - skipped.length
+  const parts = (Object.keys(names) as DatasetIssueKind[])
+    .map((k) => [k, skipped.filter((i) => i.kind === k).length] as const)
+    .filter(([, n]) => n > 0)
+    .map(([k, n]) => `${n} ${names[k]}`)
+  const summary = [
+    ...(parts.length ? [`skipped ${skipped.length} rows: ${parts.join(", ")}`] : []),
+    ...(renamed ? [`${renamed} duplicate IDs renamed`] : []),
+  ]
+  return summary.length ? summary.join("; ") : undefined
+}
@@ -0,0 +1,360 @@
+import { compareTwoStrings } from "string-similarity"
+import { formatDatasetIssues, loadDataset, type DatasetSource, type DatasetValidationReport } from "./dataset"
+import type { FeverExample } from "./evaluate"
+import { DEFAULT_LABEL_SCHEMA } from "./labels"
+import { writeJsonl } from "./report"
+
+/** Claims at least this similar (Dice coefficient of character bigrams) are near-duplicates. */
+export const DEFAULT_SIMILARITY = 0.9
+
+/**
+ * Distribution of claim lengths.
+ */
+export type LengthHistogram = {
+  unit: "words" | "chars"
+  /** Claims per length range, e.g. `{ range: "6-10", count: 120 }`. */
+  bins: Array<{ range: string; count: number }>
+  min: number
+  median: number
+  mean: number
+  max: number
+}
+
+/**
+ * A dataset row as it appears in duplicate listings.
+ */
+export type DuplicateMember = { id: string | number; claim: string; label: string }
+
+/**
+ * Claims that are equal up to case, whitespace and punctuation. The first
+ * member comes first in the file.
+ */
+export type DuplicateGroup = {
+  members: DuplicateMember[]
+  /** The members disagree on the gold label. */
+  conflicting: boolean
+}
+
+/**
+ * Two different claims whose similarity reaches the threshold. `first`
+ * comes first in the file.
+ */
+export type NearDuplicate = {
+  first: DuplicateMember
+  second: DuplicateMember
+  similarity: number
+}
+
+/**
+ * What `inspectDataset` found in a dataset file.
+ */
+export type DatasetInspection = {
+  /** Rows that failed validation (the file is loaded in lenient mode). */
+  validation: DatasetValidationReport
+  /** Valid examples. */
+  examples: number
+  /** Examples per gold label, in schema order. */
+  labels: Record<string, number>
+  /** Examples per `verifiable` value; `(missing)` counts rows without one. */
+  verifiable: Record<string, number>
+  claimWords: LengthHistogram
+  claimChars: LengthHistogram
+  /** Valid rows lacking an optional field. */
+  missing: { verifiable: number; evidence: number }
+  /**
+   * Evidence coverage. Evidence is expected for every claim, except NOT
+   * ENOUGH INFO claims when the schema has that label (as FEVER does).
+   */
+  evidence: {
+    expected: number
+    covered: number
+    coverage: number
+    sets: number
+    sentences: number
+    /** Schemas with NOT ENOUGH INFO only: `verifiable` contradicts the label (e.g. NOT VERIFIABLE but SUPPORTS). */
+    inconsistent: number
+  }
+  duplicates: DuplicateGroup[]
+  /** Near-duplicate pairs, most similar first; empty when the search was disabled. */
+  nearDuplicates: NearDuplicate[]
+  /** Similarity threshold of the near-duplicate search (0 = disabled). */
+  similarity: number
+  /** IDs a cleaned copy leaves out: every duplicate but the first, and the second claim of each near-duplicate pair. */
+  redundantIds: Array<string | number>
+}
+
+/**
+ * Normalizes a claim for duplicate detection: lowercase, punctuation dropped,
+ * whitespace collapsed.
+ * @param claim - The claim.
+ * @returns The comparison key.
+ */
+function claimKey(claim: string): string {
+  return claim
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+}
+
+/**
+ * Builds a length histogram over fixed ranges.
+ * @param unit - What the lengths count.
+ * @param lengths - One length per claim.
+ * @param edges - Upper bounds of all but the last (open-ended) range.
+ * @returns The histogram.
+ */
+function lengthHistogram(unit: LengthHistogram["unit"], lengths: number[], edges: number[]): LengthHistogram {
+  const bins = [...edges, Infinity].map((upper, i) => {
+    const lower = i === 0 ? 1 : edges[i - 1] + 1
+    return {
+      range: upper === Infinity ? `${lower}+` : `${lower}-${upper}`,
+      count: lengths.filter((n) => n >= lower && n <= upper).length,
+    }
+  })
+  const sorted = [...lengths].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return {
+    unit,
+    bins,
+    min: sorted[0] ?? 0,
+    median: sorted.length === 0 ? 0 : sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2,
+    mean: sorted.length === 0 ? 0 : sorted.reduce((a, b) => a + b, 0) / sorted.length,
+    max: sorted[sorted.length - 1] ?? 0,
+  }
+}
+
+/**
+ * Finds near-duplicate claims. Only claims whose lengths allow the threshold
+ * are compared, but the search is still quadratic in the worst case.
+ * @param claims - One representative per exact-duplicate group, in file order.
+ * @param threshold - Minimum similarity (0-1).
+ * @returns Pairs of indices into `claims` with their similarity.
+ */
+function findNearDuplicates(
+  claims: string[],
+  threshold: number,
+): Array<{ a: number; b: number; similarity: number }> {
+  // compareTwoStrings ignores whitespace; two strings of n and m bigrams
+  // (n <= m) share at most n, so their similarity is at most 2n / (n + m).
+  const bigrams = claims.map((c) => Math.max(c.replace(/\s+/g, "").length - 1, 0))
+  const order = claims.map((_, i) => i).sort((x, y) => bigrams[x] - bigrams[y])
+  const pairs: Array<{ a: number; b: number; similarity: number }> = []
+  for (let i = 0; i < order.length; i++) {
+    const x = order[i]
+    const maxBigrams = (bigrams[x] * (2 - threshold)) / threshold
+    for (let j = i + 1; j < order.length && bigrams[order[j]] <= maxBigrams; j++) {
+      const y = order[j]
+      const similarity = compareTwoStrings(claims[x], claims[y])
+      if (similarity >= threshold) pairs.push({ a: Math.min(x, y), b: Math.max(x, y), similarity })
+    }
+  }
+  return pairs.sort((p, q) => q.similarity - p.similarity || p.a - q.a || p.b - q.b)
+}
+
+/**
+ * Loads a dataset in lenient mode and reports its label and `verifiable`
+ * distributions, claim lengths, missing fields, evidence coverage and
+ * duplicate or near-duplicate claims.
+ * @param filePath - Path to the dataset file (`.gz` is decompressed).
+ * @param options - How to read the file, plus:
+ * @param options.limit - Only inspect the first `limit` valid examples.
+ * @param options.similarity - Near-duplicate threshold (default 0.9; 0 skips the search).
+ * @returns The inspection and the valid examples.
+ * @throws Error if the file can't be read, has no valid examples or the threshold is out of range.
+ */
+export async function inspectDataset(
+  filePath: string,
+  options: DatasetSource & { limit?: number; similarity?: number } = {},
+): Promise<{ inspection: DatasetInspection; examples: FeverExample[] }> {
+  const { limit, similarity = DEFAULT_SIMILARITY, ...source } = options
+  if (!(similarity >= 0 && similarity <= 1)) {
+    throw new Error(`Invalid similarity: ${similarity}. Must be a number between 0 and 1.`)
+  }
+  const schema = source.labels ?? DEFAULT_LABEL_SCHEMA
+  const { examples, report } = await loadDataset(filePath, { ...source, limit, lenient: true })
+  // FEVER-style schemas don't expect evidence for NOT ENOUGH INFO claims
+  const fever = schema.labels.includes("NOT ENOUGH INFO")
+
+  const labels = Object.fromEntries(schema.labels.map((l) => [l, 0]))
+  const verifiable: Record<string, number> = {}
+  const evidence = { expected: 0, covered: 0, coverage: 0, sets: 0, sentences: 0, inconsistent: 0 }
+  const missing = { verifiable: 0, evidence: 0 }
+  for (const ex of examples) {
+    labels[ex.label]++
+    const v = ex.verifiable ?? "(missing)"
+    verifiable[v] = (verifiable[v] ?? 0) + 1
+    if (ex.verifiable === undefined) missing.verifiable++
+
+    const sets = ex.evidence ?? []
+    if (sets.length === 0) missing.evidence++
+    evidence.sets += sets.length
+    evidence.sentences += sets.reduce((n, s) => n + s.length, 0)
+    const expected = !fever || ex.label !== "NOT ENOUGH INFO"
+    if (expected) {
+      evidence.expected++
+      if (sets.length > 0) evidence.covered++
+    }
+    if (fever && ex.verifiable !== undefined && (ex.verifiable === "NOT VERIFIABLE") === expected) {
+      evidence.inconsistent++
+    }
+  }
+  evidence.coverage = evidence.expected > 0 ? evidence.covered / evidence.expected : 0
+
+  const member = (ex: FeverExample): DuplicateMember => ({ id: ex.id, claim: ex.claim, label: ex.label })
+  const groups = new Map<string, FeverExample[]>()
+  for (const ex of examples) {
+    const key = claimKey(ex.claim)
+    const group = groups.get(key)
+    if (group) group.push(ex)
+    else groups.set(key, [ex])
+  }
+  const duplicates: DuplicateGroup[] = [...groups.values()]
+    .filter((g) => g.length > 1)
+    .map((g) => ({ members: g.map(member), conflicting: new Set(g.map((ex) => ex.label)).size > 1 }))
+
+  const firsts = [...groups.values()].map((g) => g[0])
+  const pairs = similarity > 0 ? findNearDuplicates([...groups.keys()], similarity) : []
+  const nearDuplicates: NearDuplicate[] = pairs.map((p) => ({
+    first: member(firsts[p.a]),
+    second: member(firsts[p.b]),
+    similarity: p.similarity,
+  }))
+
+  // In file order, a near-duplicate is redundant unless its earlier partner already is
+  const redundant = new Set<string | number>(duplicates.flatMap((g) => g.members.slice(1).map((m) => m.id)))
+  for (const p of [...pairs].sort((p, q) => p.a - q.a || p.b - q.b)) {
+    if (!redundant.has(firsts[p.a].id)) redundant.add(firsts[p.b].id)
+  }
+
+  return {
+    examples,
+    inspection: {
+      validation: report,
+      examples: examples.length,
+      labels,
+      verifiable,
+      claimWords: lengthHistogram(
+        "words",
+        examples.map((ex) => ex.claim.trim().split(/\s+/).length),
+        [5, 10, 15, 20, 30, 50],
+      ),
+      claimChars: lengthHistogram(
+        "chars",
+        examples.map((ex) => ex.claim.trim().length),
+        [25, 50, 75, 100, 150, 200],
+      ),
+      missing,
+      evidence,
+      duplicates,
+      nearDuplicates,
+      similarity,
+      redundantIds: examples.filter((ex) => redundant.has(ex.id)).map((ex) => ex.id),
+    },
+  }
+}
+
+/**
+ * Writes a cleaned copy of a dataset as FEVER JSONL: only valid rows, without
+ * the redundant duplicates, with labels spelled as in the schema. Evidence
+ * sentences keep their page and sentence ID; FEVER's annotation and evidence
+ * IDs are written as `null`.
+ * @param outPath - JSONL file to write.
+ * @param examples - Valid examples from `inspectDataset`.
+ * @param inspection - The inspection of those examples.
+ * @returns Rows written.
+ */
+export async function writeCleanDataset(
+  outPath: string,
+  examples: FeverExample[],
+  inspection: DatasetInspection,
+): Promise<number> {
+  const redundant = new Set(inspection.redundantIds)
+  const rows = examples
+    .filter((ex) => !redundant.has(ex.id))
+    .map((ex) => ({
+      id: ex.id,
+      claim: ex.claim,
+      label: ex.label,
+      verifiable: ex.verifiable,
+      evidence: ex.evidence?.length ? ex.evidence.map((set) => set.map((r) => [null, null, r.page, r.sentence])) : undefined,
+    }))
+  await writeJsonl(outPath, rows)
+  return rows.length
+}
+
+/**
+ * Derives the default path of a cleaned copy: `<name>.clean.jsonl` next to the dataset.
+ * @param filePath - Dataset file.
+ * @returns The output path.
+ */
+export function cleanDatasetPath(filePath: string): string {
+  return `${filePath.replace(/\.gz$/, "").replace(/\.[^./\\]+$/, "")}.clean.jsonl`
+}
+
+/**
+ * Renders an inspection as plain text for the terminal.
+ * @param inspection - The inspection.
+ * @param options - `maxExamples` caps the duplicate groups and pairs listed (default 20).
+ * @returns The report text.
+ */
+export function renderDatasetInspection(inspection: DatasetInspection, options: { maxExamples?: number } = {}): string {
+  const max = options.maxExamples ?? 20
+  const pct = (n: number, total: number) => (total > 0 ? `${((n / total) * 100).toFixed(1)}%` : "-")
+  const v = inspection.validation
+  const lines = [
+    `${v.filePath} (${v.format}): ${inspection.examples} valid examples of ${v.rowsRead} rows`,
+    `Invalid rows: ${formatDatasetIssues(v) ?? "none"}`,
+  ]
+  for (const issue of v.issues.slice(0, max)) lines.push(`  ${issue.message}`)
+  if (v.issues.length > max) lines.push(`  ... and ${v.issues.length - max} more`)
+
+  lines.push("", "Labels:")
+  for (const [label, n] of Object.entries(inspection.labels)) {
+    lines.push(`  ${label}: ${n} (${pct(n, inspection.examples)})`)
+  }
+  lines.push("", "Verifiable:")
+  for (const [value, n] of Object.entries(inspection.verifiable)) {
+    lines.push(`  ${value}: ${n} (${pct(n, inspection.examples)})`)
+  }
+
+  for (const h of [inspection.claimWords, inspection.claimChars]) {
+    lines.push(
+      "",
+      `Claim length (${h.unit}): min ${h.min}, median ${h.median}, mean ${h.mean.toFixed(1)}, max ${h.max}`,
+    )
+    const peak = Math.max(...h.bins.map((b) => b.count), 1)
+    const width = Math.max(...h.bins.map((b) => b.range.length))
+    for (const b of h.bins) {
+      lines.push(`  ${b.range.padStart(width)} | ${"#".repeat(Math.round((b.count / peak) * 40)).padEnd(40)} ${b.count}`)
+    }
+  }
+
+  const e = inspection.evidence
+  lines.push(
+    "",
+    `Evidence: ${e.covered}/${e.expected} claims that need evidence have it (${pct(e.covered, e.expected)}), ${e.sets} sets, ${e.sentences} sentences`,
+    `Missing fields: verifiable ${inspection.missing.verifiable}, evidence ${inspection.missing.evidence}`,
+  )
+  if (e.inconsistent > 0) lines.push(`Rows whose verifiable value contradicts the label: ${e.inconsistent}`)
+
+  const conflicting = inspection.duplicates.filter((g) => g.conflicting).length
+  lines.push(
+    "",
+    `Duplicate claims: ${inspection.duplicates.length} groups${conflicting ? `, ${conflicting} with conflicting labels` : ""}`,
+  )
+  const show = (m: DuplicateMember) => `id=${m.id} [${m.label}] ${m.claim}`
+  for (const g of inspection.duplicates.slice(0, max)) {
+    lines.push(`  ${g.conflicting ? "conflict: " : ""}${g.members.map((m) => `id=${m.id} [${m.label}]`).join(", ")}: ${g.members[0].claim}`)
+  }
+  if (inspection.duplicates.length > max) lines.push(`  ... and ${inspection.duplicates.length - max} more`)
+
+  if (inspection.similarity > 0) {
+    lines.push("", `Near-duplicate claims (similarity >= ${inspection.similarity}): ${inspection.nearDuplicates.length} pairs`)
+    for (const p of inspection.nearDuplicates.slice(0, max)) {
+      lines.push(`  ${p.similarity.toFixed(3)}  ${show(p.first)}`, `         ${show(p.second)}`)
+    }
+    if (inspection.nearDuplicates.length > max) lines.push(`  ... and ${inspection.nearDuplicates.length - max} more`)
+  }
+  lines.push("", `Redundant rows (left out of a cleaned copy): ${inspection.redundantIds.length}`)
+  return lines.join("\n")
+}
@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test"
+import { analyzeErrors, claimFeatures } from "./errorAnalysis"
+import type { ModelEvalItem } from "./evaluate"
+
+/**
+ * Builds an answer to a SUPPORTS claim.
+ * @param datasetId - Example ID.
+ * @param predictedLabel - The predicted label.
+ * @param extra - Fields to override.
+ * @returns The item.
+ */
+function item(
+  datasetId: number,
+  predictedLabel: ModelEvalItem["predictedLabel"],
+  extra: Partial<ModelEvalItem> = {},
+): ModelEvalItem {
+  return {
+    datasetId,
+    claim: `Claim ${datasetId} is not short at all.`,
+    goldLabel: "SUPPORTS",
+    predictedLabel,
+    rawText: predictedLabel,
+    ok: predictedLabel === "SUPPORTS",
+    latencyMs: 1,
+    ...extra,
+  }
+}
+
+describe("claimFeatures", () => {
+  test("reads May as a month only next to a day or year", () => {
+    expect(claimFeatures("He may be the tallest player in the league this season.")).not.toContain("date")
+    expect(claimFeatures("The bridge opened on May 5.")).toContain("date")
+    expect(claimFeatures("The bridge opened on 12 May.")).toContain("date")
+    expect(claimFeatures("The bridge opened in May 1932.")).toContain("date")
+  })
+
+  test("detects negation, numbers, years and length", () => {
+    expect(claimFeatures("Paris isn't in Spain.")).toEqual(["negation", "short"])
+    expect(claimFeatures("Rome has 753 hills.")).toEqual(["number", "short"])
+    expect(claimFeatures("The 1990s saw three recessions across many countries of the region.")).toEqual([
+      "number",
+      "date",
+    ])
+    expect(claimFeatures("one two three four five six seven eight nine ten eleven twelve a b c")).toEqual([
+      "number",
+      "long",
+    ])
+  })
+})
+
+describe("analyzeErrors", () => {
+  const analysis = analyzeErrors({
+    a: [item(1, "REFUTES"), item(2, "SUPPORTS"), item(3, "REFUTES"), item(4, "INVALID")],
+    b: [
+      item(1, "REFUTES"),
+      item(2, "NOT ENOUGH INFO"),
+      item(3, "SUPPORTS", { errorKind: "transport", error: "timeout" }),
+      item(4, "INVALID"),
+    ],
+  })
+
+  test("finds claims every model got wrong and claims they disagree on", () => {
+    expect(analysis.claims).toBe(4)
+    expect(analysis.allWrong.map((o) => o.datasetId)).toEqual([1, 4])
+    expect(analysis.disagreements.map((o) => o.datasetId)).toEqual([2])
+    // b failed in transport on claim 3, so it only has a's answer
+    expect(Object.keys(analysis.allWrong[0].answers)).toEqual(["a", "b"])
+    expect(analysis.allWrong.some((o) => o.datasetId === 3)).toBe(false)
+  })
+
+  test("counts confusion pairs across models, most frequent first", () => {
+    expect(analysis.confusionPairs.map((p) => [p.gold, p.predicted, p.count, p.byModel])).toEqual([
+      ["SUPPORTS", "REFUTES", 3, { a: 2, b: 1 }],
+      ["SUPPORTS", "INVALID", 2, { a: 1, b: 1 }],
+      ["SUPPORTS", "NOT ENOUGH INFO", 1, { b: 1 }],
+    ])
+    expect(analysis.confusionPairs[0].examples.map((e) => [e.datasetId, e.modelId])).toEqual([
+      [1, "a"],
+      [3, "a"],
+    ])
+  })
+
+  test("computes error rates per claim feature over the answered claims", () => {
+    const all = analysis.features.find((f) => f.feature === "all")
+    expect(all?.byModel).toEqual({
+      a: { answered: 4, wrong: 3, errorRate: 0.75 },
+      b: { answered: 3, wrong: 3, errorRate: 1 },
+    })
+    expect(analysis.features.find((f) => f.feature === "negation")?.claims).toBe(4)
+  })
+})
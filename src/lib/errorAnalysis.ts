@@ -0,0 +1,168 @@
+import { isTransportFailure, type ModelEvalItem } from "./evaluate"
+import type { PredictedLabel } from "./labels"
+
+export type ClaimFeature = "negation" | "number" | "date" | "short" | "long"
+
+export const CLAIM_FEATURES = ["negation", "number", "date", "short", "long"] as const satisfies readonly ClaimFeature[]
+
+/** Example claims kept per confusion pair. */
+const EXAMPLES_PER_PAIR = 3
+
+const NEGATION = /\b(?:not|no|never|none|nobody|nothing|neither|nor|without|cannot)\b|n't\b/i
+const NUMBER = /\d|\b(?:two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|dozen|hundred|thousand|million|billion)s?\b/i
+// "may" is a month only next to a day or year ("May 5", "5 May")
+const DATE =
+  /\b(?:january|february|march|april|june|july|august|september|october|november|december|centur(?:y|ies)|decades?)\b|\bmay\s+\d|\b\d{1,2}\s+may\b|\b(?:1\d|20)\d\ds?\b/i
+
+/**
+ * Detects the features of a claim that errors are grouped by: negation,
+ * numbers (digits or number words), dates (month names, years, centuries) and
+ * length (`short` up to 5 words, `long` from 15). Years count as both dates
+ * and numbers.
+ * @param claim - The claim.
+ * @returns Its features, in `CLAIM_FEATURES` order.
+ */
+export function claimFeatures(claim: string): ClaimFeature[] {
+  const words = claim.trim().split(/\s+/).length
+  const has: Record<ClaimFeature, boolean> = {
+    negation: NEGATION.test(claim),
+    number: NUMBER.test(claim),
+    date: DATE.test(claim),
+    short: words <= 5,
+    long: words >= 15,
+  }
+  return CLAIM_FEATURES.filter((f) => has[f])
+}
+
+/**
+ * One model's answer to a claim.
+ */
+export type ModelAnswer = {
+  predicted: PredictedLabel
+  ok: boolean
+  rawText: string
+}
+
+/**
+ * A claim with the answers of every model that answered it.
+ */
+export type ClaimOutcome = {
+  datasetId: number | string
+  claim: string
+  goldLabel: string
+  features: ClaimFeature[]
+  /** Answers by model ID; models with a transport failure or no item are missing. */
+  answers: Record<string, ModelAnswer>
+  /** Models that answered wrongly (invalid answers included). */
+  wrongModels: string[]
+}
+
+/**
+ * A gold label mistaken for another label (or `INVALID`), over all models.
+ */
+export type ConfusionPair = {
+  gold: string
+  predicted: PredictedLabel
+  count: number
+  byModel: Record<string, number>
+  /** A few of the claims, with the answer of one model that made the mistake. */
+  examples: Array<{ datasetId: number | string; claim: string; modelId: string; rawText: string }>
+}
+
+/**
+ * Error rates of the claims with one feature (`all` covers every claim).
+ */
+export type FeatureGroup = {
+  feature: ClaimFeature | "all"
+  claims: number
+  byModel: Record<string, { answered: number; wrong: number; errorRate: number }>
+}
+
+/**
+ * Per-claim view of a run's errors across models.
+ */
+export type ErrorAnalysis = {
+  models: string[]
+  /** Distinct claims answered by at least one model. */
+  claims: number
+  /** Claims answered by every model, all wrongly. */
+  allWrong: ClaimOutcome[]
+  /** Claims on which the answering models predicted different labels (needs two models). */
+  disagreements: ClaimOutcome[]
+  /** Most frequent first. */
+  confusionPairs: ConfusionPair[]
+  features: FeatureGroup[]
+}
+
+/**
+ * Joins the items of all models by `datasetId` and analyzes the errors:
+ * claims every model got wrong, claims the models disagree on, the most
+ * common confusions and error rates by claim feature. Transport failures
+ * are left out, as in the metrics.
+ * @param items - Items per model ID.
+ * @param models - Models to analyze, in display order (default: all of `items`).
+ * @returns The analysis; claims keep the order in which they were first seen.
+ */
+export function analyzeErrors(
+  items: Record<string, ModelEvalItem[]>,
+  models: string[] = Object.keys(items),
+): ErrorAnalysis {
+  const outcomes = new Map<string, ClaimOutcome>()
+  const pairs = new Map<string, ConfusionPair>()
+  for (const modelId of models) {
+    for (const item of items[modelId] ?? []) {
+      if (!item || isTransportFailure(item)) continue
+      const key = String(item.datasetId)
+      let outcome = outcomes.get(key)
+      if (!outcome) {
+        outcome = {
+          datasetId: item.datasetId,
+          claim: item.claim,
+          goldLabel: item.goldLabel,
+          features: claimFeatures(item.claim),
+          answers: {},
+          wrongModels: [],
+        }
+        outcomes.set(key, outcome)
+      }
+      outcome.answers[modelId] = { predicted: item.predictedLabel, ok: item.ok, rawText: item.rawText }
+      if (item.ok) continue
+      outcome.wrongModels.push(modelId)
+
+      const pairKey = `${item.goldLabel}\n${item.predictedLabel}`
+      let pair = pairs.get(pairKey)
+      if (!pair) {
+        pair = { gold: item.goldLabel, predicted: item.predictedLabel, count: 0, byModel: {}, examples: [] }
+        pairs.set(pairKey, pair)
+      }
+      pair.count++
+      pair.byModel[modelId] = (pair.byModel[modelId] ?? 0) + 1
+      if (pair.examples.length < EXAMPLES_PER_PAIR && !pair.examples.some((e) => String(e.datasetId) === key)) {
+        pair.examples.push({ datasetId: item.datasetId, claim: item.claim, modelId, rawText: item.rawText })
+      }
+    }
+  }
+
+  const all = [...outcomes.values()]
+  const features: FeatureGroup[] = (["all", ...CLAIM_FEATURES] as const).map((feature) => {
+    const group = feature === "all" ? all : all.filter((o) => o.features.includes(feature))
+    const byModel: FeatureGroup["byModel"] = {}
+    for (const m of models) {
+      const answered = group.filter((o) => o.answers[m]).length
+      const wrong = group.filter((o) => o.answers[m] && !o.answers[m].ok).length
+      byModel[m] = { answered, wrong, errorRate: answered > 0 ? wrong / answered : 0 }
+    }
+    return { feature, claims: group.length, byModel }
+  })
+
+  return {
+    models,
+    claims: all.length,
+    allWrong: all.filter((o) => o.wrongModels.length === models.length),
+    disagreements: all.filter(
+      (o) => new Set(Object.values(o.answers).map((a) => a.predicted)).size > 1,
+    ),
+    confusionPairs: [...pairs.values()].sort((a, b) => b.count - a.count),
+    features,
+  }
+}
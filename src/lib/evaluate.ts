@@ -1,39 +1,109 @@
 import { generateText } from "ai"
-import { createOpenRouter } from "@openrouter/ai-sdk-provider"
+import { createDefaultProviders, resolveLanguageModel, splitModelId, type ModelProvider } from "./providers"
 import {
+  DEFAULT_RETRY_OPTIONS,
+  DEFAULT_TIMEOUT_MS,
+  classifyError,
+  createRateLimiter,
+  withRetry,
+  type ErrorKind,
+  type RateLimiter,
+  type RetryOptions,
+} from "./retry"
+import {
+  FEVER_LABELS,
   createConfusionMatrix,
   correctFromConfusionMatrix,
   recordPrediction,
   sumConfusionMatrix,
   type ConfusionMatrix,
-  type FeverLabel,
+  type LabelSchema,
+  type ParsePath,
   type PredictedLabel,
-  normalizePredictedLabel,
 } from "./labels"
+import { defaultPromptName, loadPromptTemplate, parseAnswer, renderPrompt, type ResolvedPrompt } from "./prompts"
+import { computeMetrics, type ClassificationMetrics } from "./metrics"
+import { generateStructuredAnswer, type OutputFormat, type ProviderOptions } from "./structured"
+import {
+  LOGPROBS_TOP_K,
+  applyConfidenceInstruction,
+  computeCalibration,
+  extractConfidence,
+  stripConfidenceLines,
+  type CalibrationSummary,
+  type ConfidenceMethod,
+  type ConfidenceSource,
+} from "./calibration"
+import { computeConfidenceIntervals, type ConfidenceIntervals } from "./stats"
+import { summarizeCost, type CostSummary } from "./cost"
+import { createConcurrencyLimiter, runConcurrently, type ConcurrencyLimiter } from "./scheduler"
+import { computeLatencyStats, type LatencyStats } from "./latency"
+import { majorityVote, summarizeVoting, tallyVotes, type SampleVotes, type VotingSummary } from "./voting"
+import {
+  parseCitedEvidence,
+  scoreEvidence,
+  summarizeEvidence,
+  type EvidenceSet,
+  type EvidenceSummary,
+  type ItemEvidenceScore,
+} from "./evidence"
+
+/**
+ * Evaluation mode. `label` asks for a verdict only; `evidence` additionally asks
+ * the model to cite Wikipedia sentences, which are scored against the gold sets.
+ */
+export type EvalMode = "label" | "evidence"
+
+export const EVAL_MODES = ["label", "evidence"] as const satisfies readonly EvalMode[]
 
 export type FeverExample = {
   id: number | string
   claim: string
-  label: FeverLabel
+  /** Gold label, spelled as in the label schema. */
+  label: string
   verifiable?: string
+  evidence?: EvidenceSet[]
 }
 
 export type ModelEvalItem = {
   datasetId: number | string
   exampleHash?: string
   claim: string
-  goldLabel: FeverLabel
+  goldLabel: string
   predictedLabel: PredictedLabel
   rawText: string
   ok: boolean
+  /** Duration of the last attempt, without retries, backoff or rate-limit waits. */
   latencyMs: number
+  /** Time from the first attempt to the answer, retries and waits included. */
+  wallMs?: number
+  /** Wall-clock start of the request (epoch ms); used for throughput. */
+  startedAtMs?: number
   cached?: boolean
   error?: string
+  errorKind?: ErrorKind
+  attempts?: number
+  promptTemplate?: string
+  promptHash?: string
+  /** How the label was extracted; unset for transport failures. */
+  parsePath?: ParsePath
+  /** Confidence in the predicted label, in [0, 1] (see `ConfidenceMethod`). */
+  confidence?: number
+  confidenceSource?: ConfidenceSource
+  /** Per-label probabilities, when the confidence method yields a distribution. */
+  labelProbs?: Partial<Record<string, number>>
+  /** Short justification (structured output only). */
+  rationale?: string
+  evidence?: ItemEvidenceScore
   usage?: {
     promptTokens?: number
     completionTokens?: number
     totalTokens?: number
   }
+  /** Sampling settings the item was generated with; unset for provider defaults. */
+  generation?: GenerationSettings
+  /** Votes when the claim was sampled several times (`--samples`). */
+  samples?: SampleVotes
 }
 
 export type ModelEvalSummary = {
@@ -45,12 +115,82 @@ export type ModelEvalSummary = {
   invalid: number
   accuracy: number
   invalidRate: number
+  metrics: ClassificationMetrics
+  /** Bootstrap confidence intervals; only set on final summaries. */
+  ci?: ConfidenceIntervals
+  /** Items that failed in transport; excluded from `total` and the confusion matrix. */
+  transportErrors: number
+  /** Scored items per parse path; items without a recorded path are not counted. */
+  parsePaths: Record<ParsePath, number>
+  evidence?: EvidenceSummary
+  /** Calibration metrics; set when at least one scored item has a confidence. */
+  calibration?: CalibrationSummary
+  /** Token usage and estimated cost; cached items count as zero spend. */
+  cost?: CostSummary
+  /** Latency and throughput of the requests made in this run (cached items excluded). */
+  latency?: LatencyStats
+  /** Self-consistency voting; set when items were sampled several times. */
+  voting?: VotingSummary
 }
 
 export type RunConfig = {
-  openrouterApiKey: string
+  openrouterApiKey?: string
+  /** Model providers; defaults to OpenRouter + local OpenAI-compatible + mock. */
+  providers?: ModelProvider[]
   models: string[]
+  /** Requests in flight per model. */
   concurrency: number
+  /** Models evaluated at the same time; defaults to all of them. */
+  parallelModels?: number
+  /** Cap on requests in flight across all models; unlimited when omitted. */
+  maxConcurrency?: number
+  mode?: EvalMode
+  /** Prompt template; defaults to the built-in template for the mode and label schema. */
+  prompt?: ResolvedPrompt
+  /** Label schema of the default prompt; a given prompt carries its own. Defaults to FEVER. */
+  labels?: LabelSchema
+  /** Response format; defaults to free-form text. */
+  output?: OutputFormat
+  /** How confidence is elicited; defaults to none. */
+  confidence?: ConfidenceMethod
+  retry?: Partial<RetryOptions>
+  /** Per-request timeout in milliseconds (0 disables it). */
+  timeoutMs?: number
+  /** Per-model request budget; unlimited when omitted. */
+  requestsPerMinute?: number
+  /** Stops the run: in-flight requests finish, no new ones start. */
+  signal?: AbortSignal
+  /** Sampling settings by model ID. */
+  generation?: Record<string, GenerationSettings>
+  /** Samples per claim, combined by majority vote (default 1). */
+  samples?: number
+}
+
+/**
+ * Per-model sampling settings passed to the provider; omitted settings use the
+ * provider's defaults.
+ */
+export type GenerationSettings = {
+  temperature?: number
+  /** Maximum completion tokens. */
+  maxTokens?: number
+  /** Sampling seed, for providers that support one. */
+  seed?: number
+  /** Stop sequences. */
+  stop?: string[]
+}
+
+export type EvaluateOptions = {
+  mode?: EvalMode
+  prompt?: ResolvedPrompt
+  output?: OutputFormat
+  confidence?: ConfidenceMethod
+  retry?: Partial<RetryOptions>
+  timeoutMs?: number
+  rateLimiter?: RateLimiter
+  generation?: GenerationSettings
+  /** Samples per claim, combined by majority vote (default 1). */
+  samples?: number
 }
 
 export type RunProgressEvent =
@@ -74,80 +214,201 @@ export type RunProgressEvent =
       summary: ModelEvalSummary
     }
 
-/**
- * Builds a prompt for evaluating a factual claim using FEVER-style labels.
- * @param claim - The claim to evaluate.
- * @returns The formatted prompt string.
- */
-function buildPrompt(claim: string): string {
-  if (!claim || typeof claim !== "string" || !claim.trim()) {
-    throw new Error("Claim must be a non-empty string")
-  }
-  return [
-    "You are evaluating factual claims using FEVER-style labels.",
-    "Given a claim, output ONLY ONE of these exact labels:",
-    "- SUPPORTS",
-    "- REFUTES",
-    '- NOT ENOUGH INFO',
-    "",
-    "Claim:",
-    claim,
-    "",
-    "Label:",
-  ].join("\n")
-}
-
 /**
  * Computes evaluation summary statistics from a confusion matrix.
  * @param modelId - The model identifier.
  * @param cm - The confusion matrix.
+ * @param items - Optional items evaluated so far, used for evidence scores and calibration.
  * @returns Summary statistics including accuracy and invalid rate.
  */
-function computeSummaryFromConfusion(modelId: string, cm: ConfusionMatrix) {
+export function computeSummaryFromConfusion(
+  modelId: string,
+  cm: ConfusionMatrix,
+  items?: Array<ModelEvalItem | undefined>,
+): Omit<ModelEvalSummary, "items"> {
   const total = sumConfusionMatrix(cm)
   const correct = correctFromConfusionMatrix(cm)
   const invalid = cm.invalid
   const accuracy = total === 0 ? 0 : correct / total
   const invalidRate = total === 0 ? 0 : invalid / total
-  return { modelId, confusion: cm, total, correct, invalid, accuracy, invalidRate }
+  const transportErrors = items ? items.filter((i) => i && isTransportFailure(i)).length : 0
+  const parsePaths: Record<ParsePath, number> = { json: 0, exact: 0, fuzzy: 0, invalid: 0 }
+  for (const i of items ?? []) {
+    if (i?.parsePath && !isTransportFailure(i)) parsePaths[i.parsePath]++
+  }
+  const evidence = items ? summarizeEvidence(items.filter((i) => !i || !isTransportFailure(i))) : undefined
+  return {
+    modelId,
+    confusion: cm,
+    total,
+    correct,
+    invalid,
+    accuracy,
+    invalidRate,
+    metrics: computeMetrics(cm),
+    transportErrors,
+    parsePaths,
+    evidence,
+    calibration: items ? computeCalibration(items, { labels: cm.labels }) : undefined,
+    cost: items ? summarizeCost(modelId, items) : undefined,
+    latency: items ? computeLatencyStats(items) : undefined,
+    voting: items ? summarizeVoting(items) : undefined,
+  }
 }
 
 /**
- * Evaluates a single example using the specified model.
- * @param openrouterApiKey - The OpenRouter API key.
+ * Builds a final summary (with confidence intervals) from a list of items,
+ * e.g. items read back from a run's raw JSONL file.
  * @param modelId - The model identifier.
+ * @param items - Evaluated items (may be sparse).
+ * @param labels - Labels of the run's label schema (default FEVER).
+ * @returns Model summary including the items.
+ */
+export function summarizeItems(
+  modelId: string,
+  items: Array<ModelEvalItem | undefined>,
+  labels: readonly string[] = FEVER_LABELS,
+): ModelEvalSummary {
+  const cm = createConfusionMatrix(labels)
+  for (const item of items) if (item) recordItem(cm, item)
+  return {
+    ...computeSummaryFromConfusion(modelId, cm, items),
+    ci: computeConfidenceIntervals(items, {}, labels),
+    items: items as ModelEvalItem[],
+  }
+}
+
+/**
+ * Returns true if the item failed in transport (rate limit, network, timeout),
+ * meaning the model never produced an answer that could be scored.
+ * @param item - The evaluated item.
+ * @returns Whether the item is a transport failure.
+ */
+export function isTransportFailure(item: ModelEvalItem): boolean {
+  return item.errorKind === "transport"
+}
+
+/**
+ * Records an item in a confusion matrix unless it is a transport failure.
+ * @param cm - The confusion matrix.
+ * @param item - The evaluated item.
+ */
+export function recordItem(cm: ConfusionMatrix, item: ModelEvalItem) {
+  if (isTransportFailure(item)) return
+  recordPrediction(cm, item.goldLabel, item.predictedLabel)
+}
+
+/**
+ * Evaluates a single example using the specified model.
+ * @param providers - Model providers used to resolve the model ID.
+ * @param modelId - The model identifier (optionally provider-prefixed).
  * @param ex - The FEVER example to evaluate.
+ * @param opts - Evaluation options (mode, prompt, output format, confidence method, retries, timeout, rate limiter, sampling settings, samples).
  * @returns Evaluation result with predicted label and metadata.
  */
 export async function evaluateExample(
-  openrouterApiKey: string,
+  providers: ModelProvider[],
   modelId: string,
   ex: FeverExample,
+  opts: EvaluateOptions = {},
 ): Promise<ModelEvalItem> {
-  if (!openrouterApiKey || typeof openrouterApiKey !== "string") {
-    throw new Error("OpenRouter API key must be a non-empty string")
+  if (!Array.isArray(providers) || providers.length === 0) {
+    throw new Error("At least one model provider must be provided")
   }
   if (!modelId || typeof modelId !== "string") {
     throw new Error("Model ID must be a non-empty string")
   }
+  const samples = opts.samples ?? 1
+  if (!Number.isInteger(samples) || samples < 1) {
+    throw new Error("Samples must be a positive integer")
+  }
+  if (opts.output === "structured" && opts.generation?.stop?.length) {
+    throw new Error("Stop sequences need text output (structured answers can't be cut short)")
+  }
+  if (samples > 1) return evaluateSamples(providers, modelId, ex, opts, samples)
 
-  const openrouter = createOpenRouter({ apiKey: openrouterApiKey })
+  const mode = opts.mode ?? "label"
+  const output = opts.output ?? "text"
+  const confidenceMethod = opts.confidence ?? "none"
+  const retry = { ...DEFAULT_RETRY_OPTIONS, ...opts.retry }
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const prompt = opts.prompt ?? (await loadPromptTemplate(defaultPromptName(mode)))
+  const rendered = renderPrompt(prompt, ex)
+  // Structured answers carry their own confidence field
+  const { system, messages } =
+    output === "text" ? applyConfidenceInstruction(rendered, confidenceMethod, prompt.labels.labels) : rendered
+  // Logprobs are requested through the provider's passthrough options
+  const providerOptions: ProviderOptions | undefined =
+    confidenceMethod === "logprobs"
+      ? { [splitModelId(modelId).provider]: { logprobs: true, top_logprobs: LOGPROBS_TOP_K } }
+      : undefined
+  const promptMeta = { promptTemplate: prompt.template.name, promptHash: prompt.hash }
+  const generation = opts.generation
+  const sampling = {
+    temperature: generation?.temperature,
+    maxOutputTokens: generation?.maxTokens,
+    seed: generation?.seed,
+    stopSequences: generation?.stop,
+  }
+  let attempts = 0
+  const startedAtMs = Date.now()
   const start = performance.now()
+  let attemptStart = start
   try {
-    const result = await generateText({
-      model: openrouter.chat(modelId),
-      prompt: buildPrompt(ex.claim),
-    })
+    // Inside the try so an unknown model ID fails its items, not the whole run
+    const model = resolveLanguageModel(modelId, providers)
+    const result = await withRetry(
+      async (abortSignal) => {
+        attempts++
+        attemptStart = performance.now()
+        if (output === "structured") {
+          return generateStructuredAnswer({
+            model,
+            system,
+            messages,
+            mode,
+            labels: prompt.labels,
+            abortSignal,
+            providerOptions,
+            temperature: sampling.temperature,
+            maxOutputTokens: sampling.maxOutputTokens,
+            seed: sampling.seed,
+          })
+        }
+        const r = await generateText({
+          model,
+          system,
+          messages,
+          maxRetries: 0,
+          abortSignal,
+          providerOptions,
+          ...sampling,
+        })
+        return { answer: undefined, text: r.text, usage: r.usage, responseBody: r.response.body }
+      },
+      { retry, timeoutMs, beforeRetry: opts.rateLimiter?.acquire },
+    )
     const rawText = result.text ?? ""
-    const predictedLabel = normalizePredictedLabel(rawText)
-    const latencyMs = performance.now() - start
-    
-    // Extract usage information safely
+    // Structured answers that failed validation fall back to text parsing
+    const parsed = result.answer
+      ? { label: result.answer.label, path: "json" as const }
+      : parseAnswer(stripConfidenceLines(rawText), prompt.template.answer, prompt.labels)
+    const predictedLabel = parsed.label
+    const ok = predictedLabel === ex.label
+    const evidence =
+      mode === "evidence"
+        ? scoreEvidence(result.answer?.evidence ?? parseCitedEvidence(rawText), ex.evidence ?? [], ok)
+        : undefined
+    const end = performance.now()
+    const latencyMs = end - attemptStart
+    const wallMs = end - start
+
+    // AI SDK v5 reports input/output tokens; items keep the prompt/completion names
     const usage = result.usage
       ? {
-          promptTokens: (result.usage as { promptTokens?: number }).promptTokens,
-          completionTokens: (result.usage as { completionTokens?: number }).completionTokens,
-          totalTokens: (result.usage as { totalTokens?: number }).totalTokens,
+          promptTokens: result.usage.inputTokens,
+          completionTokens: result.usage.outputTokens,
+          totalTokens: result.usage.totalTokens,
         }
       : undefined
 
@@ -157,12 +418,31 @@ export async function evaluateExample(
       goldLabel: ex.label,
       predictedLabel,
       rawText,
-      ok: predictedLabel === ex.label,
+      ok,
       latencyMs,
+      wallMs,
+      startedAtMs,
+      attempts,
+      ...promptMeta,
+      parsePath: parsed.path,
+      ...extractConfidence({
+        method: confidenceMethod,
+        rawText,
+        label: predictedLabel,
+        structuredConfidence: result.answer?.confidence,
+        responseBody: result.responseBody,
+        labels: prompt.labels,
+      }),
+      rationale: result.answer?.rationale,
       usage,
+      evidence,
+      generation,
     }
   } catch (err) {
-    const latencyMs = performance.now() - start
+    const end = performance.now()
+    const latencyMs = end - attemptStart
+    const wallMs = end - start
+    const errorKind = classifyError(err).kind
     return {
       datasetId: ex.id,
       claim: ex.claim,
@@ -171,22 +451,98 @@ export async function evaluateExample(
       rawText: "",
       ok: false,
       latencyMs,
+      wallMs,
+      startedAtMs,
+      attempts,
+      ...promptMeta,
+      parsePath: errorKind === "model" ? "invalid" : undefined,
       error: err instanceof Error ? err.message : String(err),
+      errorKind,
+      generation,
+      evidence:
+        mode === "evidence" && errorKind === "model"
+          ? scoreEvidence([], ex.evidence ?? [], false)
+          : undefined,
     }
   }
 }
 
+/**
+ * Evaluates an example several times and takes the majority vote
+ * (self-consistency). With a seed, sample i uses `seed + i` so samples differ
+ * but stay reproducible. The item keeps the answer of the first sample that
+ * voted for the winner, with latency, attempts and usage summed over samples.
+ * @param providers - Model providers used to resolve the model ID.
+ * @param modelId - The model identifier.
+ * @param ex - The FEVER example to evaluate.
+ * @param opts - Evaluation options.
+ * @param n - Number of samples.
+ * @returns The voted item, or a transport failure if no sample was answered.
+ */
+async function evaluateSamples(
+  providers: ModelProvider[],
+  modelId: string,
+  ex: FeverExample,
+  opts: EvaluateOptions,
+  n: number,
+): Promise<ModelEvalItem> {
+  const startedAtMs = Date.now()
+  const seed = opts.generation?.seed
+  const runs: ModelEvalItem[] = []
+  for (let i = 0; i < n; i++) {
+    // The pool acquired the first request's rate-limit slot
+    if (i > 0) await opts.rateLimiter?.acquire()
+    const generation = seed === undefined ? opts.generation : { ...opts.generation, seed: seed + i }
+    runs.push(await evaluateExample(providers, modelId, ex, { ...opts, generation, samples: 1 }))
+  }
+
+  const answered = runs.filter((r) => !isTransportFailure(r))
+  if (answered.length === 0) return { ...runs[runs.length - 1], generation: opts.generation }
+  const votes = tallyVotes(
+    answered.map((r) => r.predictedLabel),
+    runs.length - answered.length,
+  )
+  const winner = majorityVote(votes.labels)
+  const chosen = answered.find((r) => r.predictedLabel === winner) ?? answered[0]
+  const sum = (f: (r: ModelEvalItem) => number | undefined) => runs.reduce((a, r) => a + (f(r) ?? 0), 0)
+  const withUsage = runs.some((r) => r.usage)
+
+  return {
+    ...chosen,
+    latencyMs: sum((r) => r.latencyMs),
+    wallMs: Date.now() - startedAtMs,
+    startedAtMs,
+    attempts: sum((r) => r.attempts),
+    usage: withUsage
+      ? {
+          promptTokens: sum((r) => r.usage?.promptTokens),
+          completionTokens: sum((r) => r.usage?.completionTokens),
+          totalTokens: sum((r) => r.usage?.totalTokens),
+        }
+      : undefined,
+    generation: opts.generation,
+    samples: votes,
+    // Without an elicited confidence, the vote agreement is the confidence
+    ...(chosen.confidence === undefined ? { confidence: votes.agreement, confidenceSource: "vote" as const } : {}),
+  }
+}
+
 /**
  * Executes tasks in parallel with a concurrency limit.
  * @param concurrency - Maximum number of concurrent tasks.
  * @param tasks - Array of task functions to execute.
- * @param onItem - Callback invoked when each task completes.
- * @returns Array of results in the same order as tasks.
+ * @param onItem - Callback invoked (and awaited) when each task completes.
+ * @param opts - Optional pool settings.
+ * @param opts.rateLimiter - Limiter awaited before each task starts.
+ * @param opts.limiter - Shared concurrency limiter; a slot is held while a task runs.
+ * @param opts.signal - When aborted, no new tasks start; running tasks finish.
+ * @returns Array of results in the same order as tasks (sparse if stopped early).
  */
 async function promisePool<T>(
   concurrency: number,
   tasks: Array<() => Promise<T>>,
-  onItem: (value: T, index: number) => void,
+  onItem: (value: T, index: number) => void | Promise<void>,
+  opts: { rateLimiter?: RateLimiter; limiter?: ConcurrencyLimiter; signal?: AbortSignal } = {},
 ): Promise<T[]> {
   if (concurrency < 1) {
     throw new Error("Concurrency must be at least 1")
@@ -200,11 +556,24 @@ async function promisePool<T>(
 
   async function worker() {
     while (true) {
+      if (opts.signal?.aborted) return
       const i = next++
       if (i >= tasks.length) return
-      const v = await tasks[i]()
+      await opts.rateLimiter?.acquire()
+      if (opts.signal?.aborted) return
+      const release = await opts.limiter?.acquire()
+      if (opts.signal?.aborted) {
+        release?.()
+        return
+      }
+      let v: T
+      try {
+        v = await tasks[i]()
+      } finally {
+        release?.()
+      }
       results[i] = v
-      onItem(v, i)
+      await onItem(v, i)
     }
   }
 
@@ -216,21 +585,43 @@ async function promisePool<T>(
 /**
  * Evaluates multiple examples for a single model with concurrency control.
  * @param params - Evaluation parameters.
- * @param params.openrouterApiKey - The OpenRouter API key.
+ * @param params.providers - Model providers used to resolve the model ID.
  * @param params.modelId - The model identifier.
  * @param params.examples - Array of examples to evaluate.
  * @param params.concurrency - Maximum concurrent requests.
- * @param onItem - Optional callback invoked when each example completes.
- * @returns Array of evaluation results.
+ * @param params.limiter - Optional limiter shared with other models (global cap).
+ * @param params.mode - Evaluation mode (defaults to label-only).
+ * @param params.prompt - Prompt template (defaults to the mode's built-in template).
+ * @param params.output - Response format (defaults to free-form text).
+ * @param params.confidence - Confidence elicitation method (defaults to none).
+ * @param params.retry - Retry/backoff options for transport failures.
+ * @param params.timeoutMs - Per-request timeout in milliseconds.
+ * @param params.requestsPerMinute - Optional request budget for this model.
+ * @param params.signal - Optional stop signal; in-flight requests are drained.
+ * @param params.generation - Optional sampling settings for this model.
+ * @param params.samples - Samples per claim, combined by majority vote (default 1).
+ * @param onItem - Optional callback invoked (and awaited) when each example completes.
+ * @returns Array of evaluation results (sparse if stopped early).
  */
 export async function evaluateModelExamples(
   params: {
-    openrouterApiKey: string
+    providers: ModelProvider[]
     modelId: string
     examples: FeverExample[]
     concurrency: number
+    limiter?: ConcurrencyLimiter
+    mode?: EvalMode
+    prompt?: ResolvedPrompt
+    output?: OutputFormat
+    confidence?: ConfidenceMethod
+    retry?: Partial<RetryOptions>
+    timeoutMs?: number
+    requestsPerMinute?: number
+    signal?: AbortSignal
+    generation?: GenerationSettings
+    samples?: number
   },
-  onItem?: (item: ModelEvalItem, index: number) => void,
+  onItem?: (item: ModelEvalItem, index: number) => void | Promise<void>,
 ): Promise<ModelEvalItem[]> {
   if (!Array.isArray(params.examples) || params.examples.length === 0) {
     throw new Error("Examples must be a non-empty array")
@@ -239,28 +630,113 @@ export async function evaluateModelExamples(
     throw new Error("Concurrency must be at least 1")
   }
 
+  const prompt = params.prompt ?? (await loadPromptTemplate(defaultPromptName(params.mode ?? "label")))
+  const rateLimiter = params.requestsPerMinute
+    ? createRateLimiter(params.requestsPerMinute)
+    : undefined
   const tasks = params.examples.map(
-    (ex) => () => evaluateExample(params.openrouterApiKey, params.modelId, ex),
+    (ex) => () =>
+      evaluateExample(params.providers, params.modelId, ex, {
+        mode: params.mode,
+        prompt,
+        output: params.output,
+        confidence: params.confidence,
+        retry: params.retry,
+        timeoutMs: params.timeoutMs,
+        rateLimiter,
+        generation: params.generation,
+        samples: params.samples,
+      }),
   )
   const items: ModelEvalItem[] = []
-  await promisePool(params.concurrency, tasks, (item, idx) => {
-    items[idx] = item
-    onItem?.(item, idx)
-  })
+  await promisePool(
+    params.concurrency,
+    tasks,
+    async (item, idx) => {
+      items[idx] = item
+      await onItem?.(item, idx)
+    },
+    { rateLimiter, limiter: params.limiter, signal: params.signal },
+  )
   return items
 }
 
 /**
- * Evaluates multiple models on a set of examples.
+ * Evaluates one model over all examples, starting from items that are already
+ * known (e.g. cache hits or checkpoints of an interrupted run). Known items are
+ * replayed as progress events; only the remaining examples are requested.
+ * @param params - Same parameters as `evaluateModelExamples`, plus:
+ * @param params.known - Items already known, by example index (may be sparse).
+ * @param params.onNewItem - Optional callback invoked (and awaited) for each newly evaluated item before its progress event.
+ * @param onProgress - Optional progress callback (awaited).
+ * @returns The model summary (partial if stopped early).
+ */
+export async function evaluateModel(
+  params: Parameters<typeof evaluateModelExamples>[0] & {
+    known?: Array<ModelEvalItem | undefined>
+    onNewItem?: (item: ModelEvalItem, index: number) => void | Promise<void>
+  },
+  onProgress?: (ev: RunProgressEvent) => void | Promise<void>,
+): Promise<ModelEvalSummary> {
+  const { known, onNewItem, ...rest } = params
+  const { modelId, examples } = rest
+  const items: ModelEvalItem[] = new Array(examples.length)
+  const cm = createConfusionMatrix(rest.prompt?.labels.labels)
+  let completed = 0
+
+  const record = async (item: ModelEvalItem, idx: number) => {
+    items[idx] = item
+    recordItem(cm, item)
+    completed++
+    await onProgress?.({
+      type: "modelItem",
+      modelId,
+      index: idx,
+      completed,
+      totalExamples: examples.length,
+      item,
+      summarySoFar: computeSummaryFromConfusion(modelId, cm, items),
+    })
+  }
+
+  await onProgress?.({ type: "modelStart", modelId, totalExamples: examples.length })
+
+  const missing: number[] = []
+  for (let i = 0; i < examples.length; i++) {
+    const item = known?.[i]
+    if (item) await record(item, i)
+    else missing.push(i)
+  }
+
+  if (missing.length > 0 && !rest.signal?.aborted) {
+    await evaluateModelExamples({ ...rest, examples: missing.map((i) => examples[i]) }, async (item, localIdx) => {
+      const idx = missing[localIdx]
+      await onNewItem?.(item, idx)
+      await record(item, idx)
+    })
+  }
+
+  const summary = {
+    ...computeSummaryFromConfusion(modelId, cm, items),
+    ci: computeConfidenceIntervals(items, {}, cm.labels),
+    items,
+  }
+  await onProgress?.({ type: "modelDone", modelId, summary })
+  return summary
+}
+
+/**
+ * Evaluates multiple models on a set of examples. Up to `cfg.parallelModels`
+ * models run at once; progress events of different models interleave.
  * @param cfg - Run configuration.
  * @param examples - Array of examples to evaluate.
  * @param onProgress - Optional callback for progress events.
- * @returns Array of evaluation summaries, one per model.
+ * @returns Array of evaluation summaries in model order (fewer if stopped via `cfg.signal`).
  */
 export async function evaluateModels(
   cfg: RunConfig,
   examples: FeverExample[],
-  onProgress?: (ev: RunProgressEvent) => void,
+  onProgress?: (ev: RunProgressEvent) => void | Promise<void>,
 ): Promise<ModelEvalSummary[]> {
   if (!cfg.models || cfg.models.length === 0) {
     throw new Error("At least one model must be specified")
@@ -271,49 +747,47 @@ export async function evaluateModels(
   if (cfg.concurrency < 1) {
     throw new Error("Concurrency must be at least 1")
   }
+  const parallelModels = cfg.parallelModels ?? cfg.models.length
+  if (!Number.isInteger(parallelModels) || parallelModels < 1) {
+    throw new Error("Parallel models must be a positive integer")
+  }
 
-  const summaries: ModelEvalSummary[] = []
-
-  for (const modelId of cfg.models) {
-    onProgress?.({ type: "modelStart", modelId, totalExamples: examples.length })
-
-    const cm = createConfusionMatrix()
-    let completed = 0
+  if (cfg.prompt && cfg.labels && cfg.prompt.labels.name !== cfg.labels.name) {
+    throw new Error(`The prompt parses ${cfg.prompt.labels.name} labels, not ${cfg.labels.name} labels`)
+  }
+  const prompt =
+    cfg.prompt ?? (await loadPromptTemplate(defaultPromptName(cfg.mode ?? "label", cfg.labels), {}, cfg.labels))
+  const providers =
+    cfg.providers ?? createDefaultProviders({ openrouterApiKey: cfg.openrouterApiKey, labels: prompt.labels })
+  const limiter = cfg.maxConcurrency ? createConcurrencyLimiter(cfg.maxConcurrency) : undefined
+  const summaries: ModelEvalSummary[] = new Array(cfg.models.length)
 
-    const items: ModelEvalItem[] = []
-    await evaluateModelExamples(
+  const runModel = async (modelId: string, modelIdx: number) => {
+    summaries[modelIdx] = await evaluateModel(
       {
-        openrouterApiKey: cfg.openrouterApiKey,
+        providers,
         modelId,
         examples,
         concurrency: cfg.concurrency,
+        limiter,
+        mode: cfg.mode,
+        prompt,
+        output: cfg.output,
+        confidence: cfg.confidence,
+        retry: cfg.retry,
+        timeoutMs: cfg.timeoutMs,
+        requestsPerMinute: cfg.requestsPerMinute,
+        signal: cfg.signal,
+        generation: cfg.generation?.[modelId],
+        samples: cfg.samples,
       },
-      (item, idx) => {
-        items[idx] = item
-        recordPrediction(cm, item.goldLabel, item.predictedLabel)
-        const summarySoFar = computeSummaryFromConfusion(modelId, cm)
-        completed++
-        onProgress?.({
-          type: "modelItem",
-          modelId,
-          index: idx,
-          completed,
-          totalExamples: examples.length,
-          item,
-          summarySoFar,
-        })
-      },
+      onProgress,
     )
-
-    const summary = {
-      ...computeSummaryFromConfusion(modelId, cm),
-      items,
-    }
-    onProgress?.({ type: "modelDone", modelId, summary })
-    summaries.push(summary)
   }
 
-  return summaries
+  // Stopped: running models end with partial summaries and the rest are skipped
+  await runConcurrently(cfg.models, parallelModels, runModel, { signal: cfg.signal })
+  return summaries.filter(Boolean)
 }
 
 
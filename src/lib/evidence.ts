@@ -0,0 +1,204 @@
+import type { ModelEvalItem } from "./evaluate"
+
+/**
+ * A single Wikipedia sentence reference: page title plus zero-based sentence id.
+ */
+export type EvidenceRef = {
+  page: string
+  sentence: number
+}
+
+/**
+ * One complete gold evidence set. FEVER considers a claim verified when every
+ * sentence of at least one set has been retrieved.
+ */
+export type EvidenceSet = EvidenceRef[]
+
+/**
+ * Evidence scores for a single evaluated example.
+ * Precision/recall/F1 are undefined when the example has no gold evidence (NEI).
+ */
+export type ItemEvidenceScore = {
+  cited: EvidenceRef[]
+  precision?: number
+  recall?: number
+  f1?: number
+  fullSetCited: boolean
+  strict: boolean
+}
+
+/**
+ * Evidence scores aggregated over all items of a model.
+ */
+export type EvidenceSummary = {
+  scored: number
+  precision: number
+  recall: number
+  f1: number
+  strictCorrect: number
+  strictScore: number
+}
+
+/**
+ * Parses the raw FEVER `evidence` field into evidence sets.
+ * FEVER stores each set as `[annotationId, evidenceId, page, sentenceId]` tuples;
+ * NEI rows use `null` pages and are dropped.
+ * @param raw - The raw `evidence` value from a dataset row.
+ * @returns Array of evidence sets (empty if the row has no usable evidence).
+ */
+export function parseFeverEvidence(raw: unknown): EvidenceSet[] {
+  if (!Array.isArray(raw)) return []
+  const sets: EvidenceSet[] = []
+  for (const group of raw) {
+    if (!Array.isArray(group)) continue
+    const set: EvidenceSet = []
+    for (const tuple of group) {
+      if (!Array.isArray(tuple) || tuple.length < 4) continue
+      const page = tuple[2]
+      const sentence = tuple[3]
+      if (typeof page !== "string" || !page) continue
+      if (typeof sentence !== "number" || !Number.isInteger(sentence)) continue
+      set.push({ page, sentence })
+    }
+    if (set.length > 0) sets.push(set)
+  }
+  return sets
+}
+
+/**
+ * Normalizes a Wikipedia page title to FEVER's canonical form so model citations
+ * like "Barack Obama (politician)" match "Barack_Obama_-LRB-politician-RRB-".
+ * @param title - The page title to normalize.
+ * @returns Normalized, case-folded title key.
+ */
+export function normalizePageTitle(title: string): string {
+  return title
+    .trim()
+    .replace(/\(/g, "-LRB-")
+    .replace(/\)/g, "-RRB-")
+    .replace(/\[/g, "-LSB-")
+    .replace(/\]/g, "-RSB-")
+    .replace(/:/g, "-COLON-")
+    .replace(/\s+/g, "_")
+    .toLowerCase()
+}
+
+/**
+ * Builds a comparable key for an evidence reference.
+ * @param ref - The evidence reference.
+ * @returns Key string combining normalized page and sentence id.
+ */
+function refKey(ref: EvidenceRef): string {
+  return `${normalizePageTitle(ref.page)}#${ref.sentence}`
+}
+
+/**
+ * Extracts cited evidence from a model response.
+ * Expects lines of the form `EVIDENCE: <page title> | <sentence id>`.
+ * @param rawText - The raw model output.
+ * @returns De-duplicated list of cited evidence references.
+ */
+export function parseCitedEvidence(rawText: string): EvidenceRef[] {
+  const cited: EvidenceRef[] = []
+  const seen = new Set<string>()
+  for (const line of rawText.split(/\r?\n/)) {
+    const m = line.match(/^\s*[-*]?\s*EVIDENCE\s*:\s*(.+?)\s*\|\s*(\d+)\s*$/i)
+    if (!m) continue
+    const ref = { page: m[1].trim(), sentence: Number.parseInt(m[2], 10) }
+    const key = refKey(ref)
+    if (seen.has(key)) continue
+    seen.add(key)
+    cited.push(ref)
+  }
+  return cited
+}
+
+/**
+ * Extracts the label portion of an evidence-mode response.
+ * Prefers an explicit `LABEL:` line and otherwise strips the evidence lines.
+ * @param rawText - The raw model output.
+ * @returns Text to pass to the label normalizer.
+ */
+export function extractEvidenceModeLabelText(rawText: string): string {
+  const lines = rawText.split(/\r?\n/)
+  for (const line of lines) {
+    const m = line.match(/^\s*LABEL\s*:\s*(.+?)\s*$/i)
+    if (m) return m[1]
+  }
+  return lines.filter((l) => !/^\s*[-*]?\s*EVIDENCE\s*:/i.test(l)).join("\n")
+}
+
+/**
+ * Scores cited evidence against the gold evidence sets.
+ * Precision counts citations found in any gold set; recall is the best coverage
+ * of a single gold set. The strict (FEVER) score requires a correct label and,
+ * for verifiable claims, at least one fully cited gold set.
+ * @param cited - Evidence cited by the model.
+ * @param gold - Gold evidence sets for the example.
+ * @param labelCorrect - Whether the predicted label matched the gold label.
+ * @returns Per-example evidence scores.
+ */
+export function scoreEvidence(
+  cited: EvidenceRef[],
+  gold: EvidenceSet[],
+  labelCorrect: boolean,
+): ItemEvidenceScore {
+  if (gold.length === 0) {
+    return { cited, fullSetCited: false, strict: labelCorrect }
+  }
+
+  const citedKeys = new Set(cited.map(refKey))
+  const goldKeys = new Set(gold.flatMap((set) => set.map(refKey)))
+
+  let hits = 0
+  for (const k of citedKeys) if (goldKeys.has(k)) hits++
+  const precision = citedKeys.size === 0 ? 0 : hits / citedKeys.size
+
+  let recall = 0
+  for (const set of gold) {
+    const keys = new Set(set.map(refKey))
+    let covered = 0
+    for (const k of keys) if (citedKeys.has(k)) covered++
+    recall = Math.max(recall, covered / keys.size)
+  }
+
+  const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall)
+  const fullSetCited = recall === 1
+  return { cited, precision, recall, f1, fullSetCited, strict: labelCorrect && fullSetCited }
+}
+
+/**
+ * Aggregates per-item evidence scores into a model-level summary.
+ * Precision/recall/F1 are averaged over items with gold evidence; the strict
+ * score is computed over all items that carry an evidence score.
+ * @param items - Evaluated items (items without evidence scores are ignored).
+ * @returns Evidence summary, or undefined if no item was scored in evidence mode.
+ */
+export function summarizeEvidence(items: Array<ModelEvalItem | undefined>): EvidenceSummary | undefined {
+  let withScore = 0
+  let scored = 0
+  let precision = 0
+  let recall = 0
+  let f1 = 0
+  let strictCorrect = 0
+  for (const item of items) {
+    const ev = item?.evidence
+    if (!ev) continue
+    withScore++
+    if (ev.strict) strictCorrect++
+    if (ev.precision === undefined || ev.recall === undefined || ev.f1 === undefined) continue
+    scored++
+    precision += ev.precision
+    recall += ev.recall
+    f1 += ev.f1
+  }
+  if (withScore === 0) return undefined
+  return {
+    scored,
+    precision: scored === 0 ? 0 : precision / scored,
+    recall: scored === 0 ? 0 : recall / scored,
+    f1: scored === 0 ? 0 : f1 / scored,
+    strictCorrect,
+    strictScore: strictCorrect / withScore,
+  }
+}
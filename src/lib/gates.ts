@@ -0,0 +1,84 @@
+import type { ModelEvalSummary } from "./evaluate"
+
+/**
+ * Process exit codes of a benchmark run, for CI gating.
+ */
+export const EXIT_CODES = {
+  /** Run completed and every threshold passed. */
+  ok: 0,
+  /** Invalid options or the run failed. */
+  error: 1,
+  /** A model missed a threshold (`--min-accuracy`, `--max-invalid-rate`). */
+  thresholdFailed: 2,
+  /** The run was interrupted or stopped by a budget; its results are partial. */
+  incomplete: 3,
+} as const
+
+export type QualityThresholds = {
+  /** Minimum accuracy (0-1) every model must reach. */
+  minAccuracy?: number
+  /** Maximum invalid-prediction rate (0-1) any model may have. */
+  maxInvalidRate?: number
+}
+
+export type ThresholdFailure = {
+  modelId: string
+  metric: "accuracy" | "invalidRate"
+  value: number
+  threshold: number
+}
+
+/**
+ * Checks model summaries against quality thresholds.
+ * @param summaries - Model summaries.
+ * @param thresholds - Thresholds; omitted thresholds always pass.
+ * @returns One failure per model and missed threshold (empty if all passed).
+ * @throws Error if a threshold is outside [0, 1].
+ */
+export function checkThresholds(
+  summaries: Array<Pick<ModelEvalSummary, "modelId" | "accuracy" | "invalidRate">>,
+  thresholds: QualityThresholds,
+): ThresholdFailure[] {
+  for (const [name, v] of Object.entries(thresholds)) {
+    if (v !== undefined && !(v >= 0 && v <= 1)) {
+      throw new Error(`Threshold ${name} must be between 0 and 1`)
+    }
+  }
+  const failures: ThresholdFailure[] = []
+  for (const s of summaries) {
+    if (thresholds.minAccuracy !== undefined && s.accuracy < thresholds.minAccuracy) {
+      failures.push({ modelId: s.modelId, metric: "accuracy", value: s.accuracy, threshold: thresholds.minAccuracy })
+    }
+    if (thresholds.maxInvalidRate !== undefined && s.invalidRate > thresholds.maxInvalidRate) {
+      failures.push({
+        modelId: s.modelId,
+        metric: "invalidRate",
+        value: s.invalidRate,
+        threshold: thresholds.maxInvalidRate,
+      })
+    }
+  }
+  return failures
+}
+
+/**
+ * Describes a threshold failure for logs and the live UI.
+ * @param failure - The failure.
+ * @returns E.g. "openai/gpt-4o-mini: accuracy 71.0% < 80.0%".
+ */
+export function formatThresholdFailure(failure: ThresholdFailure): string {
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`
+  return failure.metric === "accuracy"
+    ? `${failure.modelId}: accuracy ${pct(failure.value)} < ${pct(failure.threshold)}`
+    : `${failure.modelId}: invalid rate ${pct(failure.value)} > ${pct(failure.threshold)}`
+}
+
+/**
+ * Picks the exit code of a finished run.
+ * @param result - Whether the run was interrupted and the threshold failures.
+ * @returns An `EXIT_CODES` value.
+ */
+export function exitCodeFor(result: { interrupted: boolean; failures: ThresholdFailure[] }): number {
+  if (result.interrupted) return EXIT_CODES.incomplete
+  return result.failures.length > 0 ? EXIT_CODES.thresholdFailed : EXIT_CODES.ok
+}
@@ -0,0 +1,496 @@
+import { formatUsd } from "./cost"
+import { FEVER_LABELS } from "./labels"
+import { formatMs } from "./latency"
+import type { ModelEvalItem, ModelEvalSummary } from "./evaluate"
+import { isTransportFailure } from "./evaluate"
+import type { RunReportMeta } from "./report"
+
+/**
+ * Escapes text for inclusion in HTML.
+ * @param s - Raw text.
+ * @returns Escaped text.
+ */
+export function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+/**
+ * Returns the HTML report path written next to a markdown report.
+ * @param mdPath - Markdown report path.
+ * @returns The path with its `.md` extension replaced by `.html`.
+ */
+export function htmlPathFor(mdPath: string): string {
+  if (!mdPath || typeof mdPath !== "string") {
+    throw new Error("Path must be a non-empty string")
+  }
+  return `${mdPath.replace(/\.md$/i, "")}.html`
+}
+
+/**
+ * Serializes data for an inline `<script type="application/json">` block.
+ * `<` is escaped so claims or raw model output can't close the script tag.
+ * @param data - The data.
+ * @returns Safe JSON text.
+ */
+function inlineJson(data: unknown): string {
+  return JSON.stringify(data).replace(/</g, "\\u003c").replace(/\u2028/g, "\\u2028").replace(/\u2029/g, "\\u2029")
+}
+
+/**
+ * Formats a fraction as a percentage with one decimal place.
+ * @param x - The fraction.
+ * @returns Percentage string.
+ */
+function pct(x: number): string {
+  if (typeof x !== "number" || isNaN(x)) return "0.0%"
+  return `${(x * 100).toFixed(1)}%`
+}
+
+/**
+ * One model's answer to an example, as embedded in the page.
+ */
+type HtmlPrediction = {
+  label: string
+  ok: boolean
+  cached: boolean
+  rawText: string
+  error?: string
+  latencyMs: number
+  confidence?: number
+  parsePath?: string
+  rationale?: string
+}
+
+type HtmlExample = {
+  id: string
+  claim: string
+  gold: string
+  /** Aligned with the model list; null when the model has no item for the example. */
+  preds: Array<HtmlPrediction | null>
+}
+
+/**
+ * Joins the items of every model on `datasetId`, in first-seen order.
+ * @param summaries - Final per-model summaries.
+ * @returns One entry per example with every model's prediction.
+ */
+function collectExamples(summaries: ModelEvalSummary[]): HtmlExample[] {
+  const byId = new Map<string, HtmlExample>()
+  summaries.forEach((s, m) => {
+    for (const item of s.items) {
+      if (!item) continue
+      const id = String(item.datasetId)
+      let ex = byId.get(id)
+      if (!ex) {
+        ex = { id, claim: item.claim, gold: item.goldLabel, preds: summaries.map(() => null) }
+        byId.set(id, ex)
+      }
+      ex.preds[m] = toPrediction(item)
+    }
+  })
+  return [...byId.values()]
+}
+
+/**
+ * Picks the fields of an item shown in the example browser.
+ * @param item - The evaluated item.
+ * @returns The embedded prediction.
+ */
+function toPrediction(item: ModelEvalItem): HtmlPrediction {
+  return {
+    // Transport failures never reached the model; show them apart from INVALID answers
+    label: isTransportFailure(item) ? "ERROR" : item.predictedLabel,
+    ok: item.ok,
+    cached: Boolean(item.cached),
+    rawText: item.rawText,
+    error: item.error,
+    latencyMs: Math.round(item.latencyMs),
+    confidence: item.confidence,
+    parsePath: item.parsePath,
+    rationale: item.rationale,
+  }
+}
+
+/**
+ * Renders a confusion matrix as a heatmap; cells are shaded by their share of
+ * the gold row and filter the example browser when clicked.
+ * @param s - The model summary.
+ * @returns HTML table.
+ */
+function heatmap(s: ModelEvalSummary): string {
+  const { labels, counts: cm, invalidByGold } = s.confusion
+  const cols = [...labels, "INVALID"]
+  const header = `<tr><th>gold \\ pred</th>${cols.map((c) => `<th>${escapeHtml(c)}</th>`).join("")}</tr>`
+  const rows = labels.map((g) => {
+    const counts = cols.map((p) => (p === "INVALID" ? invalidByGold[g] : cm[g][p]))
+    const rowTotal = counts.reduce((a, b) => a + b, 0)
+    const cells = cols.map((p, i) => {
+      const share = rowTotal === 0 ? 0 : counts[i] / rowTotal
+      const hue = p === g ? "22, 163, 74" : "220, 38, 38"
+      const style = `background: rgba(${hue}, ${(share * 0.85).toFixed(3)})`
+      return `<td class="cell" style="${style}" data-model="${escapeHtml(s.modelId)}" data-gold="${escapeHtml(g)}" data-pred="${escapeHtml(p)}" title="${pct(share)} of ${escapeHtml(g)}">${counts[i]}</td>`
+    })
+    return `<tr><th>${escapeHtml(g)}</th>${cells.join("")}</tr>`
+  })
+  return `<table class="heatmap">${header}${rows.join("")}</table>`
+}
+
+/**
+ * Formats a model for HTML, with its alias if it has one.
+ * @param modelId - The model ID.
+ * @param aliases - Display names by model ID.
+ * @returns HTML fragment.
+ */
+function modelLabel(modelId: string, aliases?: Record<string, string>): string {
+  const alias = aliases?.[modelId]
+  return `${alias ? `${escapeHtml(alias)} ` : ""}<code>${escapeHtml(modelId)}</code>`
+}
+
+/**
+ * Renders the sortable summary table.
+ * @param summaries - Final per-model summaries.
+ * @param aliases - Display names by model ID.
+ * @returns HTML table.
+ */
+function summaryTable(summaries: ModelEvalSummary[], aliases?: Record<string, string>): string {
+  const num = (v: number, text: string) => `<td data-sort="${v}">${text}</td>`
+  const rows = summaries.map((s) => {
+    const m = s.metrics
+    const cached = s.items.filter((i) => i?.cached).length
+    return [
+      `<td>${modelLabel(s.modelId, aliases)}</td>`,
+      num(s.accuracy, pct(s.accuracy)),
+      `<td>${s.ci ? `${pct(s.ci.accuracy.lower)}–${pct(s.ci.accuracy.upper)}` : "-"}</td>`,
+      num(m.macroF1, pct(m.macroF1)),
+      num(m.weightedF1, pct(m.weightedF1)),
+      num(m.balancedAccuracy, pct(m.balancedAccuracy)),
+      num(m.kappa, m.kappa.toFixed(3)),
+      num(s.invalidRate, pct(s.invalidRate)),
+      num(s.correct, `${s.correct}/${s.total}`),
+      num(s.transportErrors, String(s.transportErrors)),
+      num(cached, String(cached)),
+      num(s.latency?.p50Ms ?? -1, s.latency ? formatMs(s.latency.p50Ms) : "-"),
+      num(s.latency?.p90Ms ?? -1, s.latency ? formatMs(s.latency.p90Ms) : "-"),
+      num(s.cost?.spent.costUsd ?? -1, formatUsd(s.cost?.spent.costUsd)),
+      num(s.cost?.costPerCorrectUsd ?? -1, formatUsd(s.cost?.costPerCorrectUsd)),
+    ].join("")
+  })
+  const headers = [
+    "model",
+    "accuracy",
+    "95% CI",
+    "macro-F1",
+    "weighted-F1",
+    "balanced-acc",
+    "kappa",
+    "invalid-rate",
+    "correct/total",
+    "transport errors",
+    "cached",
+    "p50 latency",
+    "p90 latency",
+    "cost",
+    "cost per correct",
+  ]
+  return [
+    `<table class="sortable"><thead><tr>${headers.map((h) => `<th>${h}</th>`).join("")}</tr></thead>`,
+    `<tbody>${rows.map((r) => `<tr>${r}</tr>`).join("\n")}</tbody></table>`,
+  ].join("\n")
+}
+
+/**
+ * Renders an option list for a filter select.
+ * @param values - Option values.
+ * @param anyLabel - Label of the "no filter" option.
+ * @returns HTML options.
+ */
+function options(values: readonly string[], anyLabel: string): string {
+  const opts = values.map((v) => `<option value="${escapeHtml(v)}">${escapeHtml(v)}</option>`)
+  return [`<option value="">${anyLabel}</option>`, ...opts].join("")
+}
+
+const STYLE = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+table { border-collapse: collapse; margin-bottom: 1.5rem; }
+th, td { border: 1px solid #ddd; padding: 0.3rem 0.6rem; text-align: right; }
+td:first-child, th:first-child { text-align: left; }
+th { background: #f5f5f5; }
+table.sortable th { cursor: pointer; user-select: none; }
+table.sortable th[data-dir="asc"]::after { content: " ▲"; }
+table.sortable th[data-dir="desc"]::after { content: " ▼"; }
+.heatmaps { display: flex; flex-wrap: wrap; gap: 1.5rem; }
+.heatmap td.cell { cursor: pointer; min-width: 3.5rem; text-align: center; }
+.heatmap td.cell:hover { outline: 2px solid #333; }
+.banner { background: #fff4e5; border: 1px solid #f0b46b; padding: 0.6rem 1rem; }
+.filters { display: flex; flex-wrap: wrap; gap: 0.8rem; align-items: center; margin-bottom: 0.8rem; }
+#examples td { text-align: left; }
+#examples tbody tr { cursor: pointer; }
+#examples tbody tr:hover, #examples tbody tr.selected { background: #eef4ff; }
+#examples td.claim { max-width: 40rem; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+.ok { color: #15803d; font-weight: 600; }
+.bad { color: #b91c1c; font-weight: 600; }
+.err { color: #9a3412; font-style: italic; }
+.cached::after { content: " ⟲"; color: #888; font-weight: normal; }
+#detail { margin-top: 1rem; }
+.cards { display: grid; grid-template-columns: repeat(auto-fit, minmax(20rem, 1fr)); gap: 1rem; }
+.card { border: 1px solid #ddd; border-radius: 6px; padding: 0.8rem; }
+.card h4 { margin: 0 0 0.5rem; }
+.card pre { white-space: pre-wrap; word-break: break-word; background: #f8f8f8; padding: 0.5rem; max-height: 20rem; overflow: auto; }
+.muted { color: #666; }
+`
+
+// Plain ES5 so the file opens in any browser without a build step
+const SCRIPT = `
+(function () {
+  var data = JSON.parse(document.getElementById("report-data").textContent);
+  var $ = function (id) { return document.getElementById(id); };
+
+  function el(tag, cls, text) {
+    var e = document.createElement(tag);
+    if (cls) e.className = cls;
+    if (text !== undefined) e.textContent = text;
+    return e;
+  }
+
+  function sortKey(cell) {
+    var v = cell.getAttribute("data-sort");
+    if (v === null) v = cell.textContent;
+    var n = parseFloat(v);
+    return isNaN(n) ? v.toLowerCase() : n;
+  }
+
+  Array.prototype.forEach.call(document.querySelectorAll("table.sortable"), function (table) {
+    var headers = table.tHead.rows[0].cells;
+    Array.prototype.forEach.call(headers, function (th, col) {
+      th.addEventListener("click", function () {
+        var dir = th.getAttribute("data-dir") === "desc" ? "asc" : "desc";
+        Array.prototype.forEach.call(headers, function (h) { h.removeAttribute("data-dir"); });
+        th.setAttribute("data-dir", dir);
+        var body = table.tBodies[0];
+        var rows = Array.prototype.slice.call(body.rows);
+        rows.sort(function (a, b) {
+          var x = sortKey(a.cells[col]);
+          var y = sortKey(b.cells[col]);
+          var c = x < y ? -1 : x > y ? 1 : 0;
+          return dir === "asc" ? c : -c;
+        });
+        rows.forEach(function (r) { body.appendChild(r); });
+      });
+    });
+  });
+
+  function predClass(p) {
+    if (!p) return "muted";
+    var cls = p.label === "ERROR" ? "err" : p.ok ? "ok" : "bad";
+    return p.cached ? cls + " cached" : cls;
+  }
+
+  function matches(ex) {
+    var gold = $("f-gold").value;
+    var pred = $("f-pred").value;
+    var outcome = $("f-outcome").value;
+    var cached = $("f-cached").value;
+    var text = $("f-search").value.toLowerCase();
+    var model = $("f-model").value;
+    if (gold && ex.gold !== gold) return false;
+    if (text && ex.claim.toLowerCase().indexOf(text) < 0 && ex.id.toLowerCase().indexOf(text) < 0) return false;
+    for (var m = 0; m < data.models.length; m++) {
+      if (model !== "" && String(m) !== model) continue;
+      var p = ex.preds[m];
+      if (!p) continue;
+      if (pred && p.label !== pred) continue;
+      if (outcome === "correct" && !p.ok) continue;
+      if (outcome === "incorrect" && p.ok) continue;
+      if (cached === "cached" && !p.cached) continue;
+      if (cached === "fresh" && p.cached) continue;
+      return true;
+    }
+    return false;
+  }
+
+  var selected = null;
+
+  function renderDetail(ex) {
+    var detail = $("detail");
+    detail.innerHTML = "";
+    detail.appendChild(el("h3", "", ex.claim));
+    detail.appendChild(el("p", "muted", "datasetId " + ex.id + " · gold " + ex.gold));
+    var cards = el("div", "cards");
+    data.models.forEach(function (model, m) {
+      var p = ex.preds[m];
+      var card = el("div", "card");
+      card.appendChild(el("h4", "", model));
+      if (!p) {
+        card.appendChild(el("p", "muted", "Not evaluated"));
+        cards.appendChild(card);
+        return;
+      }
+      var head = el("p");
+      head.appendChild(el("span", predClass(p), p.label));
+      var facts = [p.latencyMs + " ms"];
+      if (p.parsePath) facts.push("parse: " + p.parsePath);
+      if (typeof p.confidence === "number") facts.push("confidence " + Math.round(p.confidence * 100) + "%");
+      if (p.cached) facts.push("cached");
+      head.appendChild(el("span", "muted", " · " + facts.join(" · ")));
+      card.appendChild(head);
+      if (p.error) card.appendChild(el("p", "err", p.error));
+      if (p.rationale) card.appendChild(el("p", "", p.rationale));
+      card.appendChild(el("pre", "", p.rawText || "(empty response)"));
+      cards.appendChild(card);
+    });
+    detail.appendChild(cards);
+  }
+
+  var LIMIT = 1000;
+
+  function renderExamples() {
+    var body = $("examples").tBodies[0];
+    body.innerHTML = "";
+    var shown = 0;
+    var total = 0;
+    data.examples.forEach(function (ex) {
+      if (!matches(ex)) return;
+      total++;
+      if (shown >= LIMIT) return;
+      shown++;
+      var tr = el("tr");
+      if (ex === selected) tr.className = "selected";
+      tr.appendChild(el("td", "", ex.id));
+      tr.appendChild(el("td", "", ex.gold));
+      ex.preds.forEach(function (p) {
+        tr.appendChild(el("td", predClass(p), p ? p.label : "-"));
+      });
+      var claim = el("td", "claim", ex.claim);
+      claim.title = ex.claim;
+      tr.appendChild(claim);
+      tr.addEventListener("click", function () {
+        selected = ex;
+        Array.prototype.forEach.call(body.rows, function (r) { r.className = ""; });
+        tr.className = "selected";
+        renderDetail(ex);
+      });
+      body.appendChild(tr);
+    });
+    $("count").textContent =
+      total + " of " + data.examples.length + " examples" + (total > shown ? " (showing the first " + shown + ")" : "");
+  }
+
+  ["f-model", "f-gold", "f-pred", "f-outcome", "f-cached", "f-search"].forEach(function (id) {
+    $(id).addEventListener("input", renderExamples);
+  });
+  $("f-reset").addEventListener("click", function () {
+    ["f-model", "f-gold", "f-pred", "f-outcome", "f-cached", "f-search"].forEach(function (id) { $(id).value = ""; });
+    renderExamples();
+  });
+
+  Array.prototype.forEach.call(document.querySelectorAll(".heatmap td.cell"), function (cell) {
+    cell.addEventListener("click", function () {
+      $("f-model").value = String(data.models.indexOf(cell.getAttribute("data-model")));
+      $("f-gold").value = cell.getAttribute("data-gold");
+      $("f-pred").value = cell.getAttribute("data-pred");
+      $("f-outcome").value = "";
+      $("f-cached").value = "";
+      renderExamples();
+      $("browser").scrollIntoView();
+    });
+  });
+
+  renderExamples();
+})();
+`
+
+/**
+ * Renders a run as one self-contained HTML file (inline styles, script and
+ * data; no network access needed): sortable model table, confusion heatmaps
+ * and an example browser with filters and side-by-side model answers.
+ * @param meta - Run metadata.
+ * @param summaries - Final per-model summaries, with items.
+ * @returns HTML document string.
+ */
+export function renderHtmlReport(meta: RunReportMeta, summaries: ModelEvalSummary[]): string {
+  if (!Array.isArray(summaries)) {
+    throw new Error("Summaries must be an array")
+  }
+  const models = summaries.map((s) => s.modelId)
+  const data = { models, examples: collectExamples(summaries) }
+  const title = `FactBench Report: ${meta.runId}${meta.incomplete ? " (incomplete)" : ""}`
+
+  const config = [
+    ["timestamp", meta.timestampIso],
+    ["file", meta.filePath],
+    ["dataset hash", meta.datasetHash?.slice(0, 12)],
+    ["limit", String(meta.limit)],
+    ["labels", meta.labels],
+    ["mode", meta.mode ?? "label"],
+    ["prompt", meta.promptTemplate],
+    ["output", meta.output ?? "text"],
+    ["confidence", meta.confidence ?? "none"],
+    ["concurrency", String(meta.concurrency)],
+  ]
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `<li><b>${k}</b>: ${escapeHtml(String(v))}</li>`)
+    .join("")
+
+  const banner = meta.incomplete
+    ? `<p class="banner"><b>Incomplete run</b>: ${meta.incomplete.reason ? `stopped (${escapeHtml(meta.incomplete.reason)})` : "interrupted"} after ${meta.incomplete.completed} of ${meta.incomplete.expected} items. Metrics cover completed items only.</p>`
+    : ""
+
+  const labels = summaries[0]?.confusion.labels ?? FEVER_LABELS
+  const predLabels = [...labels, "INVALID", "ERROR"]
+  const modelOptions = [
+    `<option value="">any model</option>`,
+    ...models.map((m, i) => `<option value="${i}">${escapeHtml(m)}</option>`),
+  ].join("")
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${banner}
+<ul>${config}</ul>
+
+<h2>Summary</h2>
+<p class="muted">Click a column header to sort.</p>
+${summaryTable(summaries, meta.aliases)}
+
+<h2>Confusion matrices</h2>
+<p class="muted">Shaded by share of the gold row (green: correct, red: wrong). Click a cell to list its examples.</p>
+<div class="heatmaps">
+${summaries.map((s) => `<div><h3>${modelLabel(s.modelId, meta.aliases)}</h3>${heatmap(s)}</div>`).join("\n")}
+</div>
+
+<h2 id="browser">Examples</h2>
+<div class="filters">
+<label>model <select id="f-model">${modelOptions}</select></label>
+<label>gold <select id="f-gold">${options(labels, "any")}</select></label>
+<label>predicted <select id="f-pred">${options(predLabels, "any")}</select></label>
+<label>outcome <select id="f-outcome">${options(["correct", "incorrect"], "any")}</select></label>
+<label>cached <select id="f-cached">${options(["cached", "fresh"], "any")}</select></label>
+<label>search <input id="f-search" type="search" placeholder="claim or id"></label>
+<button id="f-reset" type="button">reset</button>
+<span id="count" class="muted"></span>
+</div>
+<p class="muted">Prediction filters apply to the selected model (or to any model). Click an example to compare every model's answer.</p>
+<table id="examples">
+<thead><tr><th>id</th><th>gold</th>${models.map((m) => `<th><code>${escapeHtml(m)}</code></th>`).join("")}<th>claim</th></tr></thead>
+<tbody></tbody>
+</table>
+<div id="detail"></div>
+
+<script type="application/json" id="report-data">${inlineJson(data)}</script>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`
+}
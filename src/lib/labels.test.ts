@@ -0,0 +1,116 @@
+import { describe, expect, test } from "bun:test"
+import {
+  LABEL_SCHEMAS,
+  correctFromConfusionMatrix,
+  createConfusionMatrix,
+  parseLabelAliases,
+  parsePredictedLabel,
+  recordPrediction,
+  resolveLabel,
+  sumConfusionMatrix,
+  validateLabelSchema,
+  withLabelAliases,
+} from "./labels"
+
+describe("parsePredictedLabel", () => {
+  test("matches a bare label or alias exactly, ignoring case, quotes and trailing punctuation", () => {
+    expect(parsePredictedLabel("SUPPORTS")).toEqual({ label: "SUPPORTS", path: "exact" })
+    expect(parsePredictedLabel(' "refutes". ')).toEqual({ label: "REFUTES", path: "exact" })
+    expect(parsePredictedLabel("**NEI**")).toEqual({ label: "NOT ENOUGH INFO", path: "exact" })
+    expect(parsePredictedLabel("not_enough-info")).toEqual({ label: "NOT ENOUGH INFO", path: "exact" })
+  })
+
+  test("picks the label that appears first in a longer reply", () => {
+    expect(parsePredictedLabel("The answer is REFUTES, not SUPPORTS")).toEqual({ label: "REFUTES", path: "fuzzy" })
+    expect(parsePredictedLabel("SUPPORTS? No: NOT ENOUGH INFO")).toEqual({ label: "SUPPORTS", path: "fuzzy" })
+  })
+
+  test("prefers the longest label among matches starting at the same place", () => {
+    expect(parsePredictedLabel("Rating: mostly true, not false", LABEL_SCHEMAS.liar).label).toBe("mostly-true")
+    expect(parsePredictedLabel("I'd say true, though half-true is close", LABEL_SCHEMAS.liar).label).toBe("true")
+  })
+
+  test("only matches whole words", () => {
+    expect(parsePredictedLabel("UNSUPPORTSABLE")).toEqual({ label: "INVALID", path: "invalid" })
+    expect(parsePredictedLabel("")).toEqual({ label: "INVALID", path: "invalid" })
+  })
+
+  test("uses the aliases of the schema", () => {
+    expect(parsePredictedLabel("pants on fire", LABEL_SCHEMAS.liar)).toEqual({ label: "pants-fire", path: "exact" })
+    expect(parsePredictedLabel("Verdict: refuted", LABEL_SCHEMAS.binary)).toEqual({ label: "FALSE", path: "fuzzy" })
+  })
+})
+
+describe("resolveLabel", () => {
+  test("maps gold values to the schema's spelling", () => {
+    expect(resolveLabel("supported")).toBe("SUPPORTS")
+    expect(resolveLabel(true, LABEL_SCHEMAS.binary)).toBe("TRUE")
+    expect(resolveLabel("barely_true", LABEL_SCHEMAS.liar)).toBe("barely-true")
+  })
+
+  test("returns undefined for unknown or non-scalar values", () => {
+    expect(resolveLabel("maybe")).toBeUndefined()
+    expect(resolveLabel(null)).toBeUndefined()
+    expect(resolveLabel({ label: "SUPPORTS" })).toBeUndefined()
+  })
+})
+
+describe("validateLabelSchema", () => {
+  test("accepts a schema with aliases and a ClassLabel order", () => {
+    const schema = validateLabelSchema(
+      { name: "stance", labels: ["AGREE", "DISAGREE"], aliases: { AGREES: "AGREE" }, classLabels: ["DISAGREE", "AGREE"] },
+      "test",
+    )
+    expect(schema.classLabels).toEqual(["DISAGREE", "AGREE"])
+  })
+
+  test("rejects bad schemas", () => {
+    expect(() => validateLabelSchema({ name: "x", labels: ["A"] }, "test")).toThrow("at least two")
+    expect(() => validateLabelSchema({ name: "x", labels: ["A", "a"] }, "test")).toThrow("duplicate label")
+    expect(() => validateLabelSchema({ name: "x", labels: ["A", "invalid"] }, "test")).toThrow("reserved")
+    expect(() => validateLabelSchema({ name: "x", labels: ["A", "B"], aliases: { C: "D" } }, "test")).toThrow("alias C")
+    expect(() => validateLabelSchema({ name: "x", labels: ["A", "B"], classLabels: ["A", "A"] }, "test")).toThrow(
+      "classLabels",
+    )
+  })
+
+  test("keeps the built-in liar ClassLabel order of Hugging Face", () => {
+    expect(LABEL_SCHEMAS.liar.classLabels).toEqual(["false", "half-true", "mostly-true", "true", "barely-true", "pants-fire"])
+  })
+})
+
+describe("label aliases", () => {
+  test("parses alias specs and adds them to a schema", () => {
+    const aliases = parseLabelAliases(["pants on fire!=pants-fire", " lie = FALSE "])
+    expect(aliases).toEqual({ "pants on fire!": "pants-fire", lie: "FALSE" })
+    const schema = withLabelAliases(LABEL_SCHEMAS.liar, aliases)
+    expect(schema.aliases?.lie).toBe("false")
+    expect(resolveLabel("LIE", schema)).toBe("false")
+  })
+
+  test("rejects malformed specs and unknown targets", () => {
+    expect(() => parseLabelAliases(["nope"])).toThrow("Invalid label alias")
+    expect(() => withLabelAliases(LABEL_SCHEMAS.binary, { maybe: "UNSURE" })).toThrow("must map to one of")
+  })
+})
+
+describe("confusion matrix", () => {
+  test("counts predictions and invalid answers per gold label", () => {
+    const cm = createConfusionMatrix(LABEL_SCHEMAS.binary.labels)
+    recordPrediction(cm, "TRUE", "TRUE")
+    recordPrediction(cm, "TRUE", "FALSE")
+    recordPrediction(cm, "FALSE", "FALSE")
+    recordPrediction(cm, "FALSE", "INVALID")
+    expect(cm.counts.TRUE).toEqual({ TRUE: 1, FALSE: 1 })
+    expect(cm.invalid).toBe(1)
+    expect(cm.invalidByGold).toEqual({ TRUE: 0, FALSE: 1 })
+    expect(sumConfusionMatrix(cm)).toBe(4)
+    expect(correctFromConfusionMatrix(cm)).toBe(2)
+  })
+
+  test("rejects labels outside the matrix", () => {
+    const cm = createConfusionMatrix()
+    expect(() => recordPrediction(cm, "TRUE", "SUPPORTS")).toThrow("Gold label TRUE")
+    expect(() => recordPrediction(cm, "SUPPORTS", "TRUE")).toThrow("Predicted label TRUE")
+  })
+})
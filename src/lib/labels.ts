@@ -1,7 +1,62 @@
 export const FEVER_LABELS = ["SUPPORTS", "REFUTES", "NOT ENOUGH INFO"] as const
 export type FeverLabel = (typeof FEVER_LABELS)[number]
 
-export type PredictedLabel = FeverLabel | "INVALID"
+/**
+ * A predicted label: one of the active schema's labels, or `INVALID` when no
+ * label could be found.
+ */
+export type PredictedLabel = string
+
+/**
+ * The label set of a dataset. Gold labels and model answers are matched to
+ * `labels` case-insensitively, with `_`, `-` and spaces treated alike;
+ * `aliases` map other spellings (e.g. `NEI`) to one of the labels.
+ * `classLabels` is the order of the labels in Hugging Face exports, whose
+ * integer labels index it; it defaults to `labels`.
+ */
+export type LabelSchema = {
+  name: string
+  labels: string[]
+  aliases?: Record<string, string>
+  classLabels?: string[]
+}
+
+/**
+ * Built-in label schemas. `fever` is the default.
+ */
+export const LABEL_SCHEMAS: Record<string, LabelSchema> = {
+  fever: {
+    name: "fever",
+    labels: [...FEVER_LABELS],
+    aliases: {
+      NEI: "NOT ENOUGH INFO",
+      NOTENOUGHINFO: "NOT ENOUGH INFO",
+      SUPPORTED: "SUPPORTS",
+      REFUTED: "REFUTES",
+    },
+  },
+  binary: {
+    name: "binary",
+    labels: ["TRUE", "FALSE"],
+    aliases: {
+      SUPPORTS: "TRUE",
+      SUPPORTED: "TRUE",
+      REFUTES: "FALSE",
+      REFUTED: "FALSE",
+    },
+  },
+  liar: {
+    name: "liar",
+    labels: ["pants-fire", "false", "barely-true", "half-true", "mostly-true", "true"],
+    aliases: {
+      "pants on fire": "pants-fire",
+    },
+    // ClassLabel order of the `liar` dataset on Hugging Face
+    classLabels: ["false", "half-true", "mostly-true", "true", "barely-true", "pants-fire"],
+  },
+}
+
+export const DEFAULT_LABEL_SCHEMA = LABEL_SCHEMAS.fever
 
 /**
  * Checks if a given value is a valid FEVER label.
@@ -17,49 +72,287 @@ export function isFeverLabel(x: unknown): x is FeverLabel {
 }
 
 /**
- * Normalizes a predicted label to a valid FEVER label.
- * @param raw - The raw label to normalize.
- * @returns The normalized label.
+ * Normalizes a label for matching: upper case, with runs of `_`, `-` and
+ * whitespace collapsed to one space.
+ * @param text - Label text.
+ * @returns The matching key.
+ */
+function labelKey(text: string): string {
+  return text.toUpperCase().replace(/[\s_-]+/g, " ").trim()
+}
+
+/**
+ * Escapes a string for use in a regular expression.
+ * @param s - The string.
+ * @returns The escaped string.
+ */
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+type LabelMatcher = {
+  exact: Map<string, string>
+  fuzzy: Array<{ re: RegExp; label: string }>
+}
+
+const matchers = new WeakMap<LabelSchema, LabelMatcher>()
+
+/**
+ * Builds (once per schema) the lookup tables used to match labels. Fuzzy
+ * matchers are ordered longest first, labels before aliases of the same
+ * length, so that among matches starting at the same place `mostly-true`
+ * wins over `true`.
+ * @param schema - The label schema.
+ * @returns Exact and fuzzy matchers.
+ */
+function matcherFor(schema: LabelSchema): LabelMatcher {
+  let m = matchers.get(schema)
+  if (m) return m
+  const exact = new Map<string, string>()
+  for (const l of schema.labels) exact.set(labelKey(l), l)
+  const aliases = Object.entries(schema.aliases ?? {}).map(([from, to]) => [labelKey(from), to] as const)
+  for (const [from, to] of aliases) if (!exact.has(from)) exact.set(from, to)
+  // sort is stable, so labels stay ahead of aliases of the same length
+  const keys = [...schema.labels.map((l) => [labelKey(l), l] as const), ...aliases].sort(
+    (a, b) => b[0].length - a[0].length,
+  )
+  m = {
+    exact,
+    fuzzy: keys.map(([key, label]) => ({ re: new RegExp(`(?<![A-Z0-9])${escapeRegExp(key)}(?![A-Z0-9])`), label })),
+  }
+  matchers.set(schema, m)
+  return m
+}
+
+/**
+ * Maps a gold label (or an alias of one) to the schema's spelling.
+ * Numbers and booleans are matched by their text, so `true` matches `TRUE`.
+ * @param value - The raw label value.
+ * @param schema - The label schema (default `fever`).
+ * @returns The label, or undefined if the value names none.
+ */
+export function resolveLabel(value: unknown, schema: LabelSchema = DEFAULT_LABEL_SCHEMA): string | undefined {
+  if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") return undefined
+  return matcherFor(schema).exact.get(labelKey(String(value)))
+}
+
+/**
+ * Checks whether a schema is the default FEVER schema (same labels and aliases).
+ * @param schema - The label schema.
+ * @returns True for the default schema.
+ */
+export function isDefaultLabelSchema(schema: LabelSchema): boolean {
+  return JSON.stringify(schema) === JSON.stringify(DEFAULT_LABEL_SCHEMA)
+}
+
+/**
+ * Validates a parsed label schema object.
+ * @param raw - Parsed JSON value.
+ * @param source - Where the schema came from, for error messages.
+ * @returns The validated schema.
+ * @throws Error describing the first problem found.
+ */
+export function validateLabelSchema(raw: unknown, source: string): LabelSchema {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Label schema ${source} must be a JSON object`)
+  }
+  const s = raw as Record<string, unknown>
+  if (typeof s.name !== "string" || !s.name.trim()) {
+    throw new Error(`Label schema ${source} must have a non-empty "name"`)
+  }
+  if (!Array.isArray(s.labels) || s.labels.length < 2 || s.labels.some((l) => typeof l !== "string" || !l.trim())) {
+    throw new Error(`Label schema ${source}: "labels" must be an array of at least two non-empty strings`)
+  }
+  const labels = s.labels as string[]
+  const keys = new Set<string>()
+  for (const l of labels) {
+    if (labelKey(l) === "INVALID") {
+      throw new Error(`Label schema ${source}: INVALID is reserved for unparseable answers`)
+    }
+    if (keys.has(labelKey(l))) {
+      throw new Error(`Label schema ${source}: duplicate label ${l}`)
+    }
+    keys.add(labelKey(l))
+  }
+  if (s.aliases !== undefined && (!s.aliases || typeof s.aliases !== "object" || Array.isArray(s.aliases))) {
+    throw new Error(`Label schema ${source}: "aliases" must be an object mapping spellings to labels`)
+  }
+  const aliases = s.aliases as Record<string, unknown> | undefined
+  for (const [from, to] of Object.entries(aliases ?? {})) {
+    if (typeof to !== "string" || !labels.includes(to)) {
+      throw new Error(`Label schema ${source}: alias ${from} must map to one of: ${labels.join(", ")}`)
+    }
+  }
+  const classLabels = s.classLabels
+  if (
+    classLabels !== undefined &&
+    !(
+      Array.isArray(classLabels) &&
+      classLabels.length === labels.length &&
+      labels.every((l) => classLabels.includes(l))
+    )
+  ) {
+    throw new Error(`Label schema ${source}: "classLabels" must list each of ${labels.join(", ")} once`)
+  }
+  return {
+    name: s.name,
+    labels,
+    aliases: aliases as Record<string, string> | undefined,
+    ...(classLabels ? { classLabels: classLabels as string[] } : {}),
+  }
+}
+
+/**
+ * Adds aliases to a schema, e.g. from `--label-alias` flags.
+ * @param schema - The label schema.
+ * @param aliases - Extra aliases (spelling → label); they win over the schema's own.
+ * @returns A new schema.
+ * @throws Error if an alias maps to a label outside the schema.
+ */
+export function withLabelAliases(schema: LabelSchema, aliases: Record<string, string>): LabelSchema {
+  if (Object.keys(aliases).length === 0) return schema
+  const canonical: Record<string, string> = {}
+  for (const [from, to] of Object.entries(aliases)) {
+    const label = schema.labels.find((l) => labelKey(l) === labelKey(to))
+    if (!label) {
+      throw new Error(`Label alias ${from}=${to} must map to one of: ${schema.labels.join(", ")}`)
+    }
+    canonical[from] = label
+  }
+  return { ...schema, aliases: { ...schema.aliases, ...canonical } }
+}
+
+/**
+ * Parses `from=to` alias specs (e.g. from repeated CLI flags).
+ * @param specs - Alias specs.
+ * @returns Alias map.
+ * @throws Error if a spec has no `=` or an empty side.
+ */
+export function parseLabelAliases(specs: string[]): Record<string, string> {
+  const out: Record<string, string> = {}
+  for (const spec of specs) {
+    const i = spec.indexOf("=")
+    const from = i === -1 ? "" : spec.slice(0, i).trim()
+    const to = i === -1 ? "" : spec.slice(i + 1).trim()
+    if (!from || !to) {
+      throw new Error(`Invalid label alias: ${spec}. Expected <spelling>=<label>, e.g. pants_on_fire=pants-fire`)
+    }
+    out[from] = to
+  }
+  return out
+}
+
+/**
+ * Loads a label schema by built-in name or from a JSON file
+ * (`{"name", "labels", "aliases", "classLabels"}`).
+ * @param nameOrPath - Built-in schema name or path to a `.json` file.
+ * @returns The label schema.
+ * @throws Error if the schema is unknown or invalid.
+ */
+export async function loadLabelSchema(nameOrPath: string): Promise<LabelSchema> {
+  if (!nameOrPath || typeof nameOrPath !== "string") {
+    throw new Error("Label schema must be a non-empty string")
+  }
+  const builtin = LABEL_SCHEMAS[nameOrPath]
+  if (builtin) return builtin
+  const file = Bun.file(nameOrPath)
+  if (!(await file.exists())) {
+    throw new Error(
+      `Unknown label schema: ${nameOrPath}. Use a built-in (${Object.keys(LABEL_SCHEMAS).join(", ")}) or a path to a JSON schema file.`,
+    )
+  }
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(await file.text())
+  } catch (err) {
+    throw new Error(`Invalid JSON in label schema ${nameOrPath}: ${err instanceof Error ? err.message : String(err)}`)
+  }
+  return validateLabelSchema(parsed, nameOrPath)
+}
+
+/**
+ * Describes a label schema for logs and the report.
+ * @param schema - The label schema.
+ * @returns E.g. "binary (TRUE, FALSE)".
  */
-export function normalizePredictedLabel(raw: string): PredictedLabel {
-  const t = raw.trim()
-  if (isFeverLabel(t)) return t
+export function formatLabelSchema(schema: LabelSchema): string {
+  return `${schema.name} (${schema.labels.join(", ")})`
+}
 
-  const u = t.toUpperCase()
-  if (u === "NEI" || u === "NOT_ENOUGH_INFO" || u === "NOTENOUGHINFO")
-    return "NOT ENOUGH INFO"
-  if (u.includes("NOT ENOUGH INFO") || u.includes("NOT_ENOUGH_INFO"))
-    return "NOT ENOUGH INFO"
-  if (u.includes("SUPPORTS")) return "SUPPORTS"
-  if (u.includes("REFUTES")) return "REFUTES"
+/**
+ * Which parsing path produced a predicted label.
+ * - `json`: a schema-validated structured response.
+ * - `exact`: the response was exactly a label (or a known alias).
+ * - `fuzzy`: a label was found somewhere inside the response.
+ * - `invalid`: no label could be found.
+ */
+export type ParsePath = "json" | "exact" | "fuzzy" | "invalid"
 
-  // Common FEVER variants
-  if (u.includes("SUPPORTED")) return "SUPPORTS"
-  if (u.includes("REFUTED")) return "REFUTES"
+export const PARSE_PATHS = ["json", "exact", "fuzzy", "invalid"] as const satisfies readonly ParsePath[]
 
-  return "INVALID"
+/**
+ * Parses a raw response into a label of the schema and reports how it was found.
+ * A response that is just a label or alias (ignoring case, quotes and trailing
+ * punctuation) is exact; otherwise the label or alias that appears first as a
+ * whole word wins, the longest one if several start at the same place.
+ * @param raw - The raw label text to parse.
+ * @param schema - The label schema (default `fever`).
+ * @returns The label and the parse path (`exact`, `fuzzy` or `invalid`).
+ */
+export function parsePredictedLabel(
+  raw: string,
+  schema: LabelSchema = DEFAULT_LABEL_SCHEMA,
+): { label: PredictedLabel; path: ParsePath } {
+  const { exact, fuzzy } = matcherFor(schema)
+  const bare = raw.trim().replace(/^[\s"'`*_]+|[\s"'`*_.!]+$/g, "")
+  const label = exact.get(labelKey(bare))
+  if (label) return { label, path: "exact" }
+
+  const u = labelKey(raw)
+  let best: { index: number; label: string } | undefined
+  for (const f of fuzzy) {
+    const index = u.search(f.re)
+    if (index >= 0 && (!best || index < best.index)) best = { index, label: f.label }
+  }
+  if (best) return { label: best.label, path: "fuzzy" }
+
+  return { label: "INVALID", path: "invalid" }
 }
 
 /**
- * A confusion matrix for FEVER labels.
+ * Normalizes a predicted label to a label of the schema.
  * @param raw - The raw label to normalize.
- * @returns A confusion matrix for FEVER labels.
+ * @param schema - The label schema (default `fever`).
+ * @returns The normalized label.
  */
-export type ConfusionMatrix = Record<FeverLabel, Record<FeverLabel, number>> & {
+export function normalizePredictedLabel(raw: string, schema: LabelSchema = DEFAULT_LABEL_SCHEMA): PredictedLabel {
+  return parsePredictedLabel(raw, schema).label
+}
+
+/**
+ * A confusion matrix over the labels of a schema: `counts[gold][predicted]`.
+ * Invalid predictions are tracked in total and per gold label.
+ */
+export type ConfusionMatrix = {
+  labels: string[]
+  counts: Record<string, Record<string, number>>
   invalid: number
+  invalidByGold: Record<string, number>
 }
 
 /**
  * Creates a new confusion matrix.
+ * @param labels - Labels of the schema, in display order (default FEVER).
  * @returns A new confusion matrix.
  */
-export function createConfusionMatrix(): ConfusionMatrix {
-  return {
-    SUPPORTS: { SUPPORTS: 0, REFUTES: 0, "NOT ENOUGH INFO": 0 },
-    REFUTES: { SUPPORTS: 0, REFUTES: 0, "NOT ENOUGH INFO": 0 },
-    "NOT ENOUGH INFO": { SUPPORTS: 0, REFUTES: 0, "NOT ENOUGH INFO": 0 },
-    invalid: 0,
+export function createConfusionMatrix(labels: readonly string[] = FEVER_LABELS): ConfusionMatrix {
+  const counts: Record<string, Record<string, number>> = {}
+  const invalidByGold: Record<string, number> = {}
+  for (const g of labels) {
+    counts[g] = Object.fromEntries(labels.map((p) => [p, 0]))
+    invalidByGold[g] = 0
   }
+  return { labels: [...labels], counts, invalid: 0, invalidByGold }
 }
 
 /**
@@ -67,17 +360,26 @@ export function createConfusionMatrix(): ConfusionMatrix {
  * @param cm - The confusion matrix to record the prediction in.
  * @param gold - The gold label.
  * @param pred - The predicted label.
+ * @throws Error if a label is not in the matrix.
  */
 export function recordPrediction(
   cm: ConfusionMatrix,
-  gold: FeverLabel,
+  gold: string,
   pred: PredictedLabel,
 ) {
+  const row = cm.counts[gold]
+  if (!row) {
+    throw new Error(`Gold label ${gold} is not one of: ${cm.labels.join(", ")}`)
+  }
   if (pred === "INVALID") {
     cm.invalid++
+    cm.invalidByGold[gold]++
     return
   }
-  cm[gold][pred]++
+  if (row[pred] === undefined) {
+    throw new Error(`Predicted label ${pred} is not one of: ${cm.labels.join(", ")}`)
+  }
+  row[pred]++
 }
 
 /**
@@ -87,8 +389,8 @@ export function recordPrediction(
  */
 export function sumConfusionMatrix(cm: ConfusionMatrix): number {
   let total = cm.invalid
-  for (const g of FEVER_LABELS) {
-    for (const p of FEVER_LABELS) total += cm[g][p]
+  for (const g of cm.labels) {
+    for (const p of cm.labels) total += cm.counts[g][p]
   }
   return total
 }
@@ -99,11 +401,7 @@ export function sumConfusionMatrix(cm: ConfusionMatrix): number {
  * @returns The number of correct predictions.
  */
 export function correctFromConfusionMatrix(cm: ConfusionMatrix): number {
-  return (
-    cm.SUPPORTS.SUPPORTS +
-    cm.REFUTES.REFUTES +
-    cm["NOT ENOUGH INFO"]["NOT ENOUGH INFO"]
-  )
+  let correct = 0
+  for (const l of cm.labels) correct += cm.counts[l][l]
+  return correct
 }
-
-
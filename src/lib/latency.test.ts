@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test"
+import type { ModelEvalItem } from "./evaluate"
+import { computeLatencyStats, formatMs } from "./latency"
+
+/**
+ * Builds a timed item.
+ * @param latencyMs - Latency of the answering attempt.
+ * @param extra - Fields to override.
+ * @returns The item.
+ */
+function item(latencyMs: number, extra: Partial<ModelEvalItem> = {}): ModelEvalItem {
+  return {
+    datasetId: 1,
+    claim: "Claim.",
+    goldLabel: "SUPPORTS",
+    predictedLabel: "SUPPORTS",
+    rawText: "",
+    ok: true,
+    latencyMs,
+    ...extra,
+  }
+}
+
+describe("computeLatencyStats", () => {
+  test("computes quantiles over fresh requests and skips cached items", () => {
+    const stats = computeLatencyStats([item(100), item(200), item(300), item(400), item(5, { cached: true }), undefined])
+    expect(stats).toMatchObject({ count: 4, meanMs: 250, p50Ms: 250, maxMs: 400 })
+    expect(stats.p90Ms).toBeCloseTo(370, 10)
+    expect(computeLatencyStats([item(5, { cached: true })], { includeCached: true }).count).toBe(1)
+  })
+
+  test("measures throughput over wall-clock time including retries", () => {
+    const stats = computeLatencyStats([
+      item(500, { startedAtMs: 0, wallMs: 2000 }),
+      item(500, { startedAtMs: 1000, usage: { completionTokens: 50 } }),
+      item(500, { startedAtMs: 1000, wallMs: 3000, usage: { completionTokens: 50 } }),
+    ])
+    // Three requests between t=0 and t=4000
+    expect(stats.requestsPerSecond).toBe(0.75)
+    // 100 tokens over 1000 ms of answering attempts
+    expect(stats.tokensPerSecond).toBe(100)
+  })
+
+  test("returns zeros without requests", () => {
+    expect(computeLatencyStats([])).toEqual({
+      count: 0,
+      meanMs: 0,
+      p50Ms: 0,
+      p90Ms: 0,
+      p99Ms: 0,
+      maxMs: 0,
+      requestsPerSecond: undefined,
+      tokensPerSecond: undefined,
+    })
+  })
+})
+
+describe("formatMs", () => {
+  test("switches to seconds from 1000 ms", () => {
+    expect(formatMs(849.6)).toBe("850 ms")
+    expect(formatMs(2314)).toBe("2.31 s")
+    expect(formatMs(Number.NaN)).toBe("-")
+  })
+})
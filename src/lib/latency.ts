@@ -0,0 +1,76 @@
+import type { ModelEvalItem } from "./evaluate"
+import { quantile } from "./stats"
+
+/**
+ * Latency and throughput of a model's requests. Latency is that of the attempt
+ * that produced each answer; retries and backoff only count towards throughput.
+ */
+export type LatencyStats = {
+  /** Requests the stats are computed over. */
+  count: number
+  meanMs: number
+  p50Ms: number
+  p90Ms: number
+  p99Ms: number
+  maxMs: number
+  /** Requests completed per second of wall-clock time; unset without start times. */
+  requestsPerSecond?: number
+  /** Completion tokens per second of request latency; unset without token usage. */
+  tokensPerSecond?: number
+}
+
+/**
+ * Computes latency and throughput statistics. Cached items are skipped by
+ * default: their latency was measured by the run that produced them.
+ * @param items - Evaluated items (may be sparse).
+ * @param opts - Options.
+ * @param opts.includeCached - Also use cached items, e.g. to recompute stats from the cache.
+ * @returns Latency stats (zeros if there are no requests).
+ */
+export function computeLatencyStats(
+  items: Array<ModelEvalItem | undefined>,
+  opts: { includeCached?: boolean } = {},
+): LatencyStats {
+  const requests = items.filter((i): i is ModelEvalItem => Boolean(i)).filter(
+    (i) => (opts.includeCached || !i.cached) && Number.isFinite(i.latencyMs),
+  )
+  const sorted = requests.map((i) => i.latencyMs).sort((a, b) => a - b)
+  const n = sorted.length
+  const totalMs = sorted.reduce((a, b) => a + b, 0)
+
+  let requestsPerSecond: number | undefined
+  const timed = requests.filter((i) => typeof i.startedAtMs === "number")
+  if (timed.length > 0) {
+    const first = Math.min(...timed.map((i) => i.startedAtMs!))
+    const last = Math.max(...timed.map((i) => i.startedAtMs! + (i.wallMs ?? i.latencyMs)))
+    if (last > first) requestsPerSecond = timed.length / ((last - first) / 1000)
+  }
+
+  let tokensPerSecond: number | undefined
+  const withTokens = requests.filter((i) => typeof i.usage?.completionTokens === "number")
+  const tokenMs = withTokens.reduce((a, i) => a + i.latencyMs, 0)
+  if (tokenMs > 0) {
+    tokensPerSecond = withTokens.reduce((a, i) => a + i.usage!.completionTokens!, 0) / (tokenMs / 1000)
+  }
+
+  return {
+    count: n,
+    meanMs: n === 0 ? 0 : totalMs / n,
+    p50Ms: quantile(sorted, 0.5),
+    p90Ms: quantile(sorted, 0.9),
+    p99Ms: quantile(sorted, 0.99),
+    maxMs: n === 0 ? 0 : sorted[n - 1],
+    requestsPerSecond,
+    tokensPerSecond,
+  }
+}
+
+/**
+ * Formats a duration in milliseconds for tables and the live UI.
+ * @param ms - Duration in milliseconds.
+ * @returns E.g. "850 ms" or "2.31 s".
+ */
+export function formatMs(ms: number): string {
+  if (!Number.isFinite(ms)) return "-"
+  return ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${Math.round(ms)} ms`
+}
@@ -0,0 +1,102 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test"
+import { mkdir, mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { buildLeaderboard, loadRunSummaries } from "./leaderboard"
+import type { RunReportMeta } from "./report"
+import type { ModelRunSummary, RunSummary } from "./summary"
+
+let runsDir: string
+
+beforeAll(async () => {
+  runsDir = await mkdtemp(path.join(tmpdir(), "factbench-leaderboard-"))
+})
+
+afterAll(async () => {
+  await rm(runsDir, { recursive: true, force: true })
+})
+
+/**
+ * Builds a run summary with the given model accuracies.
+ * @param runId - The run ID (also its timestamp).
+ * @param accuracies - Accuracy per model ID.
+ * @param meta - Metadata to override.
+ * @returns The run summary.
+ */
+function run(runId: string, accuracies: Record<string, number>, meta: Partial<RunReportMeta> = {}): RunSummary {
+  return {
+    v: 1,
+    generatedAtIso: runId,
+    meta: {
+      runId,
+      timestampIso: runId,
+      filePath: "val/dev.jsonl",
+      limit: 10,
+      models: Object.keys(accuracies),
+      datasetHash: "abc123",
+      ...meta,
+    } as RunReportMeta,
+    models: Object.entries(accuracies).map(
+      ([modelId, accuracy]) =>
+        ({ modelId, accuracy, invalidRate: 0, total: 10, metrics: { macroF1: accuracy } }) as ModelRunSummary,
+    ),
+  }
+}
+
+describe("buildLeaderboard", () => {
+  test("ranks models by their best complete run and keeps the latest one", () => {
+    const board = buildLeaderboard([
+      run("2025-01-01", { a: 0.6, b: 0.7 }),
+      run("2025-01-02", { a: 0.8 }),
+      run("2025-01-03", { a: 0.7 }),
+      run("2025-01-04", { a: 0.99 }, { incomplete: { completed: 5, expected: 10 } }),
+      run("2025-01-05", { a: 0.99 }, { datasetHash: undefined }),
+    ])
+    expect(board.datasets).toHaveLength(1)
+    const [a, b] = board.datasets[0].entries
+    expect([a.rank, a.modelId, a.runs, a.best.runId, a.latest.runId]).toEqual([1, "a", 3, "2025-01-02", "2025-01-03"])
+    expect([b.rank, b.modelId, b.best.accuracy]).toEqual([2, "b", 0.7])
+    expect(board.skipped).toEqual([
+      { runId: "2025-01-04", reason: "incomplete run" },
+      { runId: "2025-01-05", reason: "no dataset hash" },
+    ])
+  })
+
+  test("never ranks runs with a different setup together, even within one run", () => {
+    const board = buildLeaderboard([
+      run("2025-01-01", { a: 0.6, b: 0.7 }),
+      run("2025-01-02", { a: 0.9, b: 0.5 }, { cacheVariants: { a: "temperature=0.5" } }),
+      run("2025-01-03", { a: 0.9 }, { datasetHash: "def456" }),
+    ])
+    const groups = board.datasets.map((d) => [d.datasetHash, d.cacheVariant, d.entries.map((e) => e.modelId)])
+    expect(groups).toEqual([
+      ["abc123", undefined, ["b", "a"]],
+      ["def456", undefined, ["a"]],
+      ["abc123", "temperature=0.5", ["a"]],
+    ])
+    expect(board.datasets[0].entries.find((e) => e.modelId === "b")?.runs).toBe(2)
+  })
+
+  test("filters datasets by hash prefix", () => {
+    const board = buildLeaderboard([run("2025-01-01", { a: 0.6 }), run("2025-01-02", { a: 0.6 }, { datasetHash: "def456" })], {
+      dataset: "def",
+    })
+    expect(board.datasets.map((d) => d.datasetHash)).toEqual(["def456"])
+  })
+})
+
+describe("loadRunSummaries", () => {
+  test("reads summary.json of every run and lists runs without a usable one", async () => {
+    await mkdir(path.join(runsDir, "good"), { recursive: true })
+    await mkdir(path.join(runsDir, "empty"), { recursive: true })
+    await Bun.write(path.join(runsDir, "good", "summary.json"), JSON.stringify(run("good", { a: 1 })))
+    await Bun.write(path.join(runsDir, "bad", "summary.json"), JSON.stringify({ v: 2 }))
+    const { summaries, skipped } = await loadRunSummaries(runsDir)
+    expect(summaries.map((s) => s.meta.runId)).toEqual(["good"])
+    expect(skipped).toEqual([
+      { runId: "bad", reason: "invalid summary.json (unsupported format)" },
+      { runId: "empty", reason: "no summary.json" },
+    ])
+    expect(await loadRunSummaries(path.join(runsDir, "missing"))).toEqual({ summaries: [], skipped: [] })
+  })
+})
@@ -0,0 +1,221 @@
+import { readdir, readFile } from "node:fs/promises"
+import path from "node:path"
+import { RUNS_ROOT } from "./manifest"
+import type { ModelRunSummary, RunSummary } from "./summary"
+
+/**
+ * One model's result in one run, as shown on the leaderboard.
+ */
+export type LeaderboardResult = {
+  runId: string
+  timestampIso: string
+  accuracy: number
+  accuracyLower?: number
+  accuracyUpper?: number
+  macroF1: number
+  invalidRate: number
+  total: number
+  mode?: string
+  promptTemplate?: string
+  /** Tokens of all answers, including those served from the cache. */
+  totalTokens: number
+  costPerCorrectUsd?: number
+  latencyP50Ms: number
+}
+
+export type LeaderboardEntry = {
+  rank: number
+  modelId: string
+  /** Complete runs of this model on the dataset. */
+  runs: number
+  /** Highest accuracy (ties: macro-F1, then the more recent run). */
+  best: LeaderboardResult
+  /** Most recent run. */
+  latest: LeaderboardResult
+}
+
+/**
+ * Ranked entries of all models evaluated on the same examples with the same
+ * setup.
+ */
+export type DatasetLeaderboard = {
+  datasetHash: string
+  /** Cache variant shared by the runs; unset for the default setup. */
+  cacheVariant?: string
+  filePath: string
+  examples: number
+  entries: LeaderboardEntry[]
+}
+
+export type Leaderboard = {
+  generatedAtIso: string
+  runsDir: string
+  runsScanned: number
+  datasets: DatasetLeaderboard[]
+  /** Runs that were left out, with the reason. */
+  skipped: Array<{ runId: string; reason: string }>
+}
+
+/**
+ * Reads every `summary.json` under the runs directory.
+ * @param runsDir - Directory holding one subdirectory per run.
+ * @returns Summaries found, plus run directories without a readable summary.
+ */
+export async function loadRunSummaries(
+  runsDir: string = RUNS_ROOT,
+): Promise<{ summaries: RunSummary[]; skipped: Leaderboard["skipped"] }> {
+  let names: string[]
+  try {
+    const entries = await readdir(runsDir, { withFileTypes: true })
+    names = entries.filter((e) => e.isDirectory()).map((e) => e.name).sort()
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return { summaries: [], skipped: [] }
+    throw err
+  }
+  const summaries: RunSummary[] = []
+  const skipped: Leaderboard["skipped"] = []
+  for (const runId of names) {
+    let text: string
+    try {
+      text = await readFile(path.join(runsDir, runId, "summary.json"), "utf8")
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err
+      skipped.push({ runId, reason: "no summary.json" })
+      continue
+    }
+    try {
+      const summary = JSON.parse(text) as RunSummary
+      if (summary?.v !== 1 || !Array.isArray(summary.models) || !summary.meta) {
+        throw new Error("unsupported format")
+      }
+      summaries.push(summary)
+    } catch (err) {
+      skipped.push({ runId, reason: `invalid summary.json (${err instanceof Error ? err.message : String(err)})` })
+    }
+  }
+  return { summaries, skipped }
+}
+
+/**
+ * Converts a model summary into a leaderboard result.
+ * @param summary - The run summary.
+ * @param m - The model's summary within the run.
+ * @returns The leaderboard result.
+ */
+function toResult(summary: RunSummary, m: ModelRunSummary): LeaderboardResult {
+  return {
+    runId: summary.meta.runId,
+    timestampIso: summary.meta.timestampIso,
+    accuracy: m.accuracy,
+    accuracyLower: m.ci?.accuracy.lower,
+    accuracyUpper: m.ci?.accuracy.upper,
+    macroF1: m.metrics.macroF1,
+    invalidRate: m.invalidRate,
+    total: m.total,
+    mode: summary.meta.mode,
+    promptTemplate: summary.meta.promptTemplate,
+    totalTokens: (m.cost?.spent.totalTokens ?? 0) + (m.cost?.cached.totalTokens ?? 0),
+    costPerCorrectUsd: m.cost?.costPerCorrectUsd,
+    latencyP50Ms: m.latency?.p50Ms ?? 0,
+  }
+}
+
+/**
+ * Orders results best first: accuracy, then macro-F1, then recency.
+ * @param a - First result.
+ * @param b - Second result.
+ * @returns Negative if `a` ranks higher.
+ */
+function compareResults(a: LeaderboardResult, b: LeaderboardResult): number {
+  return b.accuracy - a.accuracy || b.macroF1 - a.macroF1 || b.timestampIso.localeCompare(a.timestampIso)
+}
+
+/**
+ * Aggregates run summaries into leaderboards per dataset and cache variant, so
+ * results with a different mode, prompt, output format or sampling settings
+ * are never ranked together. Only complete runs with a dataset hash count; models are ranked by
+ * their best result.
+ * @param summaries - Run summaries.
+ * @param opts - Options.
+ * @param opts.dataset - Only include datasets whose hash starts with this prefix.
+ * @param opts.runsDir - Directory the summaries were read from (recorded only).
+ * @returns The leaderboard; `skipped` lists runs left out during aggregation.
+ */
+export function buildLeaderboard(
+  summaries: RunSummary[],
+  opts: { dataset?: string; runsDir?: string } = {},
+): Leaderboard {
+  if (!Array.isArray(summaries)) {
+    throw new Error("Summaries must be an array")
+  }
+  const skipped: Leaderboard["skipped"] = []
+  const byDataset = new Map<
+    string,
+    { datasetHash: string; cacheVariant?: string; filePath: string; examples: number; results: Map<string, LeaderboardResult[]> }
+  >()
+  for (const summary of summaries) {
+    const { meta } = summary
+    if (meta.incomplete) {
+      skipped.push({ runId: meta.runId, reason: "incomplete run" })
+      continue
+    }
+    if (!meta.datasetHash) {
+      skipped.push({ runId: meta.runId, reason: "no dataset hash" })
+      continue
+    }
+    if (opts.dataset && !meta.datasetHash.startsWith(opts.dataset)) continue
+    for (const m of summary.models) {
+      // Sampling settings are per model, so each model of a run may land in another group
+      const cacheVariant = meta.cacheVariants?.[m.modelId]
+      const key = `${meta.datasetHash}\n${cacheVariant ?? ""}`
+      let group = byDataset.get(key)
+      if (!group) {
+        group = {
+          datasetHash: meta.datasetHash,
+          cacheVariant,
+          filePath: meta.filePath,
+          examples: meta.limit,
+          results: new Map(),
+        }
+        byDataset.set(key, group)
+      }
+      const list = group.results.get(m.modelId) ?? []
+      list.push(toResult(summary, m))
+      group.results.set(m.modelId, list)
+    }
+  }
+
+  const datasets: DatasetLeaderboard[] = []
+  for (const group of byDataset.values()) {
+    const entries = [...group.results].map(([modelId, results]) => ({
+      rank: 0,
+      modelId,
+      runs: results.length,
+      best: [...results].sort(compareResults)[0],
+      latest: [...results].sort((a, b) => b.timestampIso.localeCompare(a.timestampIso))[0],
+    }))
+    entries.sort((a, b) => compareResults(a.best, b.best) || a.modelId.localeCompare(b.modelId))
+    entries.forEach((e, i) => (e.rank = i + 1))
+    datasets.push({
+      datasetHash: group.datasetHash,
+      cacheVariant: group.cacheVariant,
+      filePath: group.filePath,
+      examples: group.examples,
+      entries,
+    })
+  }
+  datasets.sort(
+    (a, b) =>
+      b.entries.length - a.entries.length ||
+      a.filePath.localeCompare(b.filePath) ||
+      (a.cacheVariant ?? "").localeCompare(b.cacheVariant ?? ""),
+  )
+
+  return {
+    generatedAtIso: new Date().toISOString(),
+    runsDir: opts.runsDir ?? RUNS_ROOT,
+    runsScanned: summaries.length,
+    datasets,
+    skipped,
+  }
+}
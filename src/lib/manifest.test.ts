@@ -0,0 +1,75 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test"
+import { mkdir, mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import {
+  loadRunManifest,
+  manifestPathFor,
+  readRawItems,
+  readRunManifestFile,
+  writeRunManifest,
+  type RunManifest,
+} from "./manifest"
+
+let runsDir: string
+
+beforeAll(async () => {
+  runsDir = await mkdtemp(path.join(tmpdir(), "factbench-manifest-"))
+})
+
+afterAll(async () => {
+  await rm(runsDir, { recursive: true, force: true })
+})
+
+/**
+ * Builds a manifest for a run with one model.
+ * @param runId - The run ID.
+ * @returns The manifest.
+ */
+function manifestFor(runId: string): RunManifest<{ limit: number }> {
+  return {
+    v: 1,
+    runId,
+    status: "running",
+    createdAtIso: "2025-01-01T00:00:00.000Z",
+    updatedAtIso: "2025-01-01T00:00:00.000Z",
+    options: { limit: 2 },
+    outMdPath: `${runsDir}/${runId}.md`,
+    exampleIds: ["1", "2"],
+    models: { "mock:supports": { status: "running", completed: 0 } },
+  }
+}
+
+describe("run manifests", () => {
+  test("round-trip through the run directory, keeping the last of concurrent writes", async () => {
+    await mkdir(path.join(runsDir, "a"), { recursive: true })
+    const manifest = manifestFor("a")
+    const first = writeRunManifest(manifest, runsDir)
+    manifest.models["mock:supports"] = { status: "done", completed: 2 }
+    manifest.status = "complete"
+    await Promise.all([first, writeRunManifest(manifest, runsDir)])
+    const loaded = await loadRunManifest<{ limit: number }>("a", runsDir)
+    expect(loaded.status).toBe("complete")
+    expect(loaded.models["mock:supports"]).toEqual({ status: "done", completed: 2 })
+    expect(loaded.options.limit).toBe(2)
+    expect(loaded.updatedAtIso).not.toBe("2025-01-01T00:00:00.000Z")
+    expect(await Bun.file(`${manifestPathFor("a", runsDir)}.tmp`).exists()).toBe(false)
+  })
+
+  test("rejects missing and foreign manifests", async () => {
+    await expect(loadRunManifest("missing", runsDir)).rejects.toThrow("No run manifest found")
+    const foreign = path.join(runsDir, "foreign.json")
+    await Bun.write(foreign, JSON.stringify({ v: 2, exampleIds: [] }))
+    await expect(readRunManifestFile(foreign)).rejects.toThrow("Unsupported or invalid run manifest")
+  })
+})
+
+describe("readRawItems", () => {
+  test("ignores a partial last line and returns nothing for a missing file", async () => {
+    const rawPath = path.join(runsDir, "raw.jsonl")
+    const item = { datasetId: 1, claim: "A.", goldLabel: "SUPPORTS", predictedLabel: "SUPPORTS", ok: true }
+    await Bun.write(rawPath, `${JSON.stringify(item)}\n\n{"datasetId": 2, "cla`)
+    expect(await readRawItems(rawPath)).toEqual([item as never])
+    expect(await readRawItems(path.join(runsDir, "none.jsonl"))).toEqual([])
+  })
+})
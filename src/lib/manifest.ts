@@ -0,0 +1,140 @@
+import { readFile, rename, writeFile } from "node:fs/promises"
+import type { ModelEvalItem } from "./evaluate"
+
+export type RunStatus = "running" | "complete" | "interrupted"
+
+export type ModelRunStatus = "pending" | "running" | "done" | "interrupted"
+
+/**
+ * Checkpoint of a run, stored at `runs/<runId>/manifest.json` and rewritten as
+ * items complete. `options` holds the resolved run options so `--resume`
+ * continues with exactly the same setup.
+ */
+export type RunManifest<TOptions = Record<string, unknown>> = {
+  v: 1
+  runId: string
+  status: RunStatus
+  createdAtIso: string
+  updatedAtIso: string
+  options: TOptions
+  outMdPath: string
+  promptHash?: string
+  cacheVariant?: string
+  /** Example IDs in evaluation order; a resumed run must load the same list. */
+  exampleIds: string[]
+  models: Record<string, { status: ModelRunStatus; completed: number }>
+  /** Why an interrupted run stopped (user interrupt or an exhausted budget). */
+  stopReason?: string
+}
+
+export const RUNS_ROOT = "runs"
+
+/**
+ * Returns the output directory of a run.
+ * @param runId - The run ID.
+ * @param runsDir - Directory holding the runs (defaults to `runs`).
+ * @returns Directory path (`runs/<runId>`).
+ */
+export function runDirFor(runId: string, runsDir: string = RUNS_ROOT): string {
+  if (!runId || typeof runId !== "string") {
+    throw new Error("Run ID must be a non-empty string")
+  }
+  return `${runsDir}/${runId}`
+}
+
+/**
+ * Returns the manifest path of a run.
+ * @param runId - The run ID.
+ * @param runsDir - Directory holding the runs (defaults to `runs`).
+ * @returns Path to `manifest.json`.
+ */
+export function manifestPathFor(runId: string, runsDir: string = RUNS_ROOT): string {
+  return `${runDirFor(runId, runsDir)}/manifest.json`
+}
+
+const pendingWrites = new Map<string, Promise<void>>()
+
+/**
+ * Writes a run manifest atomically (write to a temp file, then rename), so an
+ * interrupt never leaves a truncated manifest behind. Concurrent writes of the
+ * same run are serialized.
+ * @param manifest - The manifest to write; `updatedAtIso` is refreshed.
+ * @param runsDir - Directory holding the runs (defaults to `runs`).
+ */
+export async function writeRunManifest<T>(manifest: RunManifest<T>, runsDir: string = RUNS_ROOT) {
+  const target = manifestPathFor(manifest.runId, runsDir)
+  const write = async () => {
+    manifest.updatedAtIso = new Date().toISOString()
+    const tmp = `${target}.tmp`
+    await writeFile(tmp, JSON.stringify(manifest, null, 2) + "\n", "utf8")
+    await rename(tmp, target)
+  }
+  const next = (pendingWrites.get(target) ?? Promise.resolve()).then(write, write)
+  pendingWrites.set(target, next)
+  await next
+}
+
+/**
+ * Loads the manifest of an earlier run.
+ * @param runId - The run ID (the directory name under `runs/`).
+ * @param runsDir - Directory holding the runs (defaults to `runs`).
+ * @returns The manifest.
+ * @throws Error if the manifest is missing or not a version 1 manifest.
+ */
+export async function loadRunManifest<T = Record<string, unknown>>(
+  runId: string,
+  runsDir: string = RUNS_ROOT,
+): Promise<RunManifest<T>> {
+  return readRunManifestFile<T>(manifestPathFor(runId, runsDir))
+}
+
+/**
+ * Reads a manifest file from an explicit path.
+ * @param p - Path to `manifest.json`.
+ * @returns The manifest.
+ * @throws Error if the file is missing or not a version 1 manifest.
+ */
+export async function readRunManifestFile<T = Record<string, unknown>>(p: string): Promise<RunManifest<T>> {
+  let text: string
+  try {
+    text = await readFile(p, "utf8")
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`No run manifest found at ${p}`)
+    }
+    throw err
+  }
+  const manifest = JSON.parse(text) as RunManifest<T>
+  if (!manifest || manifest.v !== 1 || !Array.isArray(manifest.exampleIds)) {
+    throw new Error(`Unsupported or invalid run manifest: ${p}`)
+  }
+  return manifest
+}
+
+/**
+ * Reads items already written to a run's raw JSONL file. A partial last line
+ * (from a process killed mid-write) is ignored.
+ * @param rawPath - Path to `raw/<model>.jsonl`.
+ * @returns Items in file order (empty if the file doesn't exist).
+ */
+export async function readRawItems(rawPath: string): Promise<ModelEvalItem[]> {
+  let text: string
+  try {
+    text = await readFile(rawPath, "utf8")
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return []
+    throw err
+  }
+  const items: ModelEvalItem[] = []
+  for (const line of text.split(/\r?\n/)) {
+    const t = line.trim()
+    if (!t) continue
+    try {
+      const item = JSON.parse(t) as ModelEvalItem
+      if (item && item.datasetId !== undefined) items.push(item)
+    } catch {
+      // Truncated write; the item will be evaluated again
+    }
+  }
+  return items
+}
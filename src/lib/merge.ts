@@ -0,0 +1,185 @@
+import { readFile } from "node:fs/promises"
+import path from "node:path"
+import { computeDatasetHash } from "./cache"
+import { summarizeItems, type FeverExample, type ModelEvalItem, type ModelEvalSummary } from "./evaluate"
+import { htmlPathFor, renderHtmlReport } from "./html"
+import { RUNS_ROOT, runDirFor, writeRunManifest, type RunManifest } from "./manifest"
+import { ensureDir, renderMarkdownReport, safeSlug, writeJsonl, type RunReportMeta } from "./report"
+import { loadSavedRun, type SavedRun } from "./runs"
+import { formatSampling, type SampleRecord } from "./sampling"
+import { buildRunSummary, writeRunSummary, type RunSummary } from "./summary"
+
+export type MergedRun = {
+  runId: string
+  outDir: string
+  outMdPath: string
+  meta: RunReportMeta
+  summaries: ModelEvalSummary[]
+  /** Shard indices of the sample that were not given; their examples are missing. */
+  missingShards: number[]
+}
+
+/**
+ * Reads a JSON file written next to a run.
+ * @param p - File path.
+ * @param what - Description for the error message.
+ * @returns Parsed contents.
+ * @throws Error if the file is missing or invalid.
+ */
+async function readRunJson<T>(p: string, what: string): Promise<T> {
+  try {
+    return JSON.parse(await readFile(p, "utf8")) as T
+  } catch (err) {
+    throw new Error(`Cannot read the ${what} ${p}: ${err instanceof Error ? err.message : String(err)}`)
+  }
+}
+
+/**
+ * Manifest fields that decide how a shard was evaluated; shards merged into
+ * one run must agree on all of them.
+ */
+const SETUP_OPTIONS = ["mode", "output", "confidence", "samples", "generation", "modelOptions"] as const
+
+/**
+ * Describes how a run was evaluated, for comparing shards.
+ * @param manifest - The run manifest.
+ * @returns Setup fields by name.
+ */
+function evaluationSetup(manifest: RunManifest): Record<string, unknown> {
+  return {
+    promptHash: manifest.promptHash,
+    cacheVariant: manifest.cacheVariant,
+    ...Object.fromEntries(SETUP_OPTIONS.map((k) => [k, manifest.options[k]])),
+  }
+}
+
+/**
+ * Merges the shard runs of one sample (`--shard i/n`) into a new run with the
+ * raw results, reports, summary and manifest of an unsharded run. Missing
+ * shards leave the merged run incomplete; `--resume <mergedRunId>` evaluates
+ * their examples.
+ * @param runIds - Run IDs or run directories of the shards.
+ * @param options - Directory holding the runs (default `runs`).
+ * @returns The merged run.
+ * @throws Error if the runs are not shards of the same sample and models, or
+ *   were evaluated with different prompts, modes or sampling settings.
+ */
+export async function mergeShardRuns(runIds: string[], options: { runsDir?: string } = {}): Promise<MergedRun> {
+  if (runIds.length === 0) {
+    throw new Error("merge needs at least one run")
+  }
+  const shards: Array<{ run: SavedRun; sample: SampleRecord; summary: RunSummary }> = []
+  for (const id of runIds) {
+    const run = await loadSavedRun(id, { runsDir: options.runsDir })
+    const sample = await readRunJson<SampleRecord>(path.join(run.dir, "sample.json"), "sample of run")
+    if (!sample.shard) {
+      throw new Error(`Run ${run.runId} is not a shard (it was not started with --shard)`)
+    }
+    if (!run.manifest) {
+      throw new Error(`Run ${run.runId} has no manifest`)
+    }
+    const summary = await readRunJson<RunSummary>(path.join(run.dir, "summary.json"), "summary of run")
+    shards.push({ run, sample, summary })
+  }
+
+  const [first] = shards
+  const count = first.sample.shard!.count
+  const seen = new Set<number>()
+  for (const { run, sample } of shards) {
+    if (sample.shard!.count !== count || sample.sampleIds.join("\n") !== first.sample.sampleIds.join("\n")) {
+      throw new Error(`Run ${run.runId} is a shard of a different sample than ${first.run.runId}`)
+    }
+    if (run.labels.labels.join("\n") !== first.run.labels.labels.join("\n")) {
+      throw new Error(`Run ${run.runId} uses different labels than ${first.run.runId}`)
+    }
+    if (run.models.join("\n") !== first.run.models.join("\n")) {
+      throw new Error(`Run ${run.runId} evaluated different models than ${first.run.runId}`)
+    }
+    const setup = evaluationSetup(run.manifest!)
+    const firstSetup = evaluationSetup(first.run.manifest!)
+    const differing = Object.keys(setup).find((k) => JSON.stringify(setup[k]) !== JSON.stringify(firstSetup[k]))
+    if (differing !== undefined) {
+      throw new Error(`Run ${run.runId} was evaluated with a different ${differing} than ${first.run.runId}`)
+    }
+    if (seen.has(sample.shard!.index)) {
+      throw new Error(`Shard ${sample.shard!.index}/${count} is given twice`)
+    }
+    seen.add(sample.shard!.index)
+  }
+  const missingShards = Array.from({ length: count }, (_, i) => i + 1).filter((i) => !seen.has(i))
+
+  // Items in the order of the whole sample
+  const sampleIds = first.sample.sampleIds
+  const items: Record<string, ModelEvalItem[]> = {}
+  const examples = new Map<string, FeverExample>()
+  for (const modelId of first.run.models) {
+    const byId = new Map<string, ModelEvalItem>()
+    for (const { run } of shards) {
+      for (const item of run.items[modelId] ?? []) byId.set(String(item.datasetId), item)
+    }
+    items[modelId] = sampleIds.flatMap((id) => {
+      const item = byId.get(id)
+      if (item) examples.set(id, { id: item.datasetId, claim: item.claim, label: item.goldLabel })
+      return item ? [item] : []
+    })
+  }
+  const summaries = first.run.models.map((m) => summarizeItems(m, items[m], first.run.labels.labels))
+
+  const timestampIso = new Date().toISOString()
+  const runId = timestampIso.replace(/[:.]/g, "-")
+  const runsDir = options.runsDir ?? RUNS_ROOT
+  const outDir = runDirFor(runId, runsDir)
+  const outMdPath = `${outDir}.md`
+  await ensureDir(`${outDir}/raw`)
+  for (const m of first.run.models) await writeJsonl(`${outDir}/raw/${safeSlug(m)}.jsonl`, items[m])
+
+  const { shard: _shard, ...sampling } = first.sample
+  const expected = sampleIds.length * first.run.models.length
+  const completed = Object.values(items).reduce((n, list) => n + list.length, 0)
+  const complete = completed === expected
+  const meta: RunReportMeta = {
+    ...first.summary.meta,
+    runId,
+    timestampIso,
+    limit: sampleIds.length,
+    datasetHash: complete
+      ? await computeDatasetHash(sampleIds.map((id) => examples.get(id)!))
+      : undefined,
+    sampling: `${formatSampling(sampling)}, merged from ${shards.length}/${count} shards`,
+    incomplete: complete
+      ? undefined
+      : {
+          completed,
+          expected,
+          reason: missingShards.length ? `missing shards ${missingShards.join(", ")}` : "incomplete shards",
+        },
+  }
+  await Bun.write(`${outDir}/sample.json`, JSON.stringify({ ...sampling, ids: sampleIds }, null, 2) + "\n")
+  await Bun.write(outMdPath, renderMarkdownReport(meta, summaries))
+  await Bun.write(htmlPathFor(outMdPath), renderHtmlReport(meta, summaries))
+  await writeRunSummary(outDir, buildRunSummary(meta, summaries))
+
+  const { shard: _optionShard, ...sampleOptions } = (first.run.manifest!.options.sampling ?? {}) as Record<string, unknown>
+  const manifest: RunManifest = {
+    v: 1,
+    runId,
+    status: complete ? "complete" : "interrupted",
+    createdAtIso: timestampIso,
+    updatedAtIso: timestampIso,
+    options: { ...first.run.manifest!.options, sampling: sampleOptions, out: undefined, resume: undefined },
+    outMdPath,
+    promptHash: first.run.manifest!.promptHash,
+    cacheVariant: first.run.manifest!.cacheVariant,
+    exampleIds: sampleIds,
+    models: Object.fromEntries(
+      first.run.models.map((m) => [
+        m,
+        { status: items[m].length === sampleIds.length ? "done" : "interrupted", completed: items[m].length },
+      ]),
+    ),
+    stopReason: meta.incomplete?.reason,
+  }
+  await writeRunManifest(manifest, runsDir)
+
+  return { runId, outDir, outMdPath, meta, summaries, missingShards }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test"
+import { LABEL_SCHEMAS, createConfusionMatrix, recordPrediction } from "./labels"
+import { computeMetrics } from "./metrics"
+
+/**
+ * Builds a confusion matrix from (gold, predicted) pairs.
+ * @param labels - Labels of the matrix.
+ * @param pairs - Predictions.
+ * @returns The matrix.
+ */
+function matrix(labels: readonly string[], pairs: Array<[string, string]>) {
+  const cm = createConfusionMatrix(labels)
+  for (const [gold, pred] of pairs) recordPrediction(cm, gold, pred)
+  return cm
+}
+
+describe("computeMetrics", () => {
+  test("computes per-label precision, recall and F1, counting invalid answers as misses", () => {
+    const m = computeMetrics(
+      matrix(LABEL_SCHEMAS.binary.labels, [
+        ["TRUE", "TRUE"],
+        ["TRUE", "TRUE"],
+        ["TRUE", "TRUE"],
+        ["TRUE", "FALSE"],
+        ["FALSE", "FALSE"],
+        ["FALSE", "FALSE"],
+        ["FALSE", "INVALID"],
+      ]),
+    )
+    expect(m.perLabel.TRUE.precision).toBe(1)
+    expect(m.perLabel.TRUE.recall).toBe(0.75)
+    expect(m.perLabel.TRUE.f1).toBeCloseTo(6 / 7, 10)
+    expect(m.perLabel.FALSE).toMatchObject({ support: 3 })
+    expect(m.perLabel.FALSE.precision).toBeCloseTo(2 / 3, 10)
+    expect(m.perLabel.FALSE.recall).toBeCloseTo(2 / 3, 10)
+    expect(m.macroF1).toBeCloseTo((6 / 7 + 2 / 3) / 2, 10)
+    expect(m.weightedF1).toBeCloseTo(((6 / 7) * 4 + (2 / 3) * 3) / 7, 10)
+    expect(m.balancedAccuracy).toBeCloseTo((0.75 + 2 / 3) / 2, 10)
+  })
+
+  test("leaves labels without gold examples out of the macro averages", () => {
+    const m = computeMetrics(
+      matrix(LABEL_SCHEMAS.fever.labels, [
+        ["SUPPORTS", "SUPPORTS"],
+        ["REFUTES", "REFUTES"],
+        ["REFUTES", "NOT ENOUGH INFO"],
+      ]),
+    )
+    expect(m.perLabel["NOT ENOUGH INFO"]).toEqual({ precision: 0, recall: 0, f1: 0, support: 0 })
+    expect(m.macroF1).toBeCloseTo((1 + 2 / 3) / 2, 10)
+    expect(m.balancedAccuracy).toBeCloseTo(0.75, 10)
+  })
+
+  test("gives kappa 1 for perfect agreement and 0 for an empty matrix", () => {
+    const perfect = computeMetrics(
+      matrix(LABEL_SCHEMAS.binary.labels, [
+        ["TRUE", "TRUE"],
+        ["FALSE", "FALSE"],
+      ]),
+    )
+    expect(perfect.kappa).toBe(1)
+    expect(computeMetrics(createConfusionMatrix())).toEqual({
+      perLabel: {
+        SUPPORTS: { precision: 0, recall: 0, f1: 0, support: 0 },
+        REFUTES: { precision: 0, recall: 0, f1: 0, support: 0 },
+        "NOT ENOUGH INFO": { precision: 0, recall: 0, f1: 0, support: 0 },
+      },
+      macroF1: 0,
+      weightedF1: 0,
+      balancedAccuracy: 0,
+      kappa: 0,
+    })
+  })
+})
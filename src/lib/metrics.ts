@@ -0,0 +1,90 @@
+import { sumConfusionMatrix, type ConfusionMatrix } from "./labels"
+
+export type LabelMetrics = {
+  precision: number
+  recall: number
+  f1: number
+  /** Number of gold examples with this label (including invalid predictions). */
+  support: number
+}
+
+export type ClassificationMetrics = {
+  /** Metrics per label of the confusion matrix. */
+  perLabel: Record<string, LabelMetrics>
+  macroF1: number
+  weightedF1: number
+  balancedAccuracy: number
+  kappa: number
+}
+
+/**
+ * Safe division returning 0 when the denominator is 0.
+ * @param a - Numerator.
+ * @param b - Denominator.
+ * @returns a / b, or 0 if b is 0.
+ */
+function div(a: number, b: number): number {
+  return b === 0 ? 0 : a / b
+}
+
+/**
+ * Computes per-label precision/recall/F1 and aggregate metrics from a confusion matrix.
+ * Invalid predictions count as misses for their gold label (lowering recall) but
+ * are not attributed to any predicted label. Labels with no gold examples are
+ * left out of macro-F1 and balanced accuracy.
+ * @param cm - The confusion matrix.
+ * @returns Classification metrics.
+ */
+export function computeMetrics(cm: ConfusionMatrix): ClassificationMetrics {
+  const total = sumConfusionMatrix(cm)
+
+  const rowTotals: Record<string, number> = {}
+  const colTotals: Record<string, number> = {}
+  for (const l of cm.labels) {
+    rowTotals[l] = cm.invalidByGold[l]
+    colTotals[l] = 0
+  }
+  for (const g of cm.labels) {
+    for (const p of cm.labels) {
+      rowTotals[g] += cm.counts[g][p]
+      colTotals[p] += cm.counts[g][p]
+    }
+  }
+
+  const perLabel: Record<string, LabelMetrics> = {}
+  let macroF1 = 0
+  let weightedF1 = 0
+  let recallSum = 0
+  let present = 0
+  let observed = 0
+  let expected = 0
+  for (const l of cm.labels) {
+    const tp = cm.counts[l][l]
+    const precision = div(tp, colTotals[l])
+    const recall = div(tp, rowTotals[l])
+    const f1 = div(2 * precision * recall, precision + recall)
+    const support = rowTotals[l]
+    perLabel[l] = { precision, recall, f1, support }
+
+    observed += tp
+    expected += rowTotals[l] * colTotals[l]
+    weightedF1 += f1 * support
+    if (support > 0) {
+      macroF1 += f1
+      recallSum += recall
+      present++
+    }
+  }
+
+  const po = div(observed, total)
+  const pe = div(expected, total * total)
+  const kappa = pe === 1 ? 0 : (po - pe) / (1 - pe)
+
+  return {
+    perLabel,
+    macroF1: div(macroF1, present),
+    weightedF1: div(weightedF1, total),
+    balancedAccuracy: div(recallSum, present),
+    kappa: total === 0 ? 0 : kappa,
+  }
+}
@@ -0,0 +1,95 @@
+import { formatUsd } from "./cost"
+import { formatDatasetIssues } from "./dataset"
+import type { ModelEvalSummary } from "./evaluate"
+import type { BenchmarkEvent } from "./runner"
+
+export type ProgressFormat = "text" | "ndjson"
+
+export const PROGRESS_FORMATS = ["text", "ndjson"] as const satisfies readonly ProgressFormat[]
+
+/**
+ * Formats a model's headline metrics for progress lines.
+ * @param s - Model summary.
+ * @returns E.g. "acc 80.0% (8/10) | macro-F1 75.2% | invalid 0.0%".
+ */
+function headline(s: Omit<ModelEvalSummary, "items">): string {
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`
+  return `acc ${pct(s.accuracy)} (${s.correct}/${s.total}) | macro-F1 ${pct(s.metrics.macroF1)} | invalid ${pct(s.invalidRate)}`
+}
+
+/**
+ * Drops the per-item arrays from an event; in NDJSON every item is already
+ * streamed once in its `modelItem` event.
+ * @param ev - The event.
+ * @returns The event as written to the stream.
+ */
+function withoutItems(ev: BenchmarkEvent): unknown {
+  if (ev.type === "modelDone") {
+    const { items: _items, ...summary } = ev.summary
+    return { ...ev, summary }
+  }
+  if (ev.type === "runDone") {
+    const summaries = ev.result.summaries.map(({ items: _items, ...summary }) => summary)
+    return { ...ev, result: { ...ev.result, summaries } }
+  }
+  return ev
+}
+
+/**
+ * Creates an event handler that prints run progress without the live UI.
+ * `text` prints a line per model every 10% of its examples; `ndjson` writes
+ * every event as one JSON object per line.
+ * @param format - Progress format.
+ * @param write - Line sink (defaults to stdout).
+ * @returns Event handler for `runBenchmark`.
+ */
+export function createProgressPrinter(
+  format: ProgressFormat,
+  write: (line: string) => void = (line) => process.stdout.write(line + "\n"),
+): (ev: BenchmarkEvent) => void {
+  if (format === "ndjson") {
+    return (ev) => write(JSON.stringify(withoutItems(ev)))
+  }
+
+  const lastDecile = new Map<string, number>()
+  let stopped = false
+  return (ev) => {
+    switch (ev.type) {
+      case "runStart":
+        write(
+          `${ev.resumed ? "resuming" : "run"} ${ev.runId}: ${ev.examplesTotal} examples x ${ev.options.models.length} models`,
+        )
+        if (formatDatasetIssues(ev.dataset)) write(`dataset ${ev.options.filePath}: ${formatDatasetIssues(ev.dataset)}`)
+        return
+      case "modelStart":
+        write(`[${ev.modelId}] started`)
+        return
+      case "modelItem": {
+        const decile = Math.floor((ev.completed * 10) / ev.totalExamples)
+        if (decile === lastDecile.get(ev.modelId)) return
+        lastDecile.set(ev.modelId, decile)
+        write(`[${ev.modelId}] ${ev.completed}/${ev.totalExamples} | ${headline(ev.summarySoFar)}`)
+        return
+      }
+      case "modelDone": {
+        const cost = ev.summary.cost ? ` | cost ${formatUsd(ev.summary.cost.spent.costUsd)}` : ""
+        write(`[${ev.modelId}] done: ${headline(ev.summary)}${cost}`)
+        return
+      }
+      case "spend":
+        if (ev.stopReason && !stopped) {
+          stopped = true
+          write(`stopping: ${ev.stopReason}`)
+        }
+        return
+      case "runDone":
+        write(`reports: ${ev.result.outMdPath}, ${ev.result.outHtmlPath}`)
+        write(
+          ev.result.interrupted
+            ? `incomplete (${ev.result.stopReason ?? "interrupted"}); resume with --resume ${ev.result.runId}`
+            : "complete",
+        )
+        return
+    }
+  }
+}
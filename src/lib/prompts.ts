@@ -0,0 +1,426 @@
+import path from "node:path"
+import type { ModelMessage } from "ai"
+import type { EvalMode, FeverExample } from "./evaluate"
+import {
+  DEFAULT_LABEL_SCHEMA,
+  isDefaultLabelSchema,
+  parsePredictedLabel,
+  type LabelSchema,
+  type ParsePath,
+  type PredictedLabel,
+} from "./labels"
+import { extractEvidenceModeLabelText } from "./evidence"
+import { loadExamples } from "./dataset"
+import { sha256Hex } from "./hash"
+import { createRng, hashString, randomInt } from "./random"
+
+/**
+ * How the final label is read from a response.
+ * - `label`: the whole response is normalized to a label.
+ * - `evidence`: a `LABEL:` line plus `EVIDENCE:` lines (see evidence mode).
+ * - `cot`: free-form reasoning followed by a delimited `ANSWER: <label>` line.
+ */
+export type PromptAnswerFormat = "label" | "evidence" | "cot"
+
+export const PROMPT_ANSWER_FORMATS = ["label", "evidence", "cot"] as const satisfies readonly PromptAnswerFormat[]
+
+export type FewShotConfig = {
+  /** Number of examples shown before the claim under test. */
+  k: number
+  /** Dataset file to sample from (its format is taken from the extension); in a template file, relative to that file. */
+  pool: string
+  /** Sampling seed; combined with each example's ID so samples are order-independent. */
+  seed?: number
+}
+
+/**
+ * A named prompt template. `system` and `user` may reference `{{claim}}`,
+ * `{{evidence}}` (gold evidence references, one per line) and `{{labels}}`.
+ */
+export type PromptTemplate = {
+  name: string
+  description?: string
+  system?: string
+  user: string
+  answer?: PromptAnswerFormat
+  fewShot?: FewShotConfig
+}
+
+/**
+ * A template ready for use: its content hash, the loaded few-shot pool and the
+ * label schema it renders and parses.
+ */
+export type ResolvedPrompt = {
+  template: PromptTemplate
+  hash: string
+  pool: FeverExample[]
+  labels: LabelSchema
+}
+
+export type RenderedPrompt = {
+  system?: string
+  messages: ModelMessage[]
+}
+
+const TEMPLATE_VARIABLES = ["claim", "evidence", "labels"] as const
+
+export const DEFAULT_FEW_SHOT_SEED = 42
+
+/**
+ * Built-in templates. `zero-shot` and `evidence` are the defaults for the
+ * `label` and `evidence` evaluation modes; `classify` is the default for label
+ * schemas other than FEVER.
+ */
+export const BUILTIN_PROMPTS: Record<string, PromptTemplate> = {
+  "zero-shot": {
+    name: "zero-shot",
+    description: "Label-only zero-shot prompt",
+    user: [
+      "You are evaluating factual claims using FEVER-style labels.",
+      "Given a claim, output ONLY ONE of these exact labels:",
+      "- SUPPORTS",
+      "- REFUTES",
+      "- NOT ENOUGH INFO",
+      "",
+      "Claim:",
+      "{{claim}}",
+      "",
+      "Label:",
+    ].join("\n"),
+    answer: "label",
+  },
+  evidence: {
+    name: "evidence",
+    description: "Label plus cited Wikipedia sentences",
+    user: [
+      "You are verifying factual claims against Wikipedia using FEVER-style labels.",
+      "On the first line, output the label as:",
+      "LABEL: <SUPPORTS | REFUTES | NOT ENOUGH INFO>",
+      "Then, unless the label is NOT ENOUGH INFO, list every Wikipedia sentence you rely on, one per line, as:",
+      "EVIDENCE: <Wikipedia page title> | <sentence id>",
+      "Use Wikipedia page titles with underscores instead of spaces (e.g. Barack_Obama) and zero-based sentence ids.",
+      "",
+      "Claim:",
+      "{{claim}}",
+      "",
+    ].join("\n"),
+    answer: "evidence",
+  },
+  cot: {
+    name: "cot",
+    description: "Chain-of-thought with a delimited final answer line",
+    system: "You are a careful fact-checker who labels claims using FEVER-style labels: {{labels}}.",
+    user: [
+      "Think step by step about what you know regarding the claim below.",
+      "Then finish with a single final line of the form:",
+      "ANSWER: <SUPPORTS | REFUTES | NOT ENOUGH INFO>",
+      "",
+      "Claim:",
+      "{{claim}}",
+    ].join("\n"),
+    answer: "cot",
+  },
+  classify: {
+    name: "classify",
+    description: "Label-only zero-shot prompt for any label schema",
+    user: [
+      "You are evaluating factual claims.",
+      "Given a claim, output ONLY ONE of these exact labels: {{labels}}",
+      "",
+      "Claim:",
+      "{{claim}}",
+      "",
+      "Label:",
+    ].join("\n"),
+    answer: "label",
+  },
+}
+
+/**
+ * Built-in templates whose wording names the FEVER labels.
+ */
+const FEVER_PROMPTS = ["zero-shot", "evidence", "cot"]
+
+/**
+ * Returns the default template name for an evaluation mode.
+ * @param mode - The evaluation mode.
+ * @param labels - The label schema (default `fever`).
+ * @returns Built-in template name.
+ */
+export function defaultPromptName(mode: EvalMode, labels: LabelSchema = DEFAULT_LABEL_SCHEMA): string {
+  if (mode === "evidence") return "evidence"
+  return isDefaultLabelSchema(labels) ? "zero-shot" : "classify"
+}
+
+/**
+ * Validates a parsed template object.
+ * @param raw - Parsed JSON value.
+ * @param source - Where the template came from, for error messages.
+ * @returns The validated template.
+ * @throws Error describing the first problem found.
+ */
+export function validatePromptTemplate(raw: unknown, source: string): PromptTemplate {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Prompt template ${source} must be a JSON object`)
+  }
+  const t = raw as Record<string, unknown>
+  if (typeof t.name !== "string" || !t.name.trim()) {
+    throw new Error(`Prompt template ${source} must have a non-empty "name"`)
+  }
+  if (typeof t.user !== "string" || !t.user.includes("{{claim}}")) {
+    throw new Error(`Prompt template ${source} must have a "user" string containing {{claim}}`)
+  }
+  if (t.system !== undefined && typeof t.system !== "string") {
+    throw new Error(`Prompt template ${source}: "system" must be a string`)
+  }
+  if (t.description !== undefined && typeof t.description !== "string") {
+    throw new Error(`Prompt template ${source}: "description" must be a string`)
+  }
+  if (t.answer !== undefined && !(PROMPT_ANSWER_FORMATS as readonly unknown[]).includes(t.answer)) {
+    throw new Error(
+      `Prompt template ${source}: "answer" must be one of ${PROMPT_ANSWER_FORMATS.join(", ")}`,
+    )
+  }
+  for (const text of [t.system, t.user]) {
+    if (typeof text !== "string") continue
+    for (const m of text.matchAll(/\{\{\s*(\w+)\s*\}\}/g)) {
+      if (!(TEMPLATE_VARIABLES as readonly string[]).includes(m[1])) {
+        throw new Error(
+          `Prompt template ${source}: unknown variable {{${m[1]}}}. Expected one of: ${TEMPLATE_VARIABLES.join(", ")}`,
+        )
+      }
+    }
+  }
+  let fewShot: FewShotConfig | undefined
+  if (t.fewShot !== undefined) {
+    const f = t.fewShot as Record<string, unknown>
+    if (!f || typeof f !== "object") {
+      throw new Error(`Prompt template ${source}: "fewShot" must be an object`)
+    }
+    if (typeof f.k !== "number" || !Number.isInteger(f.k) || f.k < 1) {
+      throw new Error(`Prompt template ${source}: "fewShot.k" must be a positive integer`)
+    }
+    if (typeof f.pool !== "string" || !f.pool) {
+      throw new Error(`Prompt template ${source}: "fewShot.pool" must be a dataset file path`)
+    }
+    if (f.seed !== undefined && (typeof f.seed !== "number" || !Number.isInteger(f.seed))) {
+      throw new Error(`Prompt template ${source}: "fewShot.seed" must be an integer`)
+    }
+    fewShot = { k: f.k, pool: f.pool, seed: f.seed as number | undefined }
+  }
+  return {
+    name: t.name,
+    description: t.description as string | undefined,
+    system: t.system as string | undefined,
+    user: t.user,
+    answer: t.answer as PromptAnswerFormat | undefined,
+    fewShot,
+  }
+}
+
+/**
+ * Loads a template by built-in name or from a JSON file, applies few-shot
+ * overrides, loads the few-shot pool and computes the template hash. The hash
+ * covers the pool's examples rather than its path, so editing the pool file
+ * changes it; with a label schema other than FEVER it covers the schema too.
+ * @param nameOrPath - Built-in template name or path to a `.json` template file.
+ * @param overrides - Optional few-shot overrides (e.g. from CLI flags).
+ * @param labels - The label schema (default `fever`).
+ * @returns The resolved prompt.
+ * @throws Error if the template is unknown or invalid, or is a FEVER-worded built-in used with another schema.
+ */
+export async function loadPromptTemplate(
+  nameOrPath: string,
+  overrides: Partial<FewShotConfig> = {},
+  labels: LabelSchema = DEFAULT_LABEL_SCHEMA,
+): Promise<ResolvedPrompt> {
+  if (!nameOrPath || typeof nameOrPath !== "string") {
+    throw new Error("Prompt template name must be a non-empty string")
+  }
+  const feverSchema = isDefaultLabelSchema(labels)
+  if (!feverSchema && FEVER_PROMPTS.includes(nameOrPath)) {
+    throw new Error(
+      `Prompt template ${nameOrPath} names the FEVER labels; use classify or a template with {{labels}} for the ${labels.name} labels`,
+    )
+  }
+
+  let template: PromptTemplate
+  const builtin = BUILTIN_PROMPTS[nameOrPath]
+  if (builtin) {
+    template = { ...builtin }
+  } else {
+    const file = Bun.file(nameOrPath)
+    if (!(await file.exists())) {
+      throw new Error(
+        `Unknown prompt template: ${nameOrPath}. Use a built-in (${Object.keys(BUILTIN_PROMPTS).join(", ")}) or a path to a JSON template file.`,
+      )
+    }
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(await file.text())
+    } catch (err) {
+      throw new Error(
+        `Invalid JSON in prompt template ${nameOrPath}: ${err instanceof Error ? err.message : String(err)}`,
+      )
+    }
+    template = validatePromptTemplate(parsed, nameOrPath)
+    if (template.fewShot) {
+      template.fewShot = { ...template.fewShot, pool: path.resolve(path.dirname(nameOrPath), template.fewShot.pool) }
+    }
+  }
+
+  if (overrides.k !== undefined || overrides.pool !== undefined || overrides.seed !== undefined) {
+    const k = overrides.k ?? template.fewShot?.k
+    const pool = overrides.pool ?? template.fewShot?.pool
+    if (k === undefined || pool === undefined) {
+      throw new Error("Few-shot prompting needs both a shot count and a pool file")
+    }
+    template.fewShot = { k, pool, seed: overrides.seed ?? template.fewShot?.seed }
+  }
+
+  const pool = template.fewShot ? await loadExamples(template.fewShot.pool, undefined, { labels }) : []
+  if (template.fewShot && pool.length <= template.fewShot.k) {
+    throw new Error(
+      `Few-shot pool ${template.fewShot.pool} has ${pool.length} examples; need more than k=${template.fewShot.k}`,
+    )
+  }
+
+  const hashed = template.fewShot
+    ? { ...template, fewShot: { ...template.fewShot, pool: await sha256Hex(JSON.stringify(pool)) } }
+    : template
+  const hash = await sha256Hex(JSON.stringify(feverSchema ? hashed : { template: hashed, labels }))
+  return { template, hash, pool, labels }
+}
+
+/**
+ * Formats gold evidence references for the `{{evidence}}` variable.
+ * @param ex - The example.
+ * @returns One `page | sentence` line per reference, or a placeholder.
+ */
+function formatEvidenceVariable(ex: FeverExample): string {
+  const refs = (ex.evidence ?? []).flat()
+  if (refs.length === 0) return "(no evidence available)"
+  return refs.map((r) => `${r.page} | ${r.sentence}`).join("\n")
+}
+
+/**
+ * Substitutes template variables.
+ * @param text - Template text.
+ * @param ex - The example supplying the values.
+ * @param labels - The label schema.
+ * @returns Rendered text.
+ */
+function fill(text: string, ex: FeverExample, labels: LabelSchema): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    if (name === "claim") return ex.claim
+    if (name === "evidence") return formatEvidenceVariable(ex)
+    if (name === "labels") return labels.labels.join(", ")
+    return ""
+  })
+}
+
+/**
+ * Renders the ideal assistant reply for a few-shot example.
+ * @param ex - The few-shot example.
+ * @param format - Answer format of the template.
+ * @returns Assistant message text.
+ */
+function renderShotAnswer(ex: FeverExample, format: PromptAnswerFormat): string {
+  if (format === "cot") return `ANSWER: ${ex.label}`
+  if (format === "evidence") {
+    const refs = ex.label === "NOT ENOUGH INFO" ? [] : (ex.evidence?.[0] ?? [])
+    return [`LABEL: ${ex.label}`, ...refs.map((r) => `EVIDENCE: ${r.page} | ${r.sentence}`)].join("\n")
+  }
+  return ex.label
+}
+
+/**
+ * Samples few-shot examples for one example under test. The example itself
+ * (same ID or same claim) is never sampled, and the sample depends only on the
+ * seed and the example's ID.
+ * @param prompt - The resolved prompt.
+ * @param ex - The example under test.
+ * @returns Sampled few-shot examples.
+ */
+export function sampleFewShot(prompt: ResolvedPrompt, ex: FeverExample): FeverExample[] {
+  const cfg = prompt.template.fewShot
+  if (!cfg) return []
+  const candidates = prompt.pool.filter(
+    (p) => String(p.id) !== String(ex.id) && p.claim.trim() !== ex.claim.trim(),
+  )
+  const seed = (cfg.seed ?? DEFAULT_FEW_SHOT_SEED) ^ hashString(String(ex.id))
+  const rng = createRng(seed)
+  const k = Math.min(cfg.k, candidates.length)
+  // Partial Fisher–Yates over a copy: first k positions become the sample
+  const pool = candidates.slice()
+  for (let i = 0; i < k; i++) {
+    const j = i + randomInt(rng, pool.length - i)
+    const tmp = pool[i]
+    pool[i] = pool[j]
+    pool[j] = tmp
+  }
+  return pool.slice(0, k)
+}
+
+/**
+ * Renders a resolved prompt for one example: optional system message, few-shot
+ * user/assistant pairs, then the example under test.
+ * @param prompt - The resolved prompt.
+ * @param ex - The example under test.
+ * @returns System prompt and message list for the AI SDK.
+ */
+export function renderPrompt(prompt: ResolvedPrompt, ex: FeverExample): RenderedPrompt {
+  if (!ex.claim || typeof ex.claim !== "string" || !ex.claim.trim()) {
+    throw new Error("Claim must be a non-empty string")
+  }
+  const { template, labels } = prompt
+  const format = template.answer ?? "label"
+  const messages: ModelMessage[] = []
+  for (const shot of sampleFewShot(prompt, ex)) {
+    messages.push({ role: "user", content: fill(template.user, shot, labels) })
+    messages.push({ role: "assistant", content: renderShotAnswer(shot, format) })
+  }
+  messages.push({ role: "user", content: fill(template.user, ex, labels) })
+  return {
+    system: template.system ? fill(template.system, ex, labels) : undefined,
+    messages,
+  }
+}
+
+/**
+ * Extracts the final `ANSWER:` line of a chain-of-thought response.
+ * @param rawText - The raw model output.
+ * @returns The answer text, or undefined if no answer line exists.
+ */
+export function extractAnswerLine(rawText: string): string | undefined {
+  const lines = rawText.split(/\r?\n/)
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const m = lines[i].match(/^\s*(?:\*\*)?(?:final\s+)?answer(?:\*\*)?\s*:\s*(?:\*\*)?\s*(.+?)\s*(?:\*\*)?\s*$/i)
+    if (m) return m[1]
+  }
+  return undefined
+}
+
+/**
+ * Parses the predicted label from a response according to the answer format.
+ * Chain-of-thought responses without an answer line are invalid, so labels
+ * mentioned during reasoning are never picked up by accident.
+ * @param rawText - The raw model output.
+ * @param format - The template's answer format.
+ * @param labels - The label schema (default `fever`).
+ * @returns The predicted label and the parse path that produced it.
+ */
+export function parseAnswer(
+  rawText: string,
+  format: PromptAnswerFormat = "label",
+  labels: LabelSchema = DEFAULT_LABEL_SCHEMA,
+): { label: PredictedLabel; path: ParsePath } {
+  if (format === "cot") {
+    const answer = extractAnswerLine(rawText)
+    return answer === undefined ? { label: "INVALID", path: "invalid" } : parsePredictedLabel(answer, labels)
+  }
+  if (format === "evidence") {
+    return parsePredictedLabel(extractEvidenceModeLabelText(rawText), labels)
+  }
+  return parsePredictedLabel(rawText, labels)
+}
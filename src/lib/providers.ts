@@ -0,0 +1,327 @@
+import type { LanguageModel } from "ai"
+import { createOpenRouter } from "@openrouter/ai-sdk-provider"
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible"
+import { readJsonlFile } from "./readJsonl"
+import { hashString } from "./random"
+import { DEFAULT_LABEL_SCHEMA, resolveLabel, type LabelSchema } from "./labels"
+
+/**
+ * AI SDK language model object (the non-string form of `LanguageModel`).
+ */
+export type LanguageModelV2 = Exclude<LanguageModel, string>
+
+/**
+ * A source of language models. Model IDs are routed to a provider by prefix,
+ * e.g. `local:llama3` goes to the provider named `local`. IDs without a known
+ * prefix go to the `openrouter` provider.
+ */
+export type ModelProvider = {
+  name: string
+  languageModel(modelId: string): LanguageModelV2
+}
+
+/**
+ * Scripted mock response: receives the text of the final user message and the
+ * labels of the active schema, returns the reply.
+ */
+export type MockPolicy = (prompt: string, labels: string[]) => string
+
+export type ProviderOptions = {
+  openrouterApiKey?: string
+  localBaseURL?: string
+  localApiKey?: string
+  mockPolicies?: Record<string, MockPolicy>
+  /** Label schema the mock provider answers in (default `fever`). */
+  labels?: LabelSchema
+}
+
+export const DEFAULT_PROVIDER = "openrouter"
+export const DEFAULT_LOCAL_BASE_URL = "http://localhost:8080/v1"
+
+/**
+ * Splits a model ID into provider name and provider-specific model ID.
+ * A prefix is only recognized before the first `/`, so OpenRouter IDs such as
+ * `google/gemma-3-12b-it:free` are left untouched.
+ * @param modelId - The model ID, optionally prefixed (e.g. `mock:supports`).
+ * @returns Provider name and the model ID without the prefix.
+ */
+export function splitModelId(modelId: string): { provider: string; model: string } {
+  if (!modelId || typeof modelId !== "string") {
+    throw new Error("Model ID must be a non-empty string")
+  }
+  const colon = modelId.indexOf(":")
+  const slash = modelId.indexOf("/")
+  if (colon > 0 && (slash === -1 || colon < slash)) {
+    return { provider: modelId.slice(0, colon), model: modelId.slice(colon + 1) }
+  }
+  return { provider: DEFAULT_PROVIDER, model: modelId }
+}
+
+/**
+ * Creates the OpenRouter provider. The API key is only checked when a model is
+ * requested, so runs using only local or mock models don't need one.
+ * @param apiKey - The OpenRouter API key.
+ * @returns Model provider named `openrouter`.
+ */
+export function createOpenRouterModelProvider(apiKey?: string): ModelProvider {
+  let openrouter: ReturnType<typeof createOpenRouter> | undefined
+  return {
+    name: "openrouter",
+    languageModel(modelId: string) {
+      if (!apiKey || typeof apiKey !== "string") {
+        throw new Error("OpenRouter API key must be a non-empty string")
+      }
+      openrouter ??= createOpenRouter({ apiKey })
+      return openrouter.chat(modelId)
+    },
+  }
+}
+
+/**
+ * Creates a provider for any OpenAI-compatible chat completions endpoint
+ * (llama.cpp server, vLLM, Ollama, LM Studio, ...).
+ * @param params - Provider parameters.
+ * @param params.baseURL - Base URL including the `/v1` suffix.
+ * @param params.apiKey - Optional bearer token.
+ * @param params.name - Provider name / model ID prefix (defaults to `local`).
+ * @returns Model provider for the endpoint.
+ */
+export function createOpenAICompatibleModelProvider(params: {
+  baseURL: string
+  apiKey?: string
+  name?: string
+}): ModelProvider {
+  if (!params.baseURL || typeof params.baseURL !== "string") {
+    throw new Error("Base URL must be a non-empty string")
+  }
+  const name = params.name ?? "local"
+  const provider = createOpenAICompatible({
+    name,
+    baseURL: params.baseURL,
+    apiKey: params.apiKey,
+  })
+  return {
+    name,
+    languageModel(modelId: string) {
+      return provider.chatModel(modelId)
+    },
+  }
+}
+
+/**
+ * Built-in scripted policies for the mock provider (`mock:<policy>`). With
+ * other schemas, `supports`, `refutes` and `nei` answer with the first,
+ * second and last label; `random` picks any label of the schema.
+ */
+export const BUILTIN_MOCK_POLICIES: Record<string, MockPolicy> = {
+  supports: (_, labels) => (labels.includes("SUPPORTS") ? "SUPPORTS" : labels[0]),
+  refutes: (_, labels) => (labels.includes("REFUTES") ? "REFUTES" : labels[1]),
+  nei: (_, labels) => (labels.includes("NOT ENOUGH INFO") ? "NOT ENOUGH INFO" : labels[labels.length - 1]),
+  invalid: () => "I cannot answer that.",
+  random: (prompt, labels) => labels[hashString(prompt) % labels.length],
+}
+
+type MockFixtureRow = {
+  claim?: string
+  rawText?: string
+  text?: string
+}
+
+/**
+ * Loads a JSONL fixture and turns it into a replay policy. Rows need a `claim`
+ * and a `rawText` (or `text`) reply, so raw files from `runs/<runId>/raw/` can
+ * be replayed directly. The longest claim contained in the prompt wins.
+ * @param fixturePath - Path to the JSONL fixture.
+ * @returns Policy replaying the fixture responses.
+ */
+export async function loadMockFixture(fixturePath: string): Promise<MockPolicy> {
+  const responses = new Map<string, string>()
+  for await (const row of readJsonlFile<MockFixtureRow>(fixturePath)) {
+    const reply = row?.rawText ?? row?.text
+    if (!row?.claim || typeof reply !== "string") continue
+    responses.set(row.claim, reply)
+  }
+  if (responses.size === 0) {
+    throw new Error(`Mock fixture has no usable rows (need claim + rawText): ${fixturePath}`)
+  }
+  const claims = Array.from(responses.keys()).sort((a, b) => b.length - a.length)
+  return (prompt) => {
+    const claim = claims.find((c) => prompt.includes(c))
+    if (claim === undefined) {
+      throw new Error(`No mock fixture response for prompt in ${fixturePath}`)
+    }
+    return responses.get(claim)!
+  }
+}
+
+/**
+ * Extracts the text of the final user message, which holds the example under
+ * test even when few-shot examples precede it.
+ * @param prompt - The language model prompt messages.
+ * @returns Text of the last user message.
+ */
+function lastUserText(prompt: Parameters<LanguageModelV2["doGenerate"]>[0]["prompt"]): string {
+  for (let i = prompt.length - 1; i >= 0; i--) {
+    const m = prompt[i]
+    if (m.role !== "user") continue
+    return m.content.map((part) => (part.type === "text" ? part.text : "")).join("")
+  }
+  return ""
+}
+
+/**
+ * Builds OpenAI-style token logprobs for a mock reply: one token holding the
+ * whole reply, with the other labels as alternatives sharing the rest.
+ * @param text - The mock reply.
+ * @param label - The reply text trimmed (a label for built-in policies).
+ * @param confidence - Probability assigned to the reply.
+ * @param labels - Labels of the active schema.
+ * @returns `choices[0].logprobs.content` entries.
+ */
+function mockLogprobs(text: string, label: string, confidence: number, labels: string[]) {
+  const others = labels.filter((l) => l !== label)
+  const rest = (1 - confidence) / Math.max(1, others.length)
+  return [
+    {
+      token: text,
+      logprob: Math.log(confidence),
+      top_logprobs: [
+        { token: text, logprob: Math.log(confidence) },
+        ...others.map((l) => ({ token: l, logprob: Math.log(rest) })),
+      ],
+    },
+  ]
+}
+
+/**
+ * Creates the deterministic offline provider. `mock:<policy>` uses a built-in or
+ * custom policy; `mock:<path>.jsonl` replays responses from a fixture file.
+ * Bare-label replies are adapted to JSON mode and to confidence instructions,
+ * and token logprobs are returned when requested via `providerOptions.mock`.
+ * @param policies - Extra policies, merged over the built-in ones.
+ * @param schema - Label schema the policies answer in (default `fever`).
+ * @returns Model provider named `mock`.
+ */
+export function createMockModelProvider(
+  policies: Record<string, MockPolicy> = {},
+  schema: LabelSchema = DEFAULT_LABEL_SCHEMA,
+): ModelProvider {
+  const all = { ...BUILTIN_MOCK_POLICIES, ...policies }
+  const fixtures = new Map<string, Promise<MockPolicy>>()
+
+  async function policyFor(modelId: string): Promise<MockPolicy> {
+    if (modelId.endsWith(".jsonl")) {
+      let p = fixtures.get(modelId)
+      if (!p) {
+        p = loadMockFixture(modelId)
+        fixtures.set(modelId, p)
+      }
+      return p
+    }
+    const policy = all[modelId]
+    if (!policy) {
+      throw new Error(
+        `Unknown mock policy: ${modelId}. Expected a .jsonl fixture path or one of: ${Object.keys(all).join(", ")}`,
+      )
+    }
+    return policy
+  }
+
+  return {
+    name: "mock",
+    languageModel(modelId: string): LanguageModelV2 {
+      return {
+        specificationVersion: "v2",
+        provider: "mock",
+        modelId,
+        supportedUrls: {},
+        async doGenerate(options) {
+          const policy = await policyFor(modelId)
+          const promptText = lastUserText(options.prompt)
+          let text = policy(promptText, schema.labels)
+          const label = resolveLabel(text.trim(), schema) ?? text.trim()
+          // Deterministic per-prompt confidence in [0.5, 1] for bare-label replies
+          const confidence = (50 + (hashString(promptText) % 51)) / 100
+          if (schema.labels.includes(label)) {
+            // JSON mode: wrap the label in an answer object
+            if (options.responseFormat?.type === "json") {
+              text = JSON.stringify({ label, confidence, rationale: "mock" })
+            } else if (/^CONFIDENCE: <0-100>$/m.test(promptText)) {
+              text = `${label}\nCONFIDENCE: ${Math.round(confidence * 100)}`
+            } else if (/^PROBABILITIES:/m.test(promptText)) {
+              const rest = (1 - confidence) / (schema.labels.length - 1)
+              const probs = schema.labels.map((l) => `${l}=${(l === label ? confidence : rest).toFixed(2)}`)
+              text = `${label}\nPROBABILITIES: ${probs.join(", ")}`
+            }
+          }
+          const logprobs = options.providerOptions?.mock?.logprobs
+            ? mockLogprobs(text, label, confidence, schema.labels)
+            : undefined
+          return {
+            content: [{ type: "text", text }],
+            finishReason: "stop",
+            usage: {
+              inputTokens: Math.ceil(promptText.length / 4),
+              outputTokens: Math.ceil(text.length / 4),
+              totalTokens: Math.ceil(promptText.length / 4) + Math.ceil(text.length / 4),
+            },
+            warnings: [],
+            response: logprobs ? { body: { choices: [{ logprobs: { content: logprobs } }] } } : undefined,
+          }
+        },
+        async doStream() {
+          throw new Error("Streaming is not supported by the mock provider")
+        },
+      }
+    },
+  }
+}
+
+/**
+ * Creates the standard provider set: `openrouter`, `local` and `mock`.
+ * @param opts - Provider options.
+ * @returns Array of model providers.
+ */
+export function createDefaultProviders(opts: ProviderOptions = {}): ModelProvider[] {
+  return [
+    createOpenRouterModelProvider(opts.openrouterApiKey),
+    createOpenAICompatibleModelProvider({
+      name: "local",
+      baseURL: opts.localBaseURL ?? DEFAULT_LOCAL_BASE_URL,
+      apiKey: opts.localApiKey,
+    }),
+    createMockModelProvider(opts.mockPolicies, opts.labels),
+  ]
+}
+
+/**
+ * Resolves a (possibly prefixed) model ID to a language model.
+ * @param modelId - The model ID, e.g. `mock:supports` or `google/gemma-3-12b-it:free`.
+ * @param providers - Available providers.
+ * @returns The language model to call.
+ * @throws Error if no provider matches the prefix.
+ */
+export function resolveLanguageModel(modelId: string, providers: ModelProvider[]): LanguageModelV2 {
+  const { provider, model } = splitModelId(modelId)
+  const p = providers.find((x) => x.name === provider)
+  if (!p) {
+    // Unknown prefix: treat the whole ID as an OpenRouter model ID
+    const fallback = providers.find((x) => x.name === DEFAULT_PROVIDER)
+    if (!fallback) {
+      throw new Error(`No provider registered for model ID: ${modelId}`)
+    }
+    return fallback.languageModel(modelId)
+  }
+  return p.languageModel(model)
+}
+
+/**
+ * Returns true if the model ID is served by a provider that needs an OpenRouter key.
+ * @param modelId - The model ID.
+ * @param providerNames - Names of registered providers.
+ * @returns Whether the model routes to OpenRouter.
+ */
+export function usesOpenRouter(modelId: string, providerNames: string[] = ["local", "mock"]): boolean {
+  const { provider } = splitModelId(modelId)
+  return provider === DEFAULT_PROVIDER || !providerNames.includes(provider)
+}
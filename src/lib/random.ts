@@ -0,0 +1,56 @@
+/**
+ * Seeded pseudo-random number generator (mulberry32).
+ * Returns floats in [0, 1); the same seed always yields the same sequence.
+ * @param seed - 32-bit integer seed.
+ * @returns Function producing the next random number.
+ */
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Returns a random integer in [0, n).
+ * @param rng - Random number generator.
+ * @param n - Exclusive upper bound.
+ * @returns Random integer.
+ */
+export function randomInt(rng: () => number, n: number): number {
+  return Math.floor(rng() * n)
+}
+
+/**
+ * Shuffles an array in place (Fisher–Yates) using the given generator.
+ * @param arr - Array to shuffle.
+ * @param rng - Random number generator.
+ * @returns The same array, shuffled.
+ */
+export function shuffleInPlace<T>(arr: T[], rng: () => number): T[] {
+  for (let i = arr.length - 1; i > 0; i--) {
+    const j = randomInt(rng, i + 1)
+    const tmp = arr[i]
+    arr[i] = arr[j]
+    arr[j] = tmp
+  }
+  return arr
+}
+
+/**
+ * Deterministic 32-bit FNV-1a string hash, handy for deriving per-item seeds.
+ * @param s - The string to hash.
+ * @returns Unsigned 32-bit hash.
+ */
+export function hashString(s: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
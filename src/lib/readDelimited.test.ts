@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test"
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { readDelimitedRows, type DelimitedReadOptions } from "./readDelimited"
+
+let dir: string
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "factbench-delimited-"))
+})
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+/**
+ * Writes a file and reads all of its records.
+ * @param name - File name inside the temp directory.
+ * @param content - File content.
+ * @param options - Read options.
+ * @returns The records.
+ */
+async function readAll(name: string, content: string, options: DelimitedReadOptions) {
+  const filePath = path.join(dir, name)
+  await Bun.write(filePath, content)
+  const rows: Array<{ line: number; value: Record<string, string> }> = []
+  for await (const row of readDelimitedRows(filePath, options)) rows.push(row)
+  return rows
+}
+
+describe("readDelimitedRows", () => {
+  test("reads quoted CSV fields with delimiters, doubled quotes and line breaks", async () => {
+    const rows = await readAll(
+      "quoted.csv",
+      'id,claim,label\r\n1,"multi\nline ""quoted"", ok",SUPPORTS\n\n2,plain,REFUTES\n',
+      { delimiter: "," },
+    )
+    expect(rows).toEqual([
+      { line: 2, value: { id: "1", claim: 'multi\nline "quoted", ok', label: "SUPPORTS" } },
+      { line: 5, value: { id: "2", claim: "plain", label: "REFUTES" } },
+    ])
+  })
+
+  test("fills missing trailing fields and rejects extra ones", async () => {
+    const rows = await readAll("short.csv", "a,b,c\n1,2\n", { delimiter: "," })
+    expect(rows[0].value).toEqual({ a: "1", b: "2", c: "" })
+    await expect(readAll("long.csv", "a,b\n1,2,3\n", { delimiter: "," })).rejects.toThrow(
+      "Invalid record on line 2",
+    )
+  })
+
+  test("names the columns of a headerless TSV by position, without quoting", async () => {
+    const rows = await readAll("plain.tsv", 'x1\ttrue\t"quoted"\n', { delimiter: "\t", header: false })
+    expect(rows).toEqual([{ line: 1, value: { "1": "x1", "2": "true", "3": '"quoted"' } }])
+  })
+
+  test("reports an unterminated quote at the line it started on", async () => {
+    await expect(
+      readAll("open.csv", 'id,claim\n1,ok\n2,"never closed\n3,more\n', { delimiter: "," }),
+    ).rejects.toThrow("Invalid record on line 3 of")
+  })
+
+  test("gives up on a quoted field longer than the record cap and carries on in lenient mode", async () => {
+    const skipped: Array<{ line: number; message: string }> = []
+    const filler = `${"x".repeat(99)}\n`.repeat(1500)
+    const rows = await readAll("runaway.csv", `id,claim\n1,"open\n${filler}`, {
+      delimiter: ",",
+      lenient: true,
+      onInvalidLine: (info) => skipped.push(info),
+    })
+    expect(skipped).toEqual([{ line: 2, message: "unterminated quoted field starting on line 2" }])
+    // Reading resumes with a fresh record after the cap, well before the end of the file
+    expect(rows.length).toBeGreaterThan(0)
+    expect(rows.length).toBeLessThan(1500)
+  })
+})
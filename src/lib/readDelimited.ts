@@ -0,0 +1,138 @@
+import { readLines } from "./readJsonl"
+
+/**
+ * Options of `readDelimitedRows`.
+ */
+export type DelimitedReadOptions = {
+  /** Field separator: `,` for CSV (quotes are honoured), a tab for TSV (no quoting). */
+  delimiter: "," | "\t"
+  /** Whether the first record names the columns (default true). Without one, columns are named `1`, `2`, ... */
+  header?: boolean
+  /** Skip records that can't be parsed instead of throwing. */
+  lenient?: boolean
+  /** Called for every skipped record in lenient mode. */
+  onInvalidLine?: (info: { line: number; message: string }) => void
+}
+
+/** Longest CSV record (in characters) a quoted field may stretch to before it counts as unterminated. */
+const MAX_RECORD_LENGTH = 100_000
+
+/**
+ * A CSV record being read; it spans several lines while a quoted field is open.
+ */
+type CsvRecord = {
+  fields: string[]
+  field: string
+  quoted: boolean
+  length: number
+}
+
+/**
+ * Creates an empty CSV record.
+ * @returns The record.
+ */
+function newCsvRecord(): CsvRecord {
+  return { fields: [], field: "", quoted: false, length: 0 }
+}
+
+/**
+ * Adds one line to a CSV record (RFC 4180: quoted fields may hold the
+ * delimiter, doubled quotes and line breaks). Only the new line is scanned,
+ * so a long multi-line record is read in linear time.
+ * @param record - The record so far; updated in place.
+ * @param text - The next line.
+ * @returns True when the record is complete, false while a quoted field is still open.
+ */
+function addCsvLine(record: CsvRecord, text: string): boolean {
+  record.length += text.length + 1
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]
+    if (record.quoted) {
+      if (c !== '"') record.field += c
+      else if (text[i + 1] === '"') {
+        record.field += '"'
+        i++
+      } else record.quoted = false
+    } else if (c === '"' && record.field === "") record.quoted = true
+    else if (c === ",") {
+      record.fields.push(record.field)
+      record.field = ""
+    } else record.field += c
+  }
+  if (record.quoted) {
+    record.field += "\n"
+    return false
+  }
+  record.fields.push(record.field)
+  return true
+}
+
+/**
+ * Streams a CSV or TSV file, yielding each record as an object keyed by the
+ * column names. Blank lines are skipped; missing trailing fields are empty.
+ * A quoted field left open for more than `MAX_RECORD_LENGTH` characters is
+ * reported as unterminated at the line it started on; lenient mode skips it
+ * and starts a new record on the next line.
+ * @param filePath - Path to the file (`.gz` is decompressed).
+ * @param options - Delimiter, header, lenient mode and a callback for skipped records.
+ * @yields Records with the 1-based line number they start on.
+ * @throws Error if the file doesn't exist, or on a malformed record unless lenient.
+ */
+export async function* readDelimitedRows(
+  filePath: string,
+  options: DelimitedReadOptions,
+): AsyncGenerator<{ line: number; value: Record<string, string> }, void, void> {
+  let columns: string[] | undefined
+  let line = 0
+  let start = 0
+  let pending: CsvRecord | undefined
+  const unterminated = () => {
+    const message = `unterminated quoted field starting on line ${start}`
+    if (!options.lenient) {
+      throw new Error(`Invalid record on line ${start} of ${filePath}: ${message}`)
+    }
+    options.onInvalidLine?.({ line: start, message })
+  }
+  for await (const text of readLines(filePath)) {
+    line++
+    if (pending === undefined && !text.trim()) continue
+    if (pending === undefined) start = line
+
+    let fields: string[]
+    if (options.delimiter === "\t") {
+      fields = text.split("\t")
+    } else {
+      pending ??= newCsvRecord()
+      if (!addCsvLine(pending, text)) {
+        if (pending.length > MAX_RECORD_LENGTH) {
+          unterminated()
+          pending = undefined
+        }
+        continue
+      }
+      fields = pending.fields
+      pending = undefined
+    }
+
+    if (!columns) {
+      if (options.header ?? true) {
+        columns = fields.map((f) => f.trim())
+        continue
+      }
+      columns = []
+    }
+    // Headerless files name columns by position, as many as the widest record
+    while (columns.length < fields.length && !(options.header ?? true)) columns.push(String(columns.length + 1))
+    if (fields.length > columns.length) {
+      const message = `expected at most ${columns.length} fields, found ${fields.length}`
+      if (!options.lenient) {
+        throw new Error(`Invalid record on line ${start} of ${filePath}: ${message}`)
+      }
+      options.onInvalidLine?.({ line: start, message })
+      continue
+    }
+    yield { line: start, value: Object.fromEntries(columns.map((c, i) => [c, fields[i] ?? ""])) }
+  }
+
+  if (pending !== undefined) unterminated()
+}
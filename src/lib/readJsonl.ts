@@ -1,44 +1,107 @@
 /**
- * Reads a JSONL file line by line, yielding parsed JSON objects.
- * @param filePath - Path to the JSONL file.
- * @param limit - Optional maximum number of lines to read.
- * @yields Parsed JSON objects from each line.
- * @throws Error if the file doesn't exist or contains invalid JSON.
+ * Options of `readJsonlRows` / `readJsonlFile`.
  */
-export async function* readJsonlFile<T = unknown>(
-  filePath: string,
-  limit?: number,
-): AsyncGenerator<T, void, void> {
+export type JsonlReadOptions = {
+  /** Skip lines that are not valid JSON instead of throwing. */
+  lenient?: boolean
+  /** Called for every skipped line in lenient mode. */
+  onInvalidLine?: (info: { line: number; message: string }) => void
+}
+
+/**
+ * Streams the lines of a text file, decompressing `.gz` files on the fly.
+ * The file is read as the lines are consumed, so only a chunk is held in
+ * memory and a slow consumer pauses the read (backpressure). Stopping early
+ * releases the file.
+ * @param filePath - Path to the file (`.gz` for gzip-compressed input).
+ * @yields Lines without their line terminator.
+ * @throws Error if the file doesn't exist.
+ */
+export async function* readLines(filePath: string): AsyncGenerator<string, void, void> {
   if (!filePath || typeof filePath !== "string") {
     throw new Error("File path must be a non-empty string")
   }
-  if (limit !== undefined && (limit < 0 || !Number.isInteger(limit))) {
-    throw new Error("Limit must be a non-negative integer")
-  }
-
   const file = Bun.file(filePath)
   if (!(await file.exists())) {
-    throw new Error(`JSONL file not found: ${filePath}`)
+    throw new Error(`File not found: ${filePath}`)
   }
 
-  const text = await file.text()
-  const lines = text.split(/\r?\n/)
+  let bytes: ReadableStream<Uint8Array> = file.stream()
+  if (filePath.endsWith(".gz")) {
+    bytes = bytes.pipeThrough(new DecompressionStream("gzip") as ReadableWritablePair<Uint8Array, Uint8Array>)
+  }
+  const reader = bytes.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ""
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      const lines = (buffered + decoder.decode(value, { stream: true })).split("\n")
+      buffered = lines.pop()!
+      for (const line of lines) yield line.endsWith("\r") ? line.slice(0, -1) : line
+    }
+    buffered += decoder.decode()
+    if (buffered) yield buffered.endsWith("\r") ? buffered.slice(0, -1) : buffered
+  } finally {
+    await reader.cancel()
+  }
+}
 
-  let yielded = 0
-  for (let i = 0; i < lines.length; i++) {
-    if (limit != null && yielded >= limit) break
-    const trimmed = lines[i].trim()
+/**
+ * Streams a JSONL file, yielding each parsed row with its line number.
+ * Blank lines are skipped.
+ * @param filePath - Path to the JSONL file (`.jsonl.gz` is decompressed).
+ * @param options - Lenient mode and a callback for skipped lines.
+ * @yields Parsed rows with their 1-based line number.
+ * @throws Error if the file doesn't exist, or on invalid JSON unless lenient.
+ */
+export async function* readJsonlRows<T = unknown>(
+  filePath: string,
+  options: JsonlReadOptions = {},
+): AsyncGenerator<{ line: number; value: T }, void, void> {
+  let line = 0
+  for await (const text of readLines(filePath)) {
+    line++
+    const trimmed = text.trim()
     if (!trimmed) continue
-    
+
+    let value: T
     try {
-      yield JSON.parse(trimmed) as T
-      yielded++
+      value = JSON.parse(trimmed) as T
     } catch (err) {
-      throw new Error(
-        `Invalid JSON on line ${i + 1} of ${filePath}: ${err instanceof Error ? err.message : String(err)}`
-      )
+      const message = err instanceof Error ? err.message : String(err)
+      if (!options.lenient) {
+        throw new Error(`Invalid JSON on line ${line} of ${filePath}: ${message}`)
+      }
+      options.onInvalidLine?.({ line, message })
+      continue
     }
+    yield { line, value }
   }
 }
 
+/**
+ * Reads a JSONL file line by line, yielding parsed JSON objects.
+ * @param filePath - Path to the JSONL file (`.jsonl.gz` is decompressed).
+ * @param limit - Optional maximum number of lines to read.
+ * @param options - Lenient mode and a callback for skipped lines.
+ * @yields Parsed JSON objects from each line.
+ * @throws Error if the file doesn't exist, or contains invalid JSON unless lenient.
+ */
+export async function* readJsonlFile<T = unknown>(
+  filePath: string,
+  limit?: number,
+  options: JsonlReadOptions = {},
+): AsyncGenerator<T, void, void> {
+  if (limit !== undefined && (limit < 0 || !Number.isInteger(limit))) {
+    throw new Error("Limit must be a non-negative integer")
+  }
+  if (limit === 0) return
 
+  let yielded = 0
+  for await (const row of readJsonlRows<T>(filePath, options)) {
+    yield row.value
+    if (limit !== undefined && ++yielded >= limit) break
+  }
+}
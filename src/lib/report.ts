@@ -1,6 +1,16 @@
-import { FEVER_LABELS, type FeverLabel } from "./labels"
-import type { ModelEvalSummary } from "./evaluate"
-import { mkdir } from "node:fs/promises"
+import { PARSE_PATHS, type ConfusionMatrix, type ParsePath } from "./labels"
+import type { EvalMode, GenerationSettings, ModelEvalSummary } from "./evaluate"
+import type { ClassificationMetrics } from "./metrics"
+import type { OutputFormat } from "./structured"
+import type { CalibrationSummary, ConfidenceMethod } from "./calibration"
+import type { RunComparison } from "./compare"
+import { analyzeErrors, type ClaimOutcome, type ErrorAnalysis } from "./errorAnalysis"
+import type { Leaderboard, LeaderboardResult } from "./leaderboard"
+import { escapeHtml } from "./html"
+import { formatUsd } from "./cost"
+import { formatMs } from "./latency"
+import { compareAllModels, type Interval, type PairwiseComparison } from "./stats"
+import { appendFile, mkdir } from "node:fs/promises"
 
 export type RunReportMeta = {
   runId: string
@@ -9,6 +19,61 @@ export type RunReportMeta = {
   limit: number
   models: string[]
   concurrency: number
+  parallelModels?: number
+  maxConcurrency?: number
+  mode?: EvalMode
+  promptTemplate?: string
+  promptHash?: string
+  /** Content hash of the evaluated examples; equal hashes mean comparable runs. */
+  datasetHash?: string
+  /** Cache variant by model ID: the evaluation setup (mode, prompt, output, ...) plus the model's sampling settings. Models on the default setup are missing. */
+  cacheVariants?: Record<string, string>
+  /** Rows skipped or flagged by the dataset load, e.g. "skipped 3 rows: 2 invalid label, 1 duplicate ID". */
+  datasetIssues?: string
+  /** How the examples were picked, e.g. "stratified by label (seed 7), shard 2/4". */
+  sampling?: string
+  /** Label schema, e.g. "binary (TRUE, FALSE)"; unset for FEVER. */
+  labels?: string
+  output?: OutputFormat
+  confidence?: ConfidenceMethod
+  /** Display names by model ID; tables keep the ID alongside. */
+  aliases?: Record<string, string>
+  /** Sampling settings by model ID; models using provider defaults are missing. */
+  generation?: Record<string, GenerationSettings>
+  /** Samples per claim, combined by majority vote. */
+  samples?: number
+  /** Set when the run stopped before every item was evaluated. */
+  incomplete?: {
+    completed: number
+    expected: number
+    /** Why the run stopped, e.g. an exhausted budget; unset for a user interrupt. */
+    reason?: string
+  }
+}
+
+/**
+ * Formats a model for Markdown, with its alias if it has one.
+ * @param modelId - The model ID.
+ * @param aliases - Display names by model ID.
+ * @returns E.g. "Fast (`openai/gpt-4o-mini`)" or "`openai/gpt-4o-mini`".
+ */
+function modelLabel(modelId: string, aliases?: Record<string, string>): string {
+  const alias = aliases?.[modelId]
+  return alias ? `${alias} (\`${modelId}\`)` : `\`${modelId}\``
+}
+
+/**
+ * Formats sampling settings for the run config.
+ * @param g - Sampling settings.
+ * @returns E.g. "temperature 0.7, max tokens 256, seed 1".
+ */
+function formatGeneration(g: GenerationSettings): string {
+  const parts: string[] = []
+  if (g.temperature !== undefined) parts.push(`temperature ${g.temperature}`)
+  if (g.maxTokens !== undefined) parts.push(`max tokens ${g.maxTokens}`)
+  if (g.seed !== undefined) parts.push(`seed ${g.seed}`)
+  if (g.stop?.length) parts.push(`stop ${g.stop.map((x) => JSON.stringify(x)).join(" ")}`)
+  return parts.join(", ")
 }
 
 /**
@@ -23,6 +88,36 @@ function pct(x: number): string {
   return `${(x * 100).toFixed(1)}%`
 }
 
+/**
+ * Formats a confidence interval as a percentage range.
+ * @param ci - The interval (or undefined).
+ * @returns Formatted range string, or "-" if unavailable.
+ */
+function pctRange(ci: Interval | undefined): string {
+  if (!ci) return "-"
+  return `${pct(ci.lower)}–${pct(ci.upper)}`
+}
+
+/**
+ * Formats a p-value, flagging values below 0.05.
+ * @param p - The p-value.
+ * @returns Formatted p-value string.
+ */
+function formatP(p: number): string {
+  const s = p < 0.001 ? "<0.001" : p.toFixed(3)
+  return p < 0.05 ? `${s}*` : s
+}
+
+/**
+ * Formats a signed accuracy difference in percentage points.
+ * @param x - Difference as a fraction.
+ * @returns Signed percentage-point string.
+ */
+function signedPp(x: number): string {
+  const v = (x * 100).toFixed(1)
+  return x > 0 ? `+${v}pp` : `${v}pp`
+}
+
 /**
  * Converts a string to a filesystem-safe slug.
  * Replaces invalid characters with underscores.
@@ -63,20 +158,143 @@ export async function writeJsonl(path: string, rows: unknown[]) {
   await Bun.write(path, content)
 }
 
+/**
+ * Appends one object as a line to a JSONL file, creating the file if needed.
+ * @param path - The file path to append to.
+ * @param row - Object to serialize.
+ */
+export async function appendJsonl(path: string, row: unknown) {
+  if (!path || typeof path !== "string") {
+    throw new Error("Path must be a non-empty string")
+  }
+  await appendFile(path, JSON.stringify(row) + "\n", "utf8")
+}
+
+/**
+ * Formats a throughput figure.
+ * @param x - Rate per second (undefined when unknown).
+ * @returns Rate with two decimals, or "-".
+ */
+function rate(x: number | undefined): string {
+  return x === undefined || !Number.isFinite(x) ? "-" : x.toFixed(2)
+}
+
 /**
  * Generates a markdown table representation of a confusion matrix.
  * @param cm - The confusion matrix to render.
  * @returns Markdown table string.
  */
-function confusionTable(cm: Record<FeverLabel, Record<FeverLabel, number>>): string {
-  const header = `| gold\\\\pred | ${FEVER_LABELS.join(" | ")} |\n|---|${FEVER_LABELS.map(() => "---").join("|")}|`
-  const rows = FEVER_LABELS.map((g) => {
-    const vals = FEVER_LABELS.map((p) => String(cm[g][p]))
+function confusionTable(cm: ConfusionMatrix): string {
+  const header = `| gold\\\\pred | ${cm.labels.join(" | ")} |\n|---|${cm.labels.map(() => "---").join("|")}|`
+  const rows = cm.labels.map((g) => {
+    const vals = cm.labels.map((p) => String(cm.counts[g][p]))
     return `| ${g} | ${vals.join(" | ")} |`
   }).join("\n")
   return `${header}\n${rows}`
 }
 
+/**
+ * Generates a markdown table of per-label precision, recall and F1.
+ * @param m - Classification metrics for one model.
+ * @returns Markdown table string.
+ */
+function metricsTable(m: ClassificationMetrics): string {
+  const header = "| label | precision | recall | F1 | support |\n|---|---:|---:|---:|---:|"
+  const rows = Object.entries(m.perLabel).map(([l, x]) => {
+    return `| ${l} | ${pct(x.precision)} | ${pct(x.recall)} | ${pct(x.f1)} | ${x.support} |`
+  }).join("\n")
+  return `${header}\n${rows}`
+}
+
+/**
+ * Generates a markdown table of how labels were extracted from responses.
+ * @param counts - Scored items per parse path.
+ * @returns Markdown table string.
+ */
+function parsePathTable(counts: Record<ParsePath, number>): string {
+  const total = PARSE_PATHS.reduce((n, p) => n + counts[p], 0)
+  const header = "| parse path | items | share |\n|---|---:|---:|"
+  const rows = PARSE_PATHS.map((p) => `| ${p} | ${counts[p]} | ${pct(total === 0 ? 0 : counts[p] / total)} |`)
+  return `${header}\n${rows.join("\n")}`
+}
+
+/**
+ * Renders a text reliability diagram: one row per confidence bin with the
+ * observed accuracy drawn as a bar and the calibration gap.
+ * @param c - Calibration summary for one model.
+ * @returns Markdown table string.
+ */
+function reliabilityTable(c: CalibrationSummary): string {
+  const width = 20
+  const header =
+    "| confidence | items | mean confidence | accuracy | gap | accuracy bar |\n|---|---:|---:|---:|---:|---|"
+  const rows = c.bins.map((b) => {
+    const range = `${pct(b.lower)}–${pct(b.upper)}`
+    if (b.count === 0) return `| ${range} | 0 | - | - | - | |`
+    const filled = Math.round(b.accuracy * width)
+    const bar = "█".repeat(filled) + "░".repeat(width - filled)
+    return `| ${range} | ${b.count} | ${pct(b.meanConfidence)} | ${pct(b.accuracy)} | ${signedPp(b.meanConfidence - b.accuracy)} | \`${bar}\` |`
+  })
+  return `${header}\n${rows.join("\n")}`
+}
+
+/**
+ * Generates a markdown table of mean confidence vs accuracy per predicted label.
+ * @param c - Calibration summary for one model.
+ * @returns Markdown table string.
+ */
+function confidenceByLabelTable(c: CalibrationSummary): string {
+  const header = "| predicted | items | mean confidence | accuracy | overconfidence |\n|---|---:|---:|---:|---:|"
+  const rows = Object.entries(c.byLabel).map(([l, x]) => {
+    if (x.n === 0) return `| ${l} | 0 | - | - | - |`
+    return `| ${l} | ${x.n} | ${pct(x.meanConfidence)} | ${pct(x.accuracy)} | ${signedPp(x.meanConfidence - x.accuracy)} |`
+  })
+  return `${header}\n${rows.join("\n")}`
+}
+
+/**
+ * Renders the pairwise significance section: a matrix of accuracy deltas with
+ * McNemar p-values, followed by a detailed table per pair.
+ * @param comparisons - Pairwise comparisons.
+ * @param models - Model IDs in display order.
+ * @returns Markdown section string.
+ */
+function significanceSection(comparisons: PairwiseComparison[], models: string[]): string {
+  const find = (a: string, b: string) => {
+    const c = comparisons.find((x) => x.modelA === a && x.modelB === b)
+    if (c) return { delta: c.delta, p: c.mcnemarP }
+    const r = comparisons.find((x) => x.modelA === b && x.modelB === a)
+    return r ? { delta: -r.delta, p: r.mcnemarP } : undefined
+  }
+
+  const out: string[] = []
+  out.push("## Significance")
+  out.push("")
+  out.push(
+    "Row minus column accuracy on shared examples, with the McNemar p-value in parentheses (`*` = p < 0.05).",
+  )
+  out.push("")
+  out.push(`| row \\ col | ${models.map((m) => `\`${m}\``).join(" | ")} |`)
+  out.push(`|---|${models.map(() => "---:").join("|")}|`)
+  for (const a of models) {
+    const cells = models.map((b) => {
+      if (a === b) return "—"
+      const c = find(a, b)
+      return c ? `${signedPp(c.delta)} (${formatP(c.p)})` : "-"
+    })
+    out.push(`| \`${a}\` | ${cells.join(" | ")} |`)
+  }
+  out.push("")
+  out.push("| model A | model B | n | Δ accuracy | Δ 95% CI | only A / only B | McNemar p | paired bootstrap p |")
+  out.push("|---|---|---:|---:|---:|---:|---:|---:|")
+  for (const c of comparisons) {
+    out.push(
+      `| \`${c.modelA}\` | \`${c.modelB}\` | ${c.n} | ${signedPp(c.delta)} | ${signedPp(c.deltaCI.lower)} to ${signedPp(c.deltaCI.upper)} | ${c.onlyA} / ${c.onlyB} | ${formatP(c.mcnemarP)} | ${formatP(c.bootstrapP)} |`,
+    )
+  }
+  return out.join("\n")
+}
+
 /**
  * Renders a markdown report from evaluation summaries.
  * @param meta - Metadata about the evaluation run.
@@ -88,34 +306,206 @@ export function renderMarkdownReport(meta: RunReportMeta, summaries: ModelEvalSu
     throw new Error("Summaries must be an array")
   }
   const lines: string[] = []
-  lines.push(`# FactBench Run: ${meta.runId}`)
+  lines.push(`# FactBench Run: ${meta.runId}${meta.incomplete ? " (incomplete)" : ""}`)
   lines.push("")
+  if (meta.incomplete) {
+    lines.push(
+      `> **Incomplete run**: ${meta.incomplete.reason ? `stopped (${meta.incomplete.reason})` : "interrupted"} after ${meta.incomplete.completed} of ${meta.incomplete.expected} items. Metrics cover completed items only. Continue with \`--resume ${meta.runId}\`.`,
+    )
+    lines.push("")
+  }
   lines.push("## Run config")
   lines.push("")
   lines.push(`- **timestamp**: ${meta.timestampIso}`)
   lines.push(`- **file**: \`${meta.filePath}\``)
+  if (meta.datasetHash) lines.push(`- **dataset hash**: \`${meta.datasetHash.slice(0, 12)}\``)
+  if (meta.datasetIssues) lines.push(`- **dataset issues**: ${meta.datasetIssues} (see \`dataset-report.json\`)`)
   lines.push(`- **limit**: ${meta.limit}`)
-  lines.push(`- **concurrency**: ${meta.concurrency}`)
-  lines.push(`- **models**: ${meta.models.map((m) => `\`${m}\``).join(", ")}`)
+  if (meta.sampling) lines.push(`- **examples**: ${meta.sampling} (IDs in \`sample.json\`)`)
+  if (meta.labels) lines.push(`- **labels**: ${meta.labels}`)
+  lines.push(`- **concurrency**: ${meta.concurrency} per model`)
+  lines.push(`- **parallel models**: ${meta.parallelModels ?? meta.models.length}`)
+  if (meta.maxConcurrency) lines.push(`- **max concurrency**: ${meta.maxConcurrency}`)
+  lines.push(`- **mode**: ${meta.mode ?? "label"}`)
+  if (meta.promptTemplate) {
+    const hash = meta.promptHash ? ` (\`${meta.promptHash.slice(0, 12)}\`)` : ""
+    lines.push(`- **prompt**: ${meta.promptTemplate}${hash}`)
+  }
+  lines.push(`- **output**: ${meta.output ?? "text"}`)
+  lines.push(`- **confidence**: ${meta.confidence ?? "none"}`)
+  lines.push(`- **models**: ${meta.models.map((m) => modelLabel(m, meta.aliases)).join(", ")}`)
+  for (const [m, g] of Object.entries(meta.generation ?? {})) {
+    lines.push(`- **sampling** ${modelLabel(m, meta.aliases)}: ${formatGeneration(g)}`)
+  }
+  if (meta.samples && meta.samples > 1) lines.push(`- **samples**: ${meta.samples} per claim (majority vote)`)
   lines.push("")
 
   lines.push("## Summary")
   lines.push("")
-  lines.push("| model | accuracy | invalid-rate | correct/total |")
-  lines.push("|---|---:|---:|---:|")
+  const ciLevel = summaries.find((s) => s.ci)?.ci?.confidence ?? 0.95
+  const ciLabel = `${Math.round(ciLevel * 100)}% CI`
+  lines.push(
+    `| model | accuracy | accuracy ${ciLabel} | macro-F1 | macro-F1 ${ciLabel} | weighted-F1 | balanced-acc | kappa | invalid-rate | correct/total |`,
+  )
+  lines.push("|---|---:|---:|---:|---:|---:|---:|---:|---:|---:|")
   for (const s of summaries) {
+    const m = s.metrics
     lines.push(
-      `| \`${s.modelId}\` | ${pct(s.accuracy)} | ${pct(s.invalidRate)} | ${s.correct}/${s.total} |`,
+      `| ${modelLabel(s.modelId, meta.aliases)} | ${pct(s.accuracy)} | ${pctRange(s.ci?.accuracy)} | ${pct(m.macroF1)} | ${pctRange(s.ci?.macroF1)} | ${pct(m.weightedF1)} | ${pct(m.balancedAccuracy)} | ${m.kappa.toFixed(3)} | ${pct(s.invalidRate)} | ${s.correct}/${s.total} |`,
     )
   }
   lines.push("")
 
+  if (summaries.length > 1) {
+    lines.push(significanceSection(compareAllModels(summaries), summaries.map((s) => s.modelId)))
+    lines.push("")
+  }
+
+  if (summaries.some((s) => s.evidence)) {
+    lines.push("## Evidence retrieval")
+    lines.push("")
+    lines.push("| model | FEVER score | evidence precision | evidence recall | evidence F1 | scored |")
+    lines.push("|---|---:|---:|---:|---:|---:|")
+    for (const s of summaries) {
+      if (!s.evidence) continue
+      const e = s.evidence
+      lines.push(
+        `| \`${s.modelId}\` | ${pct(e.strictScore)} | ${pct(e.precision)} | ${pct(e.recall)} | ${pct(e.f1)} | ${e.scored} |`,
+      )
+    }
+    lines.push("")
+  }
+
+  const costed = summaries.filter((s) => s.cost)
+  if (costed.length > 0) {
+    lines.push("## Cost")
+    lines.push("")
+    lines.push(
+      "Estimated from the pricing table (`n/a`: model not priced). Cached answers cost nothing in this run; their original cost is listed separately. Cost per correct answer includes both.",
+    )
+    lines.push("")
+    lines.push(
+      "| model | prompt tokens | completion tokens | cost | cost per correct | cached items | cached tokens | cached cost (saved) |",
+    )
+    lines.push("|---|---:|---:|---:|---:|---:|---:|---:|")
+    for (const s of costed) {
+      const c = s.cost!
+      lines.push(
+        `| \`${s.modelId}\` | ${c.spent.promptTokens} | ${c.spent.completionTokens} | ${formatUsd(c.spent.costUsd)} | ${formatUsd(c.costPerCorrectUsd)} | ${c.cached.items} | ${c.cached.totalTokens} | ${formatUsd(c.cached.costUsd)} |`,
+      )
+    }
+    lines.push("")
+  }
+
+  const timed = summaries.filter((s) => s.latency)
+  if (timed.length > 0) {
+    lines.push("## Latency")
+    lines.push("")
+    lines.push(
+      "End-to-end per request, including retries, over the requests made in this run (cached answers excluded). Tokens/s is completion tokens per second of request latency.",
+    )
+    lines.push("")
+    lines.push("| model | requests | mean | p50 | p90 | p99 | max | requests/s | tokens/s |")
+    lines.push("|---|---:|---:|---:|---:|---:|---:|---:|---:|")
+    for (const s of timed) {
+      const l = s.latency!
+      if (l.count === 0) {
+        lines.push(`| \`${s.modelId}\` | 0 | - | - | - | - | - | - | - |`)
+        continue
+      }
+      lines.push(
+        `| \`${s.modelId}\` | ${l.count} | ${formatMs(l.meanMs)} | ${formatMs(l.p50Ms)} | ${formatMs(l.p90Ms)} | ${formatMs(l.p99Ms)} | ${formatMs(l.maxMs)} | ${rate(l.requestsPerSecond)} | ${rate(l.tokensPerSecond)} |`,
+      )
+    }
+    lines.push("")
+  }
+
+  const calibrated = summaries.filter((s) => s.calibration)
+  if (calibrated.length > 0) {
+    const coverage = calibrated[0].calibration!.selective.map((x) => x.coverage)
+    lines.push("## Calibration")
+    lines.push("")
+    lines.push(
+      "ECE is the confidence-weighted gap between confidence and accuracy over 10 bins; Brier is the mean squared error of confidence against correctness. Selective accuracy keeps only the most confident answers.",
+    )
+    lines.push("")
+    lines.push(
+      `| model | with confidence | mean confidence | accuracy | ECE | Brier | ${coverage.map((c) => `acc @ ${pct(c)} coverage`).join(" | ")} |`,
+    )
+    lines.push(`|---|---:|---:|---:|---:|---:|${coverage.map(() => "---:").join("|")}|`)
+    for (const s of calibrated) {
+      const c = s.calibration!
+      lines.push(
+        `| \`${s.modelId}\` | ${c.n} | ${pct(c.meanConfidence)} | ${pct(c.accuracy)} | ${pct(c.ece)} | ${c.brier.toFixed(3)} | ${c.selective.map((x) => pct(x.accuracy)).join(" | ")} |`,
+      )
+    }
+    lines.push("")
+  }
+
+  const voted = summaries.filter((s) => s.voting)
+  if (voted.length > 0) {
+    const ks = [...new Set(voted.flatMap((s) => s.voting!.accuracyAtK.map((a) => a.k)))].sort((a, b) => a - b)
+    lines.push("## Self-consistency")
+    lines.push("")
+    lines.push(
+      "Accuracy of the majority vote over the first k samples of each claim. Agreement is the share of votes won by the majority label; entropy (bits) is 0 when all samples agree.",
+    )
+    lines.push("")
+    lines.push(`| model | samples | ${ks.map((k) => `acc @ ${k}`).join(" | ")} | mean agreement | mean entropy |`)
+    lines.push(`|---|---:|${ks.map(() => "---:").join("|")}|---:|---:|`)
+    for (const s of voted) {
+      const v = s.voting!
+      const at = ks.map((k) => {
+        const a = v.accuracyAtK.find((x) => x.k === k)
+        return a ? pct(a.accuracy) : "-"
+      })
+      lines.push(
+        `| \`${s.modelId}\` | ${v.samples} | ${at.join(" | ")} | ${pct(v.meanAgreement)} | ${v.meanEntropy.toFixed(3)} |`,
+      )
+    }
+    lines.push("")
+  }
+
+  if (summaries.some((s) => s.items.length > 0)) {
+    const analysis = analyzeErrors(
+      Object.fromEntries(summaries.map((s) => [s.modelId, s.items])),
+      summaries.map((s) => s.modelId),
+    )
+    lines.push(...errorAnalysisLines(analysis, { maxExamples: 10, aliases: meta.aliases, level: 2 }))
+  }
+
   for (const s of summaries) {
-    lines.push(`## Model: \`${s.modelId}\``)
+    lines.push(`## Model: ${modelLabel(s.modelId, meta.aliases)}`)
     lines.push("")
     lines.push(`- **accuracy**: ${pct(s.accuracy)} (${s.correct}/${s.total})`)
     lines.push(`- **invalid-rate**: ${pct(s.invalidRate)} (${s.invalid}/${s.total})`)
+    if (s.transportErrors > 0) {
+      lines.push(`- **transport errors** (excluded from metrics): ${s.transportErrors}`)
+    }
+    if (s.evidence) {
+      lines.push(
+        `- **FEVER score**: ${pct(s.evidence.strictScore)} (${s.evidence.strictCorrect}/${s.total})`,
+      )
+    }
     lines.push("")
+    lines.push("### Per-label metrics")
+    lines.push("")
+    lines.push(metricsTable(s.metrics))
+    lines.push("")
+    if (PARSE_PATHS.some((p) => s.parsePaths[p] > 0)) {
+      lines.push("### Parse paths")
+      lines.push("")
+      lines.push(parsePathTable(s.parsePaths))
+      lines.push("")
+    }
+    if (s.calibration) {
+      lines.push("### Reliability diagram")
+      lines.push("")
+      lines.push(reliabilityTable(s.calibration))
+      lines.push("")
+      lines.push(confidenceByLabelTable(s.calibration))
+      lines.push("")
+    }
     lines.push("### Confusion matrix")
     lines.push("")
     lines.push(confusionTable(s.confusion))
@@ -126,3 +516,355 @@ export function renderMarkdownReport(meta: RunReportMeta, summaries: ModelEvalSu
 }
 
 
+/**
+ * Escapes text for a Markdown table cell, shortening it to one line.
+ * @param text - The text.
+ * @param max - Maximum length; longer text is cut with an ellipsis.
+ * @returns The cell text.
+ */
+function cell(text: string, max = Infinity): string {
+  const line = text.replace(/\s+/g, " ").trim()
+  return (line.length > max ? `${line.slice(0, max - 1)}…` : line).replace(/\|/g, "\\|")
+}
+
+/**
+ * Renders the claims of an error analysis as a table with one column per model.
+ * @param outcomes - The claims.
+ * @param models - Model IDs, in column order.
+ * @param maxExamples - Maximum rows.
+ * @param aliases - Display names by model ID.
+ * @returns Markdown lines.
+ */
+function outcomeTable(
+  outcomes: ClaimOutcome[],
+  models: string[],
+  maxExamples: number,
+  aliases?: Record<string, string>,
+): string[] {
+  const lines = [
+    `| datasetId | gold | ${models.map((m) => aliases?.[m] ?? `\`${m}\``).join(" | ")} | claim |`,
+    `|---|---|${models.map(() => "---").join("|")}|---|`,
+  ]
+  for (const o of outcomes.slice(0, maxExamples)) {
+    const answers = models.map((m) => {
+      const a = o.answers[m]
+      return a ? `${a.predicted}${a.ok ? " ✓" : ""}` : "-"
+    })
+    lines.push(`| ${o.datasetId} | ${o.goldLabel} | ${answers.join(" | ")} | ${cell(o.claim)} |`)
+  }
+  if (outcomes.length > maxExamples) lines.push("", `…and ${outcomes.length - maxExamples} more.`)
+  return lines
+}
+
+/**
+ * Renders an error analysis as Markdown sections.
+ * @param a - The error analysis.
+ * @param opts - Rendering options.
+ * @param opts.maxExamples - Maximum claims listed per table.
+ * @param opts.aliases - Display names by model ID.
+ * @param opts.level - Heading level of the section title.
+ * @returns Markdown lines.
+ */
+function errorAnalysisLines(
+  a: ErrorAnalysis,
+  opts: { maxExamples: number; aliases?: Record<string, string>; level: number },
+): string[] {
+  const h = "#".repeat(opts.level)
+  const lines = [`${h} Error analysis`, ""]
+  lines.push(
+    `Items of all models joined by \`datasetId\` (${a.claims} claims; transport failures left out). ✓ marks correct answers.`,
+  )
+  lines.push("")
+
+  lines.push(`${h}# Claims every model got wrong (${a.allWrong.length})`)
+  lines.push("")
+  if (a.allWrong.length > 0) {
+    lines.push(...outcomeTable(a.allWrong, a.models, opts.maxExamples, opts.aliases))
+  } else {
+    lines.push("None.")
+  }
+  lines.push("")
+
+  if (a.models.length > 1) {
+    lines.push(`${h}# Claims the models disagree on (${a.disagreements.length})`)
+    lines.push("")
+    if (a.disagreements.length > 0) {
+      lines.push(...outcomeTable(a.disagreements, a.models, opts.maxExamples, opts.aliases))
+    } else {
+      lines.push("None.")
+    }
+    lines.push("")
+  }
+
+  if (a.confusionPairs.length > 0) {
+    lines.push(`${h}# Most common confusions`)
+    lines.push("")
+    lines.push("| gold | predicted | errors | by model | example claims |")
+    lines.push("|---|---|---:|---|---|")
+    for (const p of a.confusionPairs.slice(0, opts.maxExamples)) {
+      const byModel = Object.entries(p.byModel).map(([m, n]) => `${opts.aliases?.[m] ?? m}: ${n}`)
+      const examples = p.examples.map((e) => `${e.datasetId}: ${cell(e.claim, 80)}`)
+      lines.push(`| ${p.gold} | ${p.predicted} | ${p.count} | ${cell(byModel.join(", "))} | ${examples.join("<br>")} |`)
+    }
+    lines.push("")
+  }
+
+  lines.push(`${h}# Error rate by claim feature`)
+  lines.push("")
+  lines.push(
+    "Negation: not, no, never, n't, …; number: digits or number words; date: month names, years, centuries; short: up to 5 words; long: 15 words or more. A claim can have several features.",
+  )
+  lines.push("")
+  lines.push(`| feature | claims | ${a.models.map((m) => opts.aliases?.[m] ?? `\`${m}\``).join(" | ")} |`)
+  lines.push(`|---|---:|${a.models.map(() => "---:").join("|")}|`)
+  for (const g of a.features) {
+    const rates = a.models.map((m) => {
+      const r = g.byModel[m]
+      return r.answered > 0 ? `${pct(r.errorRate)} (${r.wrong}/${r.answered})` : "-"
+    })
+    lines.push(`| ${g.feature} | ${g.claims} | ${rates.join(" | ")} |`)
+  }
+  lines.push("")
+  return lines
+}
+
+/**
+ * Renders an error analysis as a standalone Markdown report.
+ * @param a - The error analysis.
+ * @param opts - Rendering options.
+ * @param opts.runId - Run the items come from, for the title.
+ * @param opts.maxExamples - Maximum claims listed per table (default 20).
+ * @param opts.aliases - Display names by model ID.
+ * @returns Markdown report string.
+ */
+export function renderErrorAnalysisMarkdown(
+  a: ErrorAnalysis,
+  opts: { runId?: string; maxExamples?: number; aliases?: Record<string, string> } = {},
+): string {
+  const lines = [`# FactBench Error Analysis${opts.runId ? `: ${opts.runId}` : ""}`, ""]
+  lines.push(`- **models**: ${a.models.map((m) => modelLabel(m, opts.aliases)).join(", ")}`)
+  lines.push("")
+  lines.push(...errorAnalysisLines(a, { maxExamples: opts.maxExamples ?? 20, aliases: opts.aliases, level: 2 }))
+  return lines.join("\n")
+}
+
+/**
+ * Formats a signed integer count.
+ * @param n - The count.
+ * @returns The count with an explicit sign when positive.
+ */
+function signedInt(n: number): string {
+  return n > 0 ? `+${n}` : String(n)
+}
+
+/**
+ * Renders the comparison of saved runs as markdown: accuracy deltas per model,
+ * flipped examples and confusion-matrix deltas.
+ * @param c - The run comparison.
+ * @param opts - Rendering options.
+ * @param opts.maxExamples - Maximum flipped examples listed per direction (default 20).
+ * @returns Markdown report string.
+ */
+export function renderComparisonMarkdown(c: RunComparison, opts: { maxExamples?: number } = {}): string {
+  const maxExamples = opts.maxExamples ?? 20
+  const lines: string[] = []
+  lines.push(`# FactBench Comparison: ${c.baseRunId} → ${c.runIds.join(", ")}`)
+  lines.push("")
+  lines.push(`- **generated**: ${c.generatedAtIso}`)
+  lines.push(`- **base run**: \`${c.baseRunId}\``)
+  lines.push(`- **compared runs**: ${c.runIds.map((r) => `\`${r}\``).join(", ")}`)
+  lines.push("")
+
+  lines.push("## Accuracy deltas")
+  lines.push("")
+  lines.push("Metrics are computed on the examples both runs scored with identical content (`*` = McNemar p < 0.05).")
+  lines.push("")
+  lines.push(
+    "| model | run | shared | accuracy before | accuracy after | Δ accuracy | Δ macro-F1 | Δ invalid-rate | regressions | improvements | McNemar p |",
+  )
+  lines.push("|---|---|---:|---:|---:|---:|---:|---:|---:|---:|---:|")
+  for (const d of c.diffs) {
+    lines.push(
+      `| \`${d.modelId}\` | \`${d.runId}\` | ${d.shared} | ${pct(d.accuracyBefore)} | ${pct(d.accuracyAfter)} | ${signedPp(d.delta)} | ${signedPp(d.macroF1After - d.macroF1Before)} | ${signedPp(d.invalidRateAfter - d.invalidRateBefore)} | ${d.regressions.length} | ${d.improvements.length} | ${formatP(d.mcnemarP)} |`,
+    )
+  }
+  lines.push("")
+  if (c.unmatchedModels.length > 0) {
+    lines.push(
+      `Not compared: ${c.unmatchedModels.map((u) => `\`${u.modelId}\` (missing from \`${u.runId}\`)`).join(", ")}`,
+    )
+    lines.push("")
+  }
+
+  for (const d of c.diffs) {
+    lines.push(`## \`${d.modelId}\`: \`${d.baseRunId}\` → \`${d.runId}\``)
+    lines.push("")
+    lines.push(`- **shared examples**: ${d.shared}`)
+    lines.push(`- **predicted label changed**: ${d.labelChanges}`)
+    if (d.changedExamples > 0) {
+      lines.push(`- **changed examples** (same ID, different content; skipped): ${d.changedExamples}`)
+    }
+    if (d.onlyInBase > 0 || d.onlyInRun > 0) {
+      lines.push(`- **only in base / only in run**: ${d.onlyInBase} / ${d.onlyInRun}`)
+    }
+    lines.push("")
+    for (const [title, flips] of [
+      ["Regressions (correct → incorrect)", d.regressions],
+      ["Improvements (incorrect → correct)", d.improvements],
+    ] as const) {
+      if (flips.length === 0) continue
+      lines.push(`### ${title}`)
+      lines.push("")
+      lines.push("| datasetId | gold | before | after | claim |")
+      lines.push("|---|---|---|---|---|")
+      for (const f of flips.slice(0, maxExamples)) {
+        lines.push(`| ${f.datasetId} | ${f.goldLabel} | ${f.before} | ${f.after} | ${f.claim.replace(/\|/g, "\\|")} |`)
+      }
+      if (flips.length > maxExamples) {
+        lines.push("")
+        lines.push(`…and ${flips.length - maxExamples} more.`)
+      }
+      lines.push("")
+    }
+    lines.push("### Confusion matrix delta")
+    lines.push("")
+    const { labels, counts } = d.confusionDelta
+    lines.push(`| gold\\\\pred | ${labels.join(" | ")} | INVALID |`)
+    lines.push(`|---|${labels.map(() => "---:").join("|")}|---:|`)
+    for (const g of labels) {
+      const vals = labels.map((p) => signedInt(counts[g][p]))
+      lines.push(`| ${g} | ${vals.join(" | ")} | ${signedInt(d.confusionDelta.invalidByGold[g])} |`)
+    }
+    lines.push("")
+  }
+
+  return lines.join("\n")
+}
+
+/**
+ * Formats a leaderboard result as "accuracy (run)".
+ * @param r - The result.
+ * @returns Short description.
+ */
+function resultCell(r: LeaderboardResult): string {
+  return `${pct(r.accuracy)} (\`${r.runId}\`)`
+}
+
+/**
+ * Describes the evaluation setup a leaderboard table ranks.
+ * @param variant - The cache variant.
+ * @returns The variant, or "default" for the default setup.
+ */
+function variantName(variant: string | undefined): string {
+  return variant ?? "default"
+}
+
+/**
+ * Renders a leaderboard as markdown, one ranked table per dataset and setup.
+ * @param lb - The leaderboard.
+ * @returns Markdown string.
+ */
+export function renderLeaderboardMarkdown(lb: Leaderboard): string {
+  const lines: string[] = []
+  lines.push("# FactBench Leaderboard")
+  lines.push("")
+  lines.push(`- **generated**: ${lb.generatedAtIso}`)
+  lines.push(`- **runs scanned**: ${lb.runsScanned} (in \`${lb.runsDir}\`)`)
+  lines.push("")
+  if (lb.datasets.length === 0) {
+    lines.push("No complete runs with a summary found.")
+    lines.push("")
+  }
+  for (const d of lb.datasets) {
+    lines.push(
+      `## \`${d.filePath}\` (${d.examples} examples, dataset \`${d.datasetHash.slice(0, 12)}\`, setup \`${variantName(d.cacheVariant)}\`)`,
+    )
+    lines.push("")
+    lines.push(
+      "| rank | model | best accuracy | 95% CI | macro-F1 | invalid-rate | latest accuracy | runs | p50 latency | tokens | cost per correct |",
+    )
+    lines.push("|---:|---|---:|---:|---:|---:|---:|---:|---:|---:|---:|")
+    for (const e of d.entries) {
+      const b = e.best
+      const ci =
+        b.accuracyLower !== undefined && b.accuracyUpper !== undefined
+          ? `${pct(b.accuracyLower)}–${pct(b.accuracyUpper)}`
+          : "-"
+      lines.push(
+        `| ${e.rank} | \`${e.modelId}\` | ${resultCell(b)} | ${ci} | ${pct(b.macroF1)} | ${pct(b.invalidRate)} | ${resultCell(e.latest)} | ${e.runs} | ${Math.round(b.latencyP50Ms)} ms | ${b.totalTokens} | ${formatUsd(b.costPerCorrectUsd)} |`,
+      )
+    }
+    lines.push("")
+  }
+  if (lb.skipped.length > 0) {
+    lines.push("## Skipped runs")
+    lines.push("")
+    for (const s of lb.skipped) lines.push(`- \`${s.runId}\`: ${s.reason}`)
+    lines.push("")
+  }
+  return lines.join("\n")
+}
+
+/**
+ * Renders a leaderboard as a self-contained HTML page (no external assets),
+ * one ranked table per dataset and setup.
+ * @param lb - The leaderboard.
+ * @returns HTML document string.
+ */
+export function renderLeaderboardHtml(lb: Leaderboard): string {
+  const sections = lb.datasets.map((d) => {
+    const rows = d.entries
+      .map((e) => {
+        const cells = [
+          String(e.rank),
+          `<code>${escapeHtml(e.modelId)}</code>`,
+          pct(e.best.accuracy),
+          pct(e.best.macroF1),
+          pct(e.best.invalidRate),
+          `<code>${escapeHtml(e.best.runId)}</code>`,
+          pct(e.latest.accuracy),
+          `<code>${escapeHtml(e.latest.runId)}</code>`,
+          String(e.runs),
+          `${Math.round(e.best.latencyP50Ms)} ms`,
+          String(e.best.totalTokens),
+          formatUsd(e.best.costPerCorrectUsd),
+        ]
+        return `<tr>${cells.map((c) => `<td>${c}</td>`).join("")}</tr>`
+      })
+      .join("\n")
+    return [
+      `<h2><code>${escapeHtml(d.filePath)}</code> <small>${d.examples} examples, dataset <code>${escapeHtml(d.datasetHash.slice(0, 12))}</code>, setup <code>${escapeHtml(variantName(d.cacheVariant))}</code></small></h2>`,
+      "<table>",
+      "<thead><tr><th>rank</th><th>model</th><th>best accuracy</th><th>macro-F1</th><th>invalid-rate</th><th>best run</th><th>latest accuracy</th><th>latest run</th><th>runs</th><th>p50 latency</th><th>tokens</th><th>cost per correct</th></tr></thead>",
+      `<tbody>\n${rows}\n</tbody>`,
+      "</table>",
+    ].join("\n")
+  })
+  const skipped =
+    lb.skipped.length > 0
+      ? `<h2>Skipped runs</h2>\n<ul>${lb.skipped.map((s) => `<li><code>${escapeHtml(s.runId)}</code>: ${escapeHtml(s.reason)}</li>`).join("")}</ul>`
+      : ""
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>FactBench Leaderboard</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+table { border-collapse: collapse; margin-bottom: 2rem; }
+th, td { border: 1px solid #ccc; padding: 0.3rem 0.6rem; }
+td { text-align: right; }
+td:nth-child(2) { text-align: left; }
+th { background: #f3f3f3; }
+small { font-weight: normal; color: #666; }
+</style>
+</head>
+<body>
+<h1>FactBench Leaderboard</h1>
+<p>Generated ${escapeHtml(lb.generatedAtIso)} from ${lb.runsScanned} runs in <code>${escapeHtml(lb.runsDir)}</code>.</p>
+${sections.length > 0 ? sections.join("\n") : "<p>No complete runs with a summary found.</p>"}
+${skipped}
+</body>
+</html>
+`
+}
@@ -0,0 +1,119 @@
+import { describe, expect, test } from "bun:test"
+import { APICallError, JSONParseError } from "ai"
+import {
+  RequestTimeoutError,
+  classifyError,
+  computeBackoffDelay,
+  parseRetryAfter,
+  withRetry,
+  type RetryOptions,
+} from "./retry"
+
+/**
+ * Builds an API error as the provider SDKs throw it.
+ * @param statusCode - HTTP status, if the request got a response.
+ * @param responseHeaders - Response headers.
+ * @returns The error.
+ */
+function apiError(statusCode: number | undefined, responseHeaders?: Record<string, string>): APICallError {
+  return new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: "https://example.test/v1/chat/completions",
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders,
+  })
+}
+
+const FAST: RetryOptions = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 }
+
+describe("classifyError", () => {
+  test("counts only client errors about the request itself as model failures", () => {
+    expect(classifyError(apiError(400))).toMatchObject({ kind: "model", retryable: false, statusCode: 400 })
+    expect(classifyError(apiError(404)).kind).toBe("model")
+    expect(classifyError(apiError(422)).kind).toBe("model")
+  })
+
+  test("treats auth, credit, timeout, rate-limit, server and status-less errors as transport", () => {
+    for (const status of [401, 402, 403, 408, 429, 500, 503, undefined]) {
+      expect(classifyError(apiError(status)).kind).toBe("transport")
+    }
+    expect(classifyError(apiError(401)).retryable).toBe(false)
+    expect(classifyError(apiError(429, { "Retry-After": "2" }))).toEqual({
+      kind: "transport",
+      retryable: true,
+      retryAfterMs: 2000,
+      statusCode: 429,
+    })
+  })
+
+  test("retries timeouts and network errors", () => {
+    expect(classifyError(new RequestTimeoutError(10))).toEqual({ kind: "transport", retryable: true })
+    const reset = Object.assign(new Error("socket hang up"), { code: "ECONNRESET" })
+    expect(classifyError(reset)).toEqual({ kind: "transport", retryable: true })
+    expect(classifyError(new TypeError("fetch failed"))).toEqual({ kind: "transport", retryable: true })
+  })
+
+  test("counts unparseable answers as model failures and anything else as transport", () => {
+    expect(classifyError(new JSONParseError({ text: "{", cause: new Error("eof") }))).toEqual({
+      kind: "model",
+      retryable: false,
+    })
+    expect(classifyError(new Error("Unknown mock policy: x"))).toEqual({ kind: "transport", retryable: false })
+    expect(classifyError("boom")).toEqual({ kind: "transport", retryable: false })
+  })
+})
+
+describe("parseRetryAfter", () => {
+  test("prefers retry-after-ms and accepts seconds or an HTTP date", () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined()
+    expect(parseRetryAfter({ "retry-after-ms": "250", "retry-after": "9" })).toBe(250)
+    expect(parseRetryAfter({ "Retry-After": "1.5" })).toBe(1500)
+    expect(parseRetryAfter({ "retry-after": new Date(Date.now() - 1000).toUTCString() })).toBe(0)
+    expect(parseRetryAfter({ "retry-after": "soon" })).toBeUndefined()
+  })
+})
+
+describe("computeBackoffDelay", () => {
+  test("stays within the capped exponential window unless the server asks for longer", () => {
+    const opts = { maxRetries: 3, baseDelayMs: 100, maxDelayMs: 300 }
+    for (let i = 0; i < 20; i++) {
+      expect(computeBackoffDelay(5, opts)).toBeLessThan(300)
+    }
+    expect(computeBackoffDelay(0, opts, 5000)).toBe(5000)
+  })
+})
+
+describe("withRetry", () => {
+  test("retries retryable failures until one attempt succeeds", async () => {
+    const attempts: number[] = []
+    const result = await withRetry(
+      async (_, attempt) => {
+        attempts.push(attempt)
+        if (attempt < 2) throw apiError(503)
+        return "ok"
+      },
+      { retry: FAST, timeoutMs: 0 },
+    )
+    expect(result).toBe("ok")
+    expect(attempts).toEqual([0, 1, 2])
+  })
+
+  test("gives up at once on errors a retry can't fix", async () => {
+    let calls = 0
+    const failing = withRetry(
+      async () => {
+        calls++
+        throw apiError(401)
+      },
+      { retry: FAST, timeoutMs: 0 },
+    )
+    await expect(failing).rejects.toThrow("HTTP 401")
+    expect(calls).toBe(1)
+  })
+
+  test("times out attempts that ignore the abort signal", async () => {
+    const slow = withRetry(() => new Promise<never>(() => {}), { retry: { ...FAST, maxRetries: 0 }, timeoutMs: 20 })
+    await expect(slow).rejects.toBeInstanceOf(RequestTimeoutError)
+  })
+})
@@ -0,0 +1,229 @@
+import { APICallError, JSONParseError, NoContentGeneratedError, NoObjectGeneratedError, TypeValidationError } from "ai"
+
+/**
+ * Failure class of an evaluation request.
+ * `transport` failures (network, timeouts, rate limits, 5xx, auth and credit
+ * errors, provider setup errors) say nothing about the model's ability and
+ * are excluded from metrics and never cached.
+ * `model` failures (the answer was unusable, or the request itself was
+ * rejected as invalid, e.g. 400, 404 or 422) count as invalid.
+ */
+export type ErrorKind = "transport" | "model"
+
+export type RetryOptions = {
+  maxRetries: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+}
+
+export const DEFAULT_TIMEOUT_MS = 60_000
+
+/**
+ * Thrown when a single request exceeds the configured per-request timeout.
+ */
+export class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`)
+    this.name = "RequestTimeoutError"
+  }
+}
+
+export type ClassifiedError = {
+  kind: ErrorKind
+  retryable: boolean
+  retryAfterMs?: number
+  statusCode?: number
+}
+
+/**
+ * Parses `Retry-After` / `retry-after-ms` response headers.
+ * @param headers - Response headers (lower- or mixed-case keys).
+ * @returns Delay in milliseconds, or undefined if absent or unparseable.
+ */
+export function parseRetryAfter(headers: Record<string, string> | undefined): number | undefined {
+  if (!headers) return undefined
+  const lower: Record<string, string> = {}
+  for (const [k, v] of Object.entries(headers)) lower[k.toLowerCase()] = v
+
+  const ms = lower["retry-after-ms"]
+  if (ms !== undefined) {
+    const n = Number.parseFloat(ms)
+    if (Number.isFinite(n) && n >= 0) return n
+  }
+
+  const ra = lower["retry-after"]
+  if (ra === undefined) return undefined
+  const seconds = Number.parseFloat(ra)
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000
+  const date = Date.parse(ra)
+  if (!isNaN(date)) return Math.max(0, date - Date.now())
+  return undefined
+}
+
+/** HTTP statuses that reflect the account or the provider, not the request: auth, credits, timeouts, rate limits. */
+const TRANSPORT_STATUSES = [401, 402, 403, 408, 429]
+
+/**
+ * Classifies an error thrown while calling a model. API errors are model
+ * failures only for client errors about the request itself (e.g. 400, 404,
+ * 422); auth, credit, timeout, rate-limit, 5xx and status-less errors are
+ * transport failures. Other errors are model failures only when the answer
+ * couldn't be parsed; everything else (network, provider setup) is transport.
+ * @param err - The thrown value.
+ * @returns Error kind, whether a retry may help, and any server-requested delay.
+ */
+export function classifyError(err: unknown): ClassifiedError {
+  if (err instanceof RequestTimeoutError) {
+    return { kind: "transport", retryable: true }
+  }
+  if (APICallError.isInstance(err)) {
+    const status = err.statusCode
+    const transport =
+      err.isRetryable || status === undefined || TRANSPORT_STATUSES.includes(status) || status >= 500
+    return {
+      kind: transport ? "transport" : "model",
+      retryable: err.isRetryable,
+      retryAfterMs: parseRetryAfter(err.responseHeaders),
+      statusCode: err.statusCode,
+    }
+  }
+  if (err instanceof Error) {
+    const code = (err as NodeJS.ErrnoException).code
+    const networkCodes = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EPIPE", "ENOTFOUND", "EAI_AGAIN"]
+    if (
+      err.name === "AbortError" ||
+      err.name === "TimeoutError" ||
+      (code !== undefined && networkCodes.includes(code)) ||
+      (err instanceof TypeError && /fetch|network|socket/i.test(err.message))
+    ) {
+      return { kind: "transport", retryable: true }
+    }
+  }
+  if (
+    NoObjectGeneratedError.isInstance(err) ||
+    NoContentGeneratedError.isInstance(err) ||
+    JSONParseError.isInstance(err) ||
+    TypeValidationError.isInstance(err)
+  ) {
+    return { kind: "model", retryable: false }
+  }
+  return { kind: "transport", retryable: false }
+}
+
+/**
+ * Computes the delay before the next retry: exponential backoff with full jitter,
+ * or the server's `Retry-After` value when it is larger.
+ * @param attempt - Zero-based retry attempt number.
+ * @param opts - Retry options.
+ * @param retryAfterMs - Optional server-requested delay.
+ * @returns Delay in milliseconds.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  opts: RetryOptions,
+  retryAfterMs?: number,
+): number {
+  const exp = Math.min(opts.maxDelayMs, opts.baseDelayMs * 2 ** attempt)
+  const jittered = Math.random() * exp
+  if (retryAfterMs !== undefined) {
+    return Math.max(retryAfterMs, jittered)
+  }
+  return jittered
+}
+
+/**
+ * Sleeps for the given duration.
+ * @param ms - Milliseconds to wait.
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Runs an async function with a per-attempt timeout, retrying retryable
+ * transport failures with exponential backoff.
+ * @param fn - Function to run; receives an abort signal that fires on timeout
+ *   and the zero-based attempt number.
+ * @param params - Retry parameters.
+ * @param params.retry - Retry options.
+ * @param params.timeoutMs - Per-attempt timeout in milliseconds (0 disables it).
+ * @param params.beforeRetry - Optional hook awaited before each retry (e.g. a rate limiter).
+ * @returns The function result.
+ * @throws The last error once retries are exhausted or the error isn't retryable.
+ */
+export async function withRetry<T>(
+  fn: (signal: AbortSignal | undefined, attempt: number) => Promise<T>,
+  params: {
+    retry: RetryOptions
+    timeoutMs: number
+    beforeRetry?: () => Promise<void>
+  },
+): Promise<T> {
+  let attempt = 0
+  while (true) {
+    if (attempt > 0) await params.beforeRetry?.()
+    const controller = params.timeoutMs > 0 ? new AbortController() : undefined
+    const timer = controller
+      ? setTimeout(() => controller.abort(new RequestTimeoutError(params.timeoutMs)), params.timeoutMs)
+      : undefined
+    try {
+      const run = fn(controller?.signal, attempt)
+      if (!controller) return await run
+      // Race the abort so the timeout holds even if the callee ignores the signal
+      return await Promise.race([
+        run,
+        new Promise<never>((_, reject) => {
+          controller.signal.addEventListener("abort", () => reject(controller.signal.reason), {
+            once: true,
+          })
+        }),
+      ])
+    } catch (err) {
+      if (timer) clearTimeout(timer)
+      const error =
+        controller?.signal.aborted && controller.signal.reason instanceof RequestTimeoutError
+          ? controller.signal.reason
+          : err
+      const c = classifyError(error)
+      if (!c.retryable || attempt >= params.retry.maxRetries) {
+        throw error
+      }
+      await sleep(computeBackoffDelay(attempt, params.retry, c.retryAfterMs))
+      attempt++
+    } finally {
+      if (timer) clearTimeout(timer)
+    }
+  }
+}
+
+export type RateLimiter = {
+  acquire(): Promise<void>
+}
+
+/**
+ * Creates a rate limiter that spaces request starts evenly to stay under a
+ * requests-per-minute budget.
+ * @param requestsPerMinute - Maximum request starts per minute (must be positive).
+ * @returns Rate limiter whose `acquire` resolves when the next slot opens.
+ */
+export function createRateLimiter(requestsPerMinute: number): RateLimiter {
+  if (!(requestsPerMinute > 0)) {
+    throw new Error("Requests per minute must be a positive number")
+  }
+  const intervalMs = 60_000 / requestsPerMinute
+  let nextSlot = 0
+  return {
+    async acquire() {
+      const now = Date.now()
+      const slot = Math.max(now, nextSlot)
+      nextSlot = slot + intervalMs
+      if (slot > now) await sleep(slot - now)
+    },
+  }
+}
@@ -0,0 +1,78 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test"
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { loadRunManifest, readRawItems } from "./manifest"
+import { createMockModelProvider } from "./providers"
+import { safeSlug } from "./report"
+import { runBenchmark, type BenchmarkOptions } from "./runner"
+
+let dir: string
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "factbench-runner-"))
+})
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+describe("runBenchmark", () => {
+  test("resumes an interrupted run, requesting only what failed", async () => {
+    const filePath = path.join(dir, "claims.jsonl")
+    await Bun.write(
+      filePath,
+      ["Water is wet.", "Fire is cold.", "Ice is cold."]
+        .map((claim, i) => JSON.stringify({ id: i + 1, label: "SUPPORTS", claim }))
+        .join("\n") + "\n",
+    )
+    // Fails on the second claim until the outage is over
+    let down = true
+    const prompts: string[] = []
+    const providers = [
+      createMockModelProvider({
+        flaky: (prompt) => {
+          prompts.push(prompt)
+          if (down && prompt.includes("Fire is cold.")) throw new Error("connection reset")
+          return "SUPPORTS"
+        },
+      }),
+    ]
+    const options: BenchmarkOptions = {
+      filePath,
+      limit: 3,
+      models: ["mock:supports", "mock:flaky"],
+      retries: 0,
+      runsDir: path.join(dir, "runs"),
+      cacheDir: path.join(dir, "cache"),
+    }
+
+    const first = await runBenchmark(options, { providers })
+    expect(first.interrupted).toBe(true)
+    expect(first.stopReason).toBe("1 requests failed")
+    const interrupted = await loadRunManifest(first.runId, options.runsDir)
+    expect(interrupted.status).toBe("interrupted")
+    expect(interrupted.models).toEqual({
+      "mock:supports": { status: "done", completed: 3 },
+      "mock:flaky": { status: "interrupted", completed: 2 },
+    })
+
+    down = false
+    prompts.length = 0
+    const resumed = await runBenchmark({ ...options, resume: first.runId }, { providers })
+    expect(resumed.runId).toBe(first.runId)
+    expect(resumed.interrupted).toBe(false)
+    expect(prompts).toHaveLength(1)
+    expect(prompts[0]).toContain("Fire is cold.")
+    expect((await loadRunManifest(first.runId, options.runsDir)).status).toBe("complete")
+    const items = await readRawItems(path.join(resumed.outDir, "raw", `${safeSlug("mock:flaky")}.jsonl`))
+    expect(items.map((i) => [i.datasetId, i.ok])).toEqual([
+      [1, true],
+      [2, true],
+      [3, true],
+    ])
+    await expect(runBenchmark({ ...options, resume: first.runId }, { providers })).rejects.toThrow(
+      "is already complete",
+    )
+  })
+})
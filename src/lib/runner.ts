@@ -0,0 +1,661 @@
+import {
+  appendCacheEntry,
+  CACHE_ROOT,
+  cacheEntryKey,
+  cacheHitToItem,
+  computeCacheVariant,
+  computeDatasetHash,
+  computeExampleHash,
+  exampleIdToString,
+  getDatasetCacheId,
+  getModelCachePath,
+  loadModelCache,
+  saveModelCache,
+  type CacheEntry,
+} from "./cache"
+import type { ConfidenceMethod } from "./calibration"
+import { optionsToConfig } from "./config"
+import { createBudget, lookupPricing } from "./cost"
+import {
+  DATASET_FORMATS,
+  DATASET_FIELDS,
+  formatDatasetIssues,
+  loadDataset,
+  type DatasetFields,
+  type DatasetFormat,
+  type DatasetValidationReport,
+} from "./dataset"
+import {
+  evaluateModel,
+  isTransportFailure,
+  summarizeItems,
+  type EvalMode,
+  type GenerationSettings,
+  type ModelEvalItem,
+  type ModelEvalSummary,
+  type RunProgressEvent,
+} from "./evaluate"
+import { checkThresholds, type QualityThresholds, type ThresholdFailure } from "./gates"
+import { htmlPathFor, renderHtmlReport } from "./html"
+import { DEFAULT_LABEL_SCHEMA, formatLabelSchema, isDefaultLabelSchema, validateLabelSchema, type LabelSchema } from "./labels"
+import { loadRunManifest, readRawItems, runDirFor, writeRunManifest, type RunManifest } from "./manifest"
+import { defaultPromptName, loadPromptTemplate, type FewShotConfig } from "./prompts"
+import { DEFAULT_LOCAL_BASE_URL, createDefaultProviders, usesOpenRouter, type ModelProvider } from "./providers"
+import { appendJsonl, ensureDir, renderMarkdownReport, safeSlug, writeJsonl, type RunReportMeta } from "./report"
+import { DEFAULT_RETRY_OPTIONS, DEFAULT_TIMEOUT_MS } from "./retry"
+import {
+  SAMPLE_STRATEGIES,
+  STRATIFY_KEYS,
+  formatSampling,
+  sampleExamples,
+  type ExampleSampling,
+} from "./sampling"
+import { createConcurrencyLimiter, runConcurrently } from "./scheduler"
+import type { OutputFormat } from "./structured"
+import { buildRunSummary, writeRunSummary } from "./summary"
+
+/**
+ * Per-model settings: sampling settings plus a display alias.
+ */
+export type ModelOptions = GenerationSettings & {
+  /** Name shown in the live UI and reports instead of the ID. */
+  alias?: string
+}
+
+/**
+ * Options of a benchmark run. They are stored in the run manifest, so they
+ * must stay JSON-serializable; omitted options take the CLI defaults.
+ */
+export type BenchmarkOptions = {
+  /** Dataset file (`.gz` is decompressed). */
+  filePath: string
+  /** Dataset format; inferred from the file extension when omitted. */
+  format?: DatasetFormat
+  /** Source field of each example field (e.g. `{ claim: "statement" }`). */
+  fields?: DatasetFields
+  /** CSV/TSV: whether the first row names the columns (default true). */
+  header?: boolean
+  /** Label schema of the dataset and the answers (default FEVER). */
+  labels?: LabelSchema
+  /** Examples sampled per model (split across shards with `sampling.shard`). */
+  limit: number
+  /** How examples are picked from the dataset (default: the first `limit` rows). */
+  sampling?: ExampleSampling
+  /** Skip invalid dataset rows instead of failing; they are listed in `dataset-report.json`. */
+  lenient?: boolean
+  models: string[]
+  /** Sampling settings for every model; `modelOptions` override them per model. */
+  generation?: GenerationSettings
+  /** Per-model settings by model ID. */
+  modelOptions?: Record<string, ModelOptions>
+  /** Samples per claim, combined by majority vote (default 1). */
+  samples?: number
+  /** Markdown report path; defaults to `runs/<runId>.md`. */
+  out?: string
+  /** Requests in flight per model (default 2). */
+  concurrency?: number
+  /** Models evaluated at the same time; defaults to all of them. */
+  parallelModels?: number
+  /** Cap on requests in flight across all models; unlimited when omitted. */
+  maxConcurrency?: number
+  mode?: EvalMode
+  /** Built-in prompt name or template file; defaults to the mode's built-in template. */
+  prompt?: string
+  fewShot?: Partial<FewShotConfig>
+  output?: OutputFormat
+  confidence?: ConfidenceMethod
+  /** Base URL of the OpenAI-compatible endpoint used for `local:` models. */
+  localBaseURL?: string
+  /** Retries per request on transport errors. */
+  retries?: number
+  /** Per-request timeout in milliseconds (0 disables it). */
+  timeoutMs?: number
+  /** Per-model request budget; unlimited when omitted. */
+  requestsPerMinute?: number
+  /** Spend limit of this invocation in USD. */
+  maxCostUsd?: number
+  /** Token limit of this invocation. */
+  maxTokens?: number
+  /** Quality thresholds checked when the run finishes. */
+  thresholds?: QualityThresholds
+  /** Directory holding the run outputs (default `runs`). */
+  runsDir?: string
+  /** Directory holding the response cache (default `.cache`). */
+  cacheDir?: string
+  /**
+   * Run ID to continue. The options stored in its manifest replace these,
+   * except the budget and thresholds, which apply to each invocation.
+   */
+  resume?: string
+}
+
+/**
+ * Options with every default filled in, as stored in the run manifest.
+ */
+export type ResolvedBenchmarkOptions = BenchmarkOptions &
+  Required<
+    Pick<
+      BenchmarkOptions,
+      "concurrency" | "mode" | "prompt" | "output" | "confidence" | "localBaseURL" | "retries" | "timeoutMs"
+    >
+  >
+
+/**
+ * Events of a benchmark run: the per-model progress events of
+ * `evaluateModels`, plus run-level events.
+ */
+export type BenchmarkEvent =
+  | {
+      type: "runStart"
+      runId: string
+      outDir: string
+      outMdPath: string
+      options: ResolvedBenchmarkOptions
+      examplesTotal: number
+      /** What loading the dataset found. */
+      dataset: DatasetValidationReport
+      resumed: boolean
+    }
+  | RunProgressEvent
+  | {
+      /** Spend of the requests made by this invocation, after each new item. */
+      type: "spend"
+      spent: { costUsd: number; tokens: number }
+      /** Set once a budget is exhausted. */
+      stopReason?: string
+    }
+  | { type: "runDone"; result: BenchmarkResult }
+
+export type BenchmarkHooks = {
+  /** Called (and awaited) for every event; events of different models interleave. */
+  onEvent?: (ev: BenchmarkEvent) => void | Promise<void>
+  /** Stops the run: in-flight requests finish and a partial report is written. */
+  signal?: AbortSignal
+  /** Model providers; defaults to OpenRouter + local OpenAI-compatible + mock. */
+  providers?: ModelProvider[]
+}
+
+export type BenchmarkResult = {
+  runId: string
+  outDir: string
+  outMdPath: string
+  outHtmlPath: string
+  meta: RunReportMeta
+  /** Summaries in model order; models that never started are missing. */
+  summaries: ModelEvalSummary[]
+  interrupted: boolean
+  /** Why an interrupted run stopped. */
+  stopReason?: string
+  /** Models that missed a threshold (empty without thresholds). */
+  failures: ThresholdFailure[]
+}
+
+/**
+ * Resolves a model's sampling settings: run-wide settings overridden by the
+ * model's own.
+ * @param options - Resolved run options.
+ * @param modelId - The model ID.
+ * @returns Sampling settings, or undefined if none are set.
+ */
+function generationFor(options: BenchmarkOptions, modelId: string): GenerationSettings | undefined {
+  const { alias: _alias, ...own } = options.modelOptions?.[modelId] ?? {}
+  const merged = Object.fromEntries(
+    Object.entries({ ...options.generation, ...own }).filter(([, v]) => v !== undefined),
+  ) as GenerationSettings
+  return Object.keys(merged).length > 0 ? merged : undefined
+}
+
+/**
+ * Collects the sampling settings of the models.
+ * @param options - Resolved run options.
+ * @returns Settings by model ID, or undefined if every model uses provider defaults.
+ */
+function generationsOf(options: BenchmarkOptions): Record<string, GenerationSettings> | undefined {
+  const entries = options.models.flatMap((m) => {
+    const g = generationFor(options, m)
+    return g ? [[m, g] as const] : []
+  })
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined
+}
+
+/**
+ * Collects the cache variants of the models, sampling settings included.
+ * @param options - Resolved run options.
+ * @param variantFor - Computes the run's cache variant for a model's sampling settings.
+ * @returns Variants by model ID, or undefined if every model uses the default setup.
+ */
+async function variantsOf(
+  options: BenchmarkOptions,
+  variantFor: (generation?: GenerationSettings) => Promise<string | undefined>,
+): Promise<Record<string, string> | undefined> {
+  const variants: Record<string, string> = {}
+  for (const m of options.models) {
+    const v = await variantFor(generationFor(options, m))
+    if (v) variants[m] = v
+  }
+  return Object.keys(variants).length > 0 ? variants : undefined
+}
+
+/**
+ * Collects the display aliases of the models.
+ * @param modelOptions - Per-model options.
+ * @returns Aliases by model ID, or undefined if no model has one.
+ */
+function aliasesOf(modelOptions: Record<string, ModelOptions> | undefined): Record<string, string> | undefined {
+  const entries = Object.entries(modelOptions ?? {}).flatMap(([id, m]) => (m.alias ? [[id, m.alias]] : []))
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined
+}
+
+/**
+ * Fills in defaults and checks the options.
+ * @param options - Options as given.
+ * @returns Resolved options.
+ * @throws Error if an option is invalid.
+ */
+export function resolveBenchmarkOptions(options: BenchmarkOptions): ResolvedBenchmarkOptions {
+  if (!options.filePath || typeof options.filePath !== "string") {
+    throw new Error("File path must be a non-empty string")
+  }
+  if (!Number.isInteger(options.limit) || options.limit < 1) {
+    throw new Error("Limit must be a positive integer")
+  }
+  if (!Array.isArray(options.models) || options.models.length === 0) {
+    throw new Error("At least one model must be specified")
+  }
+  const mode = options.mode ?? "label"
+  const labels = options.labels ? validateLabelSchema(options.labels, "option") : undefined
+  if (mode === "evidence" && labels && !isDefaultLabelSchema(labels)) {
+    throw new Error("Evidence mode scores FEVER evidence and needs the fever label schema")
+  }
+  if (options.format !== undefined && !(DATASET_FORMATS as readonly string[]).includes(options.format)) {
+    throw new Error(`Dataset format must be one of: ${DATASET_FORMATS.join(", ")}`)
+  }
+  for (const [field, source] of Object.entries(options.fields ?? {})) {
+    if (!(DATASET_FIELDS as readonly string[]).includes(field) || typeof source !== "string" || !source) {
+      throw new Error(`Dataset fields must map ${DATASET_FIELDS.join(", ")} to source field names`)
+    }
+  }
+  const resolved: ResolvedBenchmarkOptions = {
+    ...options,
+    labels,
+    concurrency: options.concurrency ?? 2,
+    mode,
+    prompt: options.prompt ?? defaultPromptName(mode, labels),
+    output: options.output ?? "text",
+    confidence: options.confidence ?? "none",
+    localBaseURL: options.localBaseURL ?? DEFAULT_LOCAL_BASE_URL,
+    retries: options.retries ?? DEFAULT_RETRY_OPTIONS.maxRetries,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+  }
+  if (!Number.isInteger(resolved.concurrency) || resolved.concurrency < 1) {
+    throw new Error("Concurrency must be a positive integer")
+  }
+  const settings: Array<[string, GenerationSettings]> = [
+    ["all models", resolved.generation ?? {}],
+    ...Object.entries(resolved.modelOptions ?? {}),
+  ]
+  for (const [name, g] of settings) {
+    if (g.temperature !== undefined && !(g.temperature >= 0)) {
+      throw new Error(`Temperature of ${name} must be a non-negative number`)
+    }
+    if (g.maxTokens !== undefined && !(Number.isInteger(g.maxTokens) && g.maxTokens > 0)) {
+      throw new Error(`Max tokens of ${name} must be a positive integer`)
+    }
+    if (g.seed !== undefined && !Number.isInteger(g.seed)) {
+      throw new Error(`Seed of ${name} must be an integer`)
+    }
+    if (g.stop !== undefined && !(Array.isArray(g.stop) && g.stop.every((x) => typeof x === "string" && x))) {
+      throw new Error(`Stop sequences of ${name} must be non-empty strings`)
+    }
+    if (resolved.output === "structured" && g.stop?.length) {
+      throw new Error(`Stop sequences of ${name} need text output (structured answers can't be cut short)`)
+    }
+  }
+  if (resolved.samples !== undefined && !(Number.isInteger(resolved.samples) && resolved.samples >= 1)) {
+    throw new Error("Samples must be a positive integer")
+  }
+  const sampling = resolved.sampling
+  if (sampling) {
+    if (!(SAMPLE_STRATEGIES as readonly string[]).includes(sampling.strategy)) {
+      throw new Error(`Sample strategy must be one of: ${SAMPLE_STRATEGIES.join(", ")}`)
+    }
+    if (sampling.seed !== undefined && !Number.isInteger(sampling.seed)) {
+      throw new Error("Sample seed must be an integer")
+    }
+    if (sampling.stratifyBy?.some((k) => !(STRATIFY_KEYS as readonly string[]).includes(k))) {
+      throw new Error(`Stratify keys must be among: ${STRATIFY_KEYS.join(", ")}`)
+    }
+    if (sampling.offset !== undefined && !(Number.isInteger(sampling.offset) && sampling.offset >= 0)) {
+      throw new Error("Offset must be a non-negative integer")
+    }
+    const shard = sampling.shard
+    if (shard && !(Number.isInteger(shard.index) && shard.index >= 1 && shard.index <= shard.count)) {
+      throw new Error("Shard index must be between 1 and the shard count")
+    }
+  }
+  if (resolved.output === "structured" && resolved.confidence === "distribution") {
+    throw new Error("Distribution confidence needs text output (structured answers report a single confidence)")
+  }
+  return resolved
+}
+
+/**
+ * Runs a benchmark end to end: loads the dataset, serves known answers from
+ * the cache (or the checkpoints of the run being resumed), evaluates the rest,
+ * checkpoints every item to `runs/<runId>/raw/` and writes the Markdown and
+ * HTML reports and the run summary. This is what the CLI runs.
+ * @param options - Run options.
+ * @param hooks - Event callback, stop signal and providers.
+ * @returns Where the outputs were written and the final summaries.
+ * @throws Error if the options are invalid, the run can't be resumed or a request setup fails.
+ */
+export async function runBenchmark(options: BenchmarkOptions, hooks: BenchmarkHooks = {}): Promise<BenchmarkResult> {
+  const emit = async (ev: BenchmarkEvent) => {
+    await hooks.onEvent?.(ev)
+  }
+
+  let resumeManifest: RunManifest<ResolvedBenchmarkOptions> | undefined
+  let args: ResolvedBenchmarkOptions
+  if (options.resume) {
+    resumeManifest = await loadRunManifest<ResolvedBenchmarkOptions>(options.resume, options.runsDir)
+    if (resumeManifest.status === "complete") {
+      throw new Error(`Run ${options.resume} is already complete`)
+    }
+    args = resolveBenchmarkOptions({
+      ...resumeManifest.options,
+      resume: options.resume,
+      maxCostUsd: options.maxCostUsd,
+      maxTokens: options.maxTokens,
+      thresholds: options.thresholds,
+    })
+  } else {
+    args = resolveBenchmarkOptions(options)
+  }
+
+  let providers = hooks.providers
+  if (!providers) {
+    const apiKey = process.env.OPENROUTER_API_KEY
+    if (!apiKey && args.models.some((m) => usesOpenRouter(m))) {
+      throw new Error(
+        "Missing OPENROUTER_API_KEY env var. Set it and rerun (e.g. OPENROUTER_API_KEY=... bun run dev -- --limit 10).",
+      )
+    }
+    providers = createDefaultProviders({
+      openrouterApiKey: apiKey,
+      localBaseURL: args.localBaseURL,
+      localApiKey: process.env.FACTBENCH_LOCAL_API_KEY,
+      labels: args.labels,
+    })
+  }
+  if (args.maxCostUsd !== undefined) {
+    const unpriced = args.models.filter((m) => !lookupPricing(m))
+    if (unpriced.length > 0) {
+      throw new Error(
+        `--max-cost needs a price for every model; add ${unpriced.join(", ")} to src/config/pricing.ts`,
+      )
+    }
+  }
+  // The budget stops new requests like the stop signal does, and records why
+  const budget = createBudget({ maxCostUsd: args.maxCostUsd, maxTokens: args.maxTokens })
+  const budgetStop = new AbortController()
+  const signal = hooks.signal ? AbortSignal.any([hooks.signal, budgetStop.signal]) : budgetStop.signal
+  let stopReason: string | undefined
+  let transportFailures = 0
+
+  const timestampIso = resumeManifest?.createdAtIso ?? new Date().toISOString()
+  const runId = resumeManifest?.runId ?? timestampIso.replace(/[:.]/g, "-")
+  const outDir = runDirFor(runId, args.runsDir)
+  const rawDir = `${outDir}/raw`
+  await ensureDir(rawDir)
+
+  const outMdPath = resumeManifest?.outMdPath ?? args.out ?? `${outDir}.md`
+
+  const sampling: ExampleSampling = args.sampling ?? { strategy: "first" }
+  // Only `first` can stop reading early; the other strategies sample from every row
+  const labels = args.labels ?? DEFAULT_LABEL_SCHEMA
+  const { examples: rows, report: datasetReport } = await loadDataset(args.filePath, {
+    limit: sampling.strategy === "first" ? (sampling.offset ?? 0) + args.limit : undefined,
+    lenient: args.lenient,
+    format: args.format,
+    fields: args.fields,
+    header: args.header,
+    labels,
+  })
+  const { examples, record: sample } = sampleExamples(rows, sampling, args.limit)
+  const exampleIds = examples.map((ex) => exampleIdToString(ex.id))
+  if (resumeManifest && exampleIds.join("\n") !== resumeManifest.exampleIds.join("\n")) {
+    throw new Error(`Dataset ${args.filePath} changed since run ${runId} started; it cannot be resumed`)
+  }
+  const exampleHashes = await Promise.all(examples.map((ex) => computeExampleHash(ex)))
+  const datasetCacheId = await getDatasetCacheId(args.filePath)
+  const datasetHash = await computeDatasetHash(examples)
+  const prompt = await loadPromptTemplate(args.prompt, args.fewShot, labels)
+  const variantFor = (generation?: GenerationSettings) =>
+    computeCacheVariant({
+      mode: args.mode,
+      prompt,
+      output: args.output,
+      confidence: args.confidence,
+      generation,
+      samples: args.samples,
+    })
+  const cacheVariant = await variantFor()
+
+  const manifest: RunManifest<ResolvedBenchmarkOptions> = resumeManifest ?? {
+    v: 1,
+    runId,
+    status: "running",
+    createdAtIso: timestampIso,
+    updatedAtIso: timestampIso,
+    options: args,
+    outMdPath,
+    promptHash: prompt.hash,
+    cacheVariant,
+    exampleIds,
+    models: Object.fromEntries(args.models.map((m) => [m, { status: "pending", completed: 0 }])),
+  }
+  const saveManifest = () => writeRunManifest(manifest, args.runsDir)
+  manifest.status = "running"
+  manifest.stopReason = undefined
+  await saveManifest()
+  // The resolved config reproduces the run with `--config <outDir>/config.json`
+  await Bun.write(`${outDir}/config.json`, JSON.stringify(optionsToConfig(args), null, 2) + "\n")
+  await Bun.write(`${outDir}/sample.json`, JSON.stringify(sample, null, 2) + "\n")
+  if (args.lenient || datasetReport.issues.length > 0) {
+    await Bun.write(`${outDir}/dataset-report.json`, JSON.stringify(datasetReport, null, 2) + "\n")
+  }
+
+  await emit({
+    type: "runStart",
+    runId,
+    outDir,
+    outMdPath,
+    options: args,
+    examplesTotal: examples.length,
+    dataset: datasetReport,
+    resumed: Boolean(resumeManifest),
+  })
+
+  // Global cap on requests in flight, shared by the models running at once
+  const limiter = args.maxConcurrency ? createConcurrencyLimiter(args.maxConcurrency) : undefined
+  const summaries: ModelEvalSummary[] = new Array(args.models.length)
+  const runModel = async (modelId: string, modelIdx: number) => {
+    const rawPath = `${rawDir}/${safeSlug(modelId)}.jsonl`
+    if (manifest.models[modelId]?.status === "done") {
+      // Finished before the interruption: rebuild its summary from the raw file
+      const summary = summarizeItems(modelId, await readRawItems(rawPath), labels.labels)
+      await emit({ type: "modelStart", modelId, totalExamples: examples.length })
+      await emit({ type: "modelDone", modelId, summary })
+      summaries[modelIdx] = summary
+      return
+    }
+    manifest.models[modelId] = { status: "running", completed: 0 }
+
+    const generation = generationFor(args, modelId)
+    const modelVariant = await variantFor(generation)
+    const cachePath = await getModelCachePath({
+      cacheRoot: args.cacheDir ?? CACHE_ROOT,
+      datasetCacheId,
+      modelId,
+    })
+    const cacheMap = await loadModelCache({ cachePath })
+    // Items checkpointed by an interrupted run; transport failures are retried
+    const previous = new Map<string, ModelEvalItem>()
+    if (resumeManifest) {
+      for (const item of await readRawItems(rawPath)) {
+        if (!isTransportFailure(item)) previous.set(exampleIdToString(item.datasetId), item)
+      }
+    }
+
+    // Checkpointed items and cache hits are known; everything else is requested
+    const known: ModelEvalItem[] = new Array(examples.length)
+    for (let i = 0; i < examples.length; i++) {
+      const exId = exampleIds[i]
+      const exHash = exampleHashes[i]
+      const prev = previous.get(exId)
+      if (prev && prev.exampleHash === exHash) {
+        known[i] = prev
+        continue
+      }
+      const hit = cacheMap.get(cacheEntryKey(exId, modelVariant))
+      // Entries with a transport-level error (or legacy errors without a kind) are retried
+      const poisoned = hit?.item.error !== undefined && hit.item.errorKind !== "model"
+      if (hit && !poisoned && hit.exampleHash === exHash && hit.modelId === modelId) {
+        known[i] = cacheHitToItem(hit)
+      }
+    }
+    // Start the raw file with everything already known; new items are appended
+    await writeJsonl(rawPath, known.filter(Boolean))
+    let failed = 0
+
+    // Checkpoint each new item before its progress event
+    const onNewItem = async (item: ModelEvalItem, idx: number) => {
+      const exId = exampleIds[idx]
+      item.cached = false
+      item.exampleHash = exampleHashes[idx]
+      await appendJsonl(rawPath, item)
+      const exhausted = budget.record(modelId, item)
+      if (exhausted && !budgetStop.signal.aborted) {
+        stopReason = exhausted
+        budgetStop.abort()
+      }
+      await emit({ type: "spend", spent: budget.spent(), stopReason })
+      if (isTransportFailure(item)) {
+        cacheMap.delete(cacheEntryKey(exId, modelVariant))
+      } else {
+        const entry: CacheEntry = {
+          v: 1,
+          datasetPath: args.filePath,
+          modelId,
+          exampleId: exId,
+          exampleHash: exampleHashes[idx],
+          variant: modelVariant,
+          promptTemplate: prompt.template.name,
+          promptHash: prompt.hash,
+          item: { ...item, cached: false },
+          cachedAtIso: new Date().toISOString(),
+        }
+        cacheMap.set(cacheEntryKey(exId, modelVariant), entry)
+        await appendCacheEntry({ cachePath, entry })
+      }
+    }
+
+    const summary = await evaluateModel(
+      {
+        providers,
+        modelId,
+        examples,
+        known,
+        onNewItem,
+        concurrency: args.concurrency,
+        limiter,
+        mode: args.mode,
+        prompt,
+        output: args.output,
+        confidence: args.confidence,
+        retry: { maxRetries: args.retries },
+        timeoutMs: args.timeoutMs,
+        requestsPerMinute: args.requestsPerMinute,
+        signal,
+        generation,
+        samples: args.samples,
+      },
+      async (ev) => {
+        if (ev.type === "modelItem") {
+          // Transport failures don't count as completed, so a resume retries them
+          if (isTransportFailure(ev.item)) failed++
+          manifest.models[modelId].completed = ev.completed - failed
+          if (!known[ev.index]) await saveManifest()
+        }
+        if (ev.type === "modelDone") {
+          await writeJsonl(rawPath, ev.summary.items.filter(Boolean))
+        }
+        await emit(ev)
+      },
+    )
+
+    // Compact the cache (appended entries supersede older lines)
+    await saveModelCache({ cachePath, entries: cacheMap })
+
+    summaries[modelIdx] = summary
+    transportFailures += failed
+    manifest.models[modelId].status =
+      manifest.models[modelId].completed < examples.length ? "interrupted" : "done"
+    await saveManifest()
+  }
+  await runConcurrently(args.models, args.parallelModels ?? args.models.length, runModel, { signal })
+
+  // Write markdown/HTML reports and the machine-readable summary (marked incomplete if interrupted)
+  const expected = examples.length * args.models.length
+  const completedItems = Object.values(manifest.models).reduce((n, m) => n + m.completed, 0)
+  const interrupted = completedItems < expected
+  if (interrupted && !stopReason && transportFailures > 0 && !signal.aborted) {
+    stopReason = `${transportFailures} requests failed`
+  }
+  const meta: RunReportMeta = {
+    runId,
+    timestampIso,
+    filePath: args.filePath,
+    limit: examples.length,
+    models: args.models,
+    concurrency: args.concurrency,
+    parallelModels: args.parallelModels ?? args.models.length,
+    maxConcurrency: args.maxConcurrency,
+    mode: args.mode,
+    promptTemplate: prompt.template.name,
+    promptHash: prompt.hash,
+    datasetHash,
+    cacheVariants: await variantsOf(args, variantFor),
+    datasetIssues: formatDatasetIssues(datasetReport),
+    sampling: formatSampling(sampling),
+    labels: isDefaultLabelSchema(labels) ? undefined : formatLabelSchema(labels),
+    output: args.output,
+    confidence: args.confidence,
+    aliases: aliasesOf(args.modelOptions),
+    generation: generationsOf(args),
+    samples: args.samples,
+    incomplete: interrupted ? { completed: completedItems, expected, reason: stopReason } : undefined,
+  }
+  const finished = summaries.filter(Boolean)
+  const outHtmlPath = htmlPathFor(outMdPath)
+  await Bun.write(outMdPath, renderMarkdownReport(meta, finished))
+  await Bun.write(outHtmlPath, renderHtmlReport(meta, finished))
+  await writeRunSummary(outDir, buildRunSummary(meta, finished))
+  manifest.status = interrupted ? "interrupted" : "complete"
+  manifest.stopReason = interrupted ? (stopReason ?? "interrupted by user") : undefined
+  await saveManifest()
+
+  const result: BenchmarkResult = {
+    runId,
+    outDir,
+    outMdPath,
+    outHtmlPath,
+    meta,
+    summaries: finished,
+    interrupted,
+    stopReason,
+    failures: checkThresholds(finished, args.thresholds ?? {}),
+  }
+  await emit({ type: "runDone", result })
+  return result
+}
@@ -0,0 +1,93 @@
+import { readdir, stat } from "node:fs/promises"
+import path from "node:path"
+import type { ModelEvalItem } from "./evaluate"
+import { DEFAULT_LABEL_SCHEMA, validateLabelSchema, type LabelSchema } from "./labels"
+import { readRawItems, readRunManifestFile, RUNS_ROOT, type RunManifest } from "./manifest"
+import { safeSlug } from "./report"
+
+/**
+ * A run read back from disk: its items per model, in the model order of the run.
+ */
+export type SavedRun = {
+  runId: string
+  dir: string
+  /** Manifest, if the run was written by a version that records one. */
+  manifest?: RunManifest
+  models: string[]
+  items: Record<string, ModelEvalItem[]>
+  /** Label schema of the run (FEVER for runs that don't record one). */
+  labels: LabelSchema
+}
+
+/**
+ * Resolves a run ID or run directory path to a directory.
+ * @param runIdOrPath - A run ID under `runsDir` or a path to a run directory.
+ * @param runsDir - Directory holding the runs.
+ * @returns The run directory.
+ * @throws Error if no such directory exists.
+ */
+async function resolveRunDir(runIdOrPath: string, runsDir: string): Promise<string> {
+  const candidates = [runIdOrPath, path.join(runsDir, runIdOrPath)]
+  for (const dir of candidates) {
+    try {
+      if ((await stat(dir)).isDirectory()) return dir
+    } catch {
+      // Try the next candidate
+    }
+  }
+  throw new Error(`Run not found: ${runIdOrPath} (looked in ${candidates.join(" and ")})`)
+}
+
+/**
+ * Loads a saved run from its `raw/` directory. Model IDs come from the run
+ * manifest; runs without one fall back to the raw file names.
+ * @param runIdOrPath - A run ID under `runs/` or a path to a run directory.
+ * @param options - Directory holding the runs (default `runs`).
+ * @returns The saved run.
+ * @throws Error if the run has no raw results.
+ */
+export async function loadSavedRun(runIdOrPath: string, options: { runsDir?: string } = {}): Promise<SavedRun> {
+  if (!runIdOrPath || typeof runIdOrPath !== "string") {
+    throw new Error("Run ID must be a non-empty string")
+  }
+  const dir = await resolveRunDir(runIdOrPath, options.runsDir ?? RUNS_ROOT)
+  const runId = path.basename(path.resolve(dir))
+
+  let manifest: RunManifest | undefined
+  try {
+    manifest = await readRunManifestFile(path.join(dir, "manifest.json"))
+  } catch {
+    manifest = undefined
+  }
+
+  let files: string[] = []
+  try {
+    files = (await readdir(path.join(dir, "raw"))).filter((f) => f.endsWith(".jsonl")).sort()
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err
+  }
+  if (files.length === 0) {
+    throw new Error(`Run ${runId} has no raw results in ${path.join(dir, "raw")}`)
+  }
+
+  const manifestModels = Array.isArray(manifest?.options.models)
+    ? (manifest.options.models as string[])
+    : []
+  const bySlug = new Map(manifestModels.map((m) => [`${safeSlug(m)}.jsonl`, m]))
+  const models: string[] = []
+  const items: Record<string, ModelEvalItem[]> = {}
+  // Manifest order first, then any raw files it doesn't list
+  const ordered = [
+    ...manifestModels.map((m) => `${safeSlug(m)}.jsonl`).filter((f) => files.includes(f)),
+    ...files.filter((f) => !bySlug.has(f)),
+  ]
+  for (const file of ordered) {
+    const modelId = bySlug.get(file) ?? file.replace(/\.jsonl$/, "")
+    models.push(modelId)
+    items[modelId] = await readRawItems(path.join(dir, "raw", file))
+  }
+  const labels = manifest?.options.labels
+    ? validateLabelSchema(manifest.options.labels, `of run ${runId}`)
+    : DEFAULT_LABEL_SCHEMA
+  return { runId, dir, manifest, models, items, labels }
+}
@@ -0,0 +1,157 @@
+import type { FeverExample } from "./evaluate"
+import { createRng, shuffleInPlace } from "./random"
+
+export type SampleStrategy = "first" | "random" | "stratified"
+
+export const SAMPLE_STRATEGIES = ["first", "random", "stratified"] as const satisfies readonly SampleStrategy[]
+
+export type StratifyKey = "label" | "verifiable"
+
+export const STRATIFY_KEYS = ["label", "verifiable"] as const satisfies readonly StratifyKey[]
+
+/**
+ * One of `count` disjoint slices of a sample (1-based `index`).
+ */
+export type Shard = { index: number; count: number }
+
+/**
+ * How a run picks its examples from the dataset. The sample is drawn first and
+ * then split into shards, so the shards of one sample are disjoint and
+ * together cover it.
+ */
+export type ExampleSampling = {
+  /** `first` takes rows in file order; `random` and `stratified` need the whole file. */
+  strategy: SampleStrategy
+  /** Seed of `random` and `stratified` (default 0). */
+  seed?: number
+  /** Fields `stratified` balances (default `label`). */
+  stratifyBy?: StratifyKey[]
+  /** Rows skipped at the start of the dataset before sampling. */
+  offset?: number
+  shard?: Shard
+}
+
+/**
+ * The examples a run evaluates, saved as `runs/<runId>/sample.json`.
+ */
+export type SampleRecord = ExampleSampling & {
+  /** Valid rows sampled from (after the offset). */
+  poolSize: number
+  /** IDs of the whole sample, in evaluation order. */
+  sampleIds: string[]
+  /** IDs this run evaluates: the shard's slice of `sampleIds`, or all of them. */
+  ids: string[]
+}
+
+/**
+ * Parses a shard spec such as `2/4`.
+ * @param spec - `<index>/<count>`, 1-based.
+ * @returns The shard.
+ * @throws Error if the spec is malformed or the index is out of range.
+ */
+export function parseShard(spec: string): Shard {
+  const m = /^(\d+)\/(\d+)$/.exec(spec.trim())
+  const index = m ? Number(m[1]) : NaN
+  const count = m ? Number(m[2]) : NaN
+  if (!(count >= 1 && index >= 1 && index <= count)) {
+    throw new Error(`Invalid shard: ${spec}. Expected <index>/<count> with 1 <= index <= count, e.g. 2/4`)
+  }
+  return { index, count }
+}
+
+/**
+ * Describes a sampling setup for logs and the report.
+ * @param sampling - The sampling setup.
+ * @returns E.g. "stratified by label, verifiable (seed 7), offset 100, shard 2/4".
+ */
+export function formatSampling(sampling: ExampleSampling): string {
+  const parts = [
+    sampling.strategy === "first"
+      ? "first rows"
+      : sampling.strategy === "random"
+        ? `random (seed ${sampling.seed ?? 0})`
+        : `stratified by ${(sampling.stratifyBy ?? ["label"]).join(", ")} (seed ${sampling.seed ?? 0})`,
+  ]
+  if (sampling.offset) parts.push(`offset ${sampling.offset}`)
+  if (sampling.shard) parts.push(`shard ${sampling.shard.index}/${sampling.shard.count}`)
+  return parts.join(", ")
+}
+
+/**
+ * Allocates `limit` slots over strata as evenly as their sizes allow: each
+ * round gives one slot to every stratum that still has examples left.
+ * @param sizes - Examples per stratum.
+ * @param limit - Slots to allocate.
+ * @returns Slots per stratum.
+ */
+function allocateEvenly(sizes: number[], limit: number): number[] {
+  const quotas = sizes.map(() => 0)
+  let left = Math.min(limit, sizes.reduce((a, b) => a + b, 0))
+  while (left > 0) {
+    for (let i = 0; i < sizes.length && left > 0; i++) {
+      if (quotas[i] < sizes[i]) {
+        quotas[i]++
+        left--
+      }
+    }
+  }
+  return quotas
+}
+
+/**
+ * Draws the sample of a run and, with a shard, keeps its slice.
+ * `random` and `stratified` keep the selected examples in file order, so the
+ * same seed always yields the same list.
+ * @param examples - Valid dataset rows in file order (before the offset).
+ * @param sampling - The sampling setup.
+ * @param limit - Sample size, before sharding.
+ * @returns The examples to evaluate and the record to save with the run.
+ * @throws Error if the offset leaves no examples or the shard is empty.
+ */
+export function sampleExamples(
+  examples: FeverExample[],
+  sampling: ExampleSampling,
+  limit: number,
+): { examples: FeverExample[]; record: SampleRecord } {
+  const pool = examples.slice(sampling.offset ?? 0)
+  if (pool.length === 0) {
+    throw new Error(`Offset ${sampling.offset} skips all ${examples.length} examples`)
+  }
+  const rng = createRng(sampling.seed ?? 0)
+
+  let picked: number[]
+  if (sampling.strategy === "first") {
+    picked = pool.slice(0, limit).map((_, i) => i)
+  } else if (sampling.strategy === "random") {
+    picked = shuffleInPlace(pool.map((_, i) => i), rng).slice(0, limit)
+  } else {
+    const keys = sampling.stratifyBy ?? ["label"]
+    const strata = new Map<string, number[]>()
+    pool.forEach((ex, i) => {
+      const key = keys.map((k) => String(ex[k] ?? "")).join("|")
+      const stratum = strata.get(key)
+      if (stratum) stratum.push(i)
+      else strata.set(key, [i])
+    })
+    const groups = [...strata.keys()].sort().map((k) => shuffleInPlace(strata.get(k)!, rng))
+    const quotas = allocateEvenly(groups.map((g) => g.length), limit)
+    picked = groups.flatMap((g, i) => g.slice(0, quotas[i]))
+  }
+  if (sampling.strategy !== "first") picked.sort((a, b) => a - b)
+
+  const sample = picked.map((i) => pool[i])
+  const shard = sampling.shard
+  const selected = shard ? sample.filter((_, i) => i % shard.count === shard.index - 1) : sample
+  if (selected.length === 0) {
+    throw new Error(`Shard ${shard!.index}/${shard!.count} is empty: the sample has only ${sample.length} examples`)
+  }
+  return {
+    examples: selected,
+    record: {
+      ...sampling,
+      poolSize: pool.length,
+      sampleIds: sample.map((ex) => String(ex.id)),
+      ids: selected.map((ex) => String(ex.id)),
+    },
+  }
+}
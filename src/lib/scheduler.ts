@@ -0,0 +1,81 @@
+export type ConcurrencyLimiter = {
+  /** Resolves with a release function once a slot is free; slots are granted in FIFO order. */
+  acquire(): Promise<() => void>
+  /** Slots currently held. */
+  readonly active: number
+}
+
+/**
+ * Creates a limiter shared by several pools, e.g. a global cap on requests in
+ * flight across all models.
+ * @param max - Maximum slots held at once (must be a positive integer).
+ * @returns The limiter.
+ */
+export function createConcurrencyLimiter(max: number): ConcurrencyLimiter {
+  if (!Number.isInteger(max) || max < 1) {
+    throw new Error("Concurrency limit must be a positive integer")
+  }
+  let active = 0
+  const waiting: Array<() => void> = []
+
+  const release = () => {
+    const next = waiting.shift()
+    // Hand the slot straight to the next waiter so it can't be taken out of order
+    if (next) next()
+    else active--
+  }
+
+  return {
+    acquire() {
+      return new Promise<() => void>((resolve) => {
+        const grant = () => {
+          let released = false
+          resolve(() => {
+            if (released) return
+            released = true
+            release()
+          })
+        }
+        if (active < max) {
+          active++
+          grant()
+        } else {
+          waiting.push(grant)
+        }
+      })
+    },
+    get active() {
+      return active
+    },
+  }
+}
+
+/**
+ * Runs a task per item with at most `concurrency` tasks at once, e.g. one task
+ * per model. Results are left to the tasks; rejections propagate.
+ * @param items - Items to process, started in order.
+ * @param concurrency - Maximum tasks running at once.
+ * @param task - Task run for each item.
+ * @param opts - Optional settings.
+ * @param opts.signal - When aborted, no new tasks start; running tasks finish.
+ */
+export async function runConcurrently<T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<void>,
+  opts: { signal?: AbortSignal } = {},
+): Promise<void> {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error("Concurrency must be a positive integer")
+  }
+  let next = 0
+  async function worker() {
+    while (!opts.signal?.aborted) {
+      const i = next++
+      if (i >= items.length) return
+      await task(items[i], i)
+    }
+  }
+  const c = Math.min(concurrency, items.length)
+  await Promise.all(Array.from({ length: c }, () => worker()))
+}
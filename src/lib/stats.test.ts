@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test"
+import type { ModelEvalItem, ModelEvalSummary } from "./evaluate"
+import { bootstrapInterval, compareModels, computeConfidenceIntervals, mcnemarTest, quantile } from "./stats"
+
+/**
+ * Builds a scored item.
+ * @param datasetId - Example ID.
+ * @param ok - Whether the answer was right.
+ * @param extra - Fields to override.
+ * @returns The item.
+ */
+function item(datasetId: number, ok: boolean, extra: Partial<ModelEvalItem> = {}): ModelEvalItem {
+  return {
+    datasetId,
+    claim: `Claim ${datasetId}.`,
+    goldLabel: "SUPPORTS",
+    predictedLabel: ok ? "SUPPORTS" : "REFUTES",
+    rawText: "",
+    ok,
+    latencyMs: 1,
+    ...extra,
+  }
+}
+
+const summary = (modelId: string, items: ModelEvalItem[]) => ({ modelId, items }) as ModelEvalSummary
+
+describe("quantile", () => {
+  test("interpolates between neighbours", () => {
+    expect(quantile([], 0.5)).toBe(0)
+    expect(quantile([1, 2, 3, 4], 0.5)).toBe(2.5)
+    expect(quantile([10, 20], 0.9)).toBe(19)
+  })
+})
+
+describe("bootstrapInterval", () => {
+  const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length
+
+  test("is reproducible for a seed and brackets the estimate", () => {
+    const sample = Array.from({ length: 50 }, (_, i) => i % 3)
+    const a = bootstrapInterval(sample, mean, { seed: 7, iterations: 200 })
+    expect(bootstrapInterval(sample, mean, { seed: 7, iterations: 200 })).toEqual(a)
+    expect(a.lower).toBeLessThanOrEqual(a.estimate)
+    expect(a.upper).toBeGreaterThanOrEqual(a.estimate)
+    expect(a.upper).toBeGreaterThan(a.lower)
+  })
+
+  test("collapses to the estimate for constant or empty samples", () => {
+    expect(bootstrapInterval([1, 1, 1], mean)).toEqual({ estimate: 1, lower: 1, upper: 1 })
+    expect(bootstrapInterval<number>([], () => 0)).toEqual({ estimate: 0, lower: 0, upper: 0 })
+  })
+})
+
+describe("computeConfidenceIntervals", () => {
+  test("leaves transport failures out of the sample", () => {
+    const items = [item(1, true), item(2, true), item(3, false, { errorKind: "transport", error: "429" })]
+    const ci = computeConfidenceIntervals(items, { iterations: 100 })
+    expect(ci.accuracy).toEqual({ estimate: 1, lower: 1, upper: 1 })
+  })
+})
+
+describe("mcnemarTest", () => {
+  test("uses the exact binomial test for few discordant pairs", () => {
+    expect(mcnemarTest(0, 0)).toBe(1)
+    expect(mcnemarTest(5, 0)).toBeCloseTo(0.0625, 10)
+    expect(mcnemarTest(0, 5)).toBeCloseTo(0.0625, 10)
+    expect(mcnemarTest(3, 2)).toBe(1)
+  })
+
+  test("uses the continuity-corrected chi-square from 25 discordant pairs", () => {
+    // chi2 = (|40 - 10| - 1)^2 / 50 = 16.82, p ≈ 4.11e-5
+    expect(mcnemarTest(40, 10)).toBeCloseTo(4.112e-5, 7)
+    expect(mcnemarTest(13, 12)).toBeCloseTo(1, 6)
+  })
+})
+
+describe("compareModels", () => {
+  test("pairs items by datasetId and drops transport failures on either side", () => {
+    const a = summary("a", [item(1, true), item(2, true), item(3, false), item(4, true)])
+    const b = summary("b", [
+      item(4, false, { errorKind: "transport", error: "timeout" }),
+      item(3, true),
+      item(2, false),
+      item(1, true),
+    ])
+    const c = compareModels(a, b, { iterations: 200 })
+    expect(c.n).toBe(3)
+    expect(c.onlyA).toBe(1)
+    expect(c.onlyB).toBe(1)
+    expect(c.delta).toBe(0)
+    expect(c.mcnemarP).toBe(1)
+  })
+
+  test("finds a clear difference", () => {
+    const ids = Array.from({ length: 60 }, (_, i) => i)
+    const c = compareModels(
+      summary("a", ids.map((i) => item(i, true))),
+      summary("b", ids.map((i) => item(i, i % 4 === 0))),
+      { iterations: 500 },
+    )
+    expect(c.accuracyA).toBe(1)
+    expect(c.accuracyB).toBe(0.25)
+    expect(c.deltaCI.lower).toBeGreaterThan(0)
+    expect(c.mcnemarP).toBeLessThan(0.001)
+    expect(c.bootstrapP).toBeLessThan(0.01)
+  })
+})
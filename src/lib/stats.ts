@@ -0,0 +1,274 @@
+import type { ModelEvalItem, ModelEvalSummary } from "./evaluate"
+import { FEVER_LABELS, createConfusionMatrix, recordPrediction } from "./labels"
+import { computeMetrics } from "./metrics"
+import { createRng, randomInt } from "./random"
+
+export type Interval = {
+  estimate: number
+  lower: number
+  upper: number
+}
+
+export type ConfidenceIntervals = {
+  confidence: number
+  iterations: number
+  accuracy: Interval
+  macroF1: Interval
+}
+
+export type BootstrapOptions = {
+  iterations?: number
+  confidence?: number
+  seed?: number
+}
+
+export type PairwiseComparison = {
+  modelA: string
+  modelB: string
+  /** Examples scored for both models (transport failures on either side are dropped). */
+  n: number
+  accuracyA: number
+  accuracyB: number
+  /** accuracyA - accuracyB */
+  delta: number
+  deltaCI: Interval
+  /** Examples only A got right / only B got right. */
+  onlyA: number
+  onlyB: number
+  mcnemarP: number
+  bootstrapP: number
+}
+
+export const DEFAULT_BOOTSTRAP_ITERATIONS = 1000
+export const DEFAULT_CONFIDENCE = 0.95
+export const DEFAULT_BOOTSTRAP_SEED = 1
+
+/**
+ * Returns the q-quantile of a sorted array using linear interpolation.
+ * @param sorted - Ascending array of numbers.
+ * @param q - Quantile in [0, 1].
+ * @returns Interpolated quantile (0 for an empty array).
+ */
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0
+  const pos = (sorted.length - 1) * q
+  const lo = Math.floor(pos)
+  const hi = Math.ceil(pos)
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo)
+}
+
+/**
+ * Generic percentile bootstrap over a sample.
+ * @param sample - Observations to resample.
+ * @param stat - Statistic computed on a (re)sample.
+ * @param opts - Bootstrap options.
+ * @returns Point estimate plus percentile interval.
+ */
+export function bootstrapInterval<T>(
+  sample: T[],
+  stat: (xs: T[]) => number,
+  opts: BootstrapOptions = {},
+): Interval {
+  const iterations = opts.iterations ?? DEFAULT_BOOTSTRAP_ITERATIONS
+  const confidence = opts.confidence ?? DEFAULT_CONFIDENCE
+  const rng = createRng(opts.seed ?? DEFAULT_BOOTSTRAP_SEED)
+  const estimate = stat(sample)
+  if (sample.length === 0) return { estimate, lower: estimate, upper: estimate }
+
+  const stats: number[] = new Array(iterations)
+  const buf: T[] = new Array(sample.length)
+  for (let it = 0; it < iterations; it++) {
+    for (let i = 0; i < sample.length; i++) buf[i] = sample[randomInt(rng, sample.length)]
+    stats[it] = stat(buf)
+  }
+  stats.sort((a, b) => a - b)
+  const alpha = (1 - confidence) / 2
+  return { estimate, lower: quantile(stats, alpha), upper: quantile(stats, 1 - alpha) }
+}
+
+/**
+ * Items that contribute to metrics (transport failures excluded).
+ * @param items - Evaluated items.
+ * @returns Scored items only.
+ */
+function scoredItems(items: Array<ModelEvalItem | undefined>): ModelEvalItem[] {
+  return items.filter((i): i is ModelEvalItem => !!i && i.errorKind !== "transport")
+}
+
+/**
+ * Accuracy of a set of items.
+ * @param items - Evaluated items.
+ * @returns Fraction of items marked ok.
+ */
+function accuracyOf(items: ModelEvalItem[]): number {
+  if (items.length === 0) return 0
+  let ok = 0
+  for (const i of items) if (i.ok) ok++
+  return ok / items.length
+}
+
+/**
+ * Macro-F1 of a set of items.
+ * @param items - Evaluated items.
+ * @param labels - Labels of the label schema.
+ * @returns Macro-averaged F1.
+ */
+function macroF1Of(items: ModelEvalItem[], labels: readonly string[]): number {
+  const cm = createConfusionMatrix(labels)
+  for (const i of items) recordPrediction(cm, i.goldLabel, i.predictedLabel)
+  return computeMetrics(cm).macroF1
+}
+
+/**
+ * Computes bootstrap confidence intervals for accuracy and macro-F1.
+ * @param items - The model's evaluated items.
+ * @param opts - Bootstrap options.
+ * @param labels - Labels of the label schema (default FEVER).
+ * @returns Confidence intervals.
+ */
+export function computeConfidenceIntervals(
+  items: Array<ModelEvalItem | undefined>,
+  opts: BootstrapOptions = {},
+  labels: readonly string[] = FEVER_LABELS,
+): ConfidenceIntervals {
+  const sample = scoredItems(items)
+  return {
+    confidence: opts.confidence ?? DEFAULT_CONFIDENCE,
+    iterations: opts.iterations ?? DEFAULT_BOOTSTRAP_ITERATIONS,
+    accuracy: bootstrapInterval(sample, accuracyOf, opts),
+    macroF1: bootstrapInterval(sample, (x) => macroF1Of(x, labels), opts),
+  }
+}
+
+/**
+ * Complementary error function (Abramowitz–Stegun 7.1.26, |error| < 1.5e-7).
+ * @param x - Input value.
+ * @returns erfc(x).
+ */
+function erfc(x: number): number {
+  const z = Math.abs(x)
+  const t = 1 / (1 + 0.3275911 * z)
+  const poly =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const r = poly * Math.exp(-z * z)
+  return x >= 0 ? r : 2 - r
+}
+
+/**
+ * Two-sided McNemar test on the discordant pair counts.
+ * Uses the exact binomial test for fewer than 25 discordant pairs and the
+ * continuity-corrected chi-square approximation otherwise.
+ * @param onlyA - Pairs only the first model got right.
+ * @param onlyB - Pairs only the second model got right.
+ * @returns Two-sided p-value.
+ */
+export function mcnemarTest(onlyA: number, onlyB: number): number {
+  const n = onlyA + onlyB
+  if (n === 0) return 1
+  if (n < 25) {
+    // Exact: P(X <= min) under Binomial(n, 0.5), doubled
+    const k = Math.min(onlyA, onlyB)
+    let coef = 1
+    let cdf = 0
+    for (let i = 0; i <= k; i++) {
+      if (i > 0) coef = (coef * (n - i + 1)) / i
+      cdf += coef
+    }
+    return Math.min(1, (2 * cdf) / 2 ** n)
+  }
+  const chi2 = (Math.abs(onlyA - onlyB) - 1) ** 2 / n
+  return erfc(Math.sqrt(chi2 / 2))
+}
+
+/**
+ * Compares two models on the examples both were scored on, aligned by `datasetId`.
+ * @param a - First model summary.
+ * @param b - Second model summary.
+ * @param opts - Bootstrap options for the paired bootstrap.
+ * @returns Accuracy delta with paired bootstrap CI, McNemar and bootstrap p-values.
+ */
+export function compareModels(
+  a: ModelEvalSummary,
+  b: ModelEvalSummary,
+  opts: BootstrapOptions = {},
+): PairwiseComparison {
+  const byId = new Map<string, ModelEvalItem>()
+  for (const item of scoredItems(b.items)) byId.set(String(item.datasetId), item)
+
+  const pairs: Array<[boolean, boolean]> = []
+  for (const item of scoredItems(a.items)) {
+    const other = byId.get(String(item.datasetId))
+    if (other) pairs.push([item.ok, other.ok])
+  }
+
+  let okA = 0
+  let okB = 0
+  let onlyA = 0
+  let onlyB = 0
+  for (const [x, y] of pairs) {
+    if (x) okA++
+    if (y) okB++
+    if (x && !y) onlyA++
+    if (!x && y) onlyB++
+  }
+  const n = pairs.length
+  const accuracyA = n === 0 ? 0 : okA / n
+  const accuracyB = n === 0 ? 0 : okB / n
+
+  const deltaOf = (ps: Array<[boolean, boolean]>) => {
+    if (ps.length === 0) return 0
+    let d = 0
+    for (const [x, y] of ps) d += Number(x) - Number(y)
+    return d / ps.length
+  }
+  const deltaCI = bootstrapInterval(pairs, deltaOf, opts)
+
+  // Paired bootstrap p-value: how often the resampled delta falls on the other side of 0
+  const iterations = opts.iterations ?? DEFAULT_BOOTSTRAP_ITERATIONS
+  const rng = createRng((opts.seed ?? DEFAULT_BOOTSTRAP_SEED) + 1)
+  let below = 0
+  let above = 0
+  if (n > 0) {
+    const buf: Array<[boolean, boolean]> = new Array(n)
+    for (let it = 0; it < iterations; it++) {
+      for (let i = 0; i < n; i++) buf[i] = pairs[randomInt(rng, n)]
+      const d = deltaOf(buf)
+      if (d <= 0) below++
+      if (d >= 0) above++
+    }
+  }
+  const bootstrapP = n === 0 ? 1 : Math.min(1, (2 * Math.min(below, above)) / iterations)
+
+  return {
+    modelA: a.modelId,
+    modelB: b.modelId,
+    n,
+    accuracyA,
+    accuracyB,
+    delta: accuracyA - accuracyB,
+    deltaCI,
+    onlyA,
+    onlyB,
+    mcnemarP: mcnemarTest(onlyA, onlyB),
+    bootstrapP,
+  }
+}
+
+/**
+ * Compares every pair of models, with A listed before B in input order.
+ * @param summaries - Model summaries with items.
+ * @param opts - Bootstrap options.
+ * @returns One comparison per unordered pair.
+ */
+export function compareAllModels(
+  summaries: ModelEvalSummary[],
+  opts: BootstrapOptions = {},
+): PairwiseComparison[] {
+  const out: PairwiseComparison[] = []
+  for (let i = 0; i < summaries.length; i++) {
+    for (let j = i + 1; j < summaries.length; j++) {
+      out.push(compareModels(summaries[i], summaries[j], opts))
+    }
+  }
+  return out
+}
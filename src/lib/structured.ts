@@ -0,0 +1,193 @@
+import {
+  generateObject,
+  jsonSchema,
+  NoObjectGeneratedError,
+  type generateText,
+  type ModelMessage,
+} from "ai"
+import type { EvalMode } from "./evaluate"
+import type { EvidenceRef } from "./evidence"
+import { DEFAULT_LABEL_SCHEMA, type LabelSchema } from "./labels"
+import type { LanguageModelV2 } from "./providers"
+
+/**
+ * Output format. `text` parses free-form text; `structured` asks for a
+ * schema-validated JSON object and falls back to text parsing if that fails.
+ */
+export type OutputFormat = "text" | "structured"
+
+export const OUTPUT_FORMATS = ["text", "structured"] as const satisfies readonly OutputFormat[]
+
+/**
+ * Provider-specific request options, keyed by provider name.
+ */
+export type ProviderOptions = NonNullable<Parameters<typeof generateText>[0]["providerOptions"]>
+
+export type StructuredAnswer = {
+  label: string
+  confidence?: number
+  rationale?: string
+  evidence?: EvidenceRef[]
+}
+
+export type StructuredResult = {
+  /** The validated object, or undefined if the response failed validation. */
+  answer?: StructuredAnswer
+  /** Raw response text (the JSON itself, or whatever the model produced). */
+  text: string
+  usage?: {
+    inputTokens?: number
+    outputTokens?: number
+    totalTokens?: number
+  }
+  /** Raw provider response body, when the provider exposes it. */
+  responseBody?: unknown
+}
+
+/**
+ * Validates a parsed object against the answer schema.
+ * @param value - The parsed JSON value.
+ * @param mode - Evaluation mode (evidence mode also validates cited evidence).
+ * @param labels - Labels of the schema.
+ * @returns The validated answer, or an error message.
+ */
+function validateAnswer(
+  value: unknown,
+  mode: EvalMode,
+  labels: readonly string[],
+): { success: true; value: StructuredAnswer } | { success: false; error: Error } {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { success: false, error: new Error("Answer must be a JSON object") }
+  }
+  const v = value as Record<string, unknown>
+  if (typeof v.label !== "string" || !labels.includes(v.label)) {
+    return {
+      success: false,
+      error: new Error(`"label" must be one of ${labels.join(", ")}`),
+    }
+  }
+  if (
+    v.confidence !== undefined &&
+    (typeof v.confidence !== "number" || v.confidence < 0 || v.confidence > 1)
+  ) {
+    return { success: false, error: new Error(`"confidence" must be a number between 0 and 1`) }
+  }
+  if (v.rationale !== undefined && typeof v.rationale !== "string") {
+    return { success: false, error: new Error(`"rationale" must be a string`) }
+  }
+  let evidence: EvidenceRef[] | undefined
+  if (mode === "evidence" && v.evidence !== undefined) {
+    if (!Array.isArray(v.evidence)) {
+      return { success: false, error: new Error(`"evidence" must be an array`) }
+    }
+    evidence = []
+    for (const e of v.evidence as Array<Record<string, unknown>>) {
+      if (!e || typeof e.page !== "string" || typeof e.sentence !== "number") {
+        return {
+          success: false,
+          error: new Error(`"evidence" entries need a string "page" and a numeric "sentence"`),
+        }
+      }
+      evidence.push({ page: e.page, sentence: e.sentence })
+    }
+  }
+  return {
+    success: true,
+    value: {
+      label: v.label,
+      confidence: v.confidence as number | undefined,
+      rationale: v.rationale as string | undefined,
+      evidence,
+    },
+  }
+}
+
+/**
+ * Builds the JSON schema for structured answers.
+ * @param mode - Evaluation mode; evidence mode adds an `evidence` array.
+ * @param labels - Label schema of the `label` enum (default `fever`).
+ * @returns AI SDK schema with validation.
+ */
+export function buildAnswerSchema(mode: EvalMode, labels: LabelSchema = DEFAULT_LABEL_SCHEMA) {
+  const properties: Record<string, unknown> = {
+    label: { type: "string", enum: [...labels.labels] },
+    confidence: {
+      type: "number",
+      minimum: 0,
+      maximum: 1,
+      description: "Probability that the label is correct",
+    },
+    rationale: { type: "string", description: "One or two sentences explaining the label" },
+  }
+  if (mode === "evidence") {
+    properties.evidence = {
+      type: "array",
+      description: "Wikipedia sentences supporting the label",
+      items: {
+        type: "object",
+        properties: {
+          page: { type: "string", description: "Wikipedia page title with underscores" },
+          sentence: { type: "integer", description: "Zero-based sentence id" },
+        },
+        required: ["page", "sentence"],
+        additionalProperties: false,
+      },
+    }
+  }
+  return jsonSchema<StructuredAnswer>(
+    {
+      type: "object",
+      properties: properties as never,
+      required: ["label", "confidence", "rationale"],
+      additionalProperties: false,
+    },
+    { validate: (value) => validateAnswer(value, mode, labels.labels) },
+  )
+}
+
+/**
+ * Generates a structured answer. A response that fails schema validation is not
+ * an error: its raw text is returned so the caller can fall back to text parsing.
+ * Stop sequences aren't supported, since they would cut the JSON short.
+ * @param params - Generation parameters.
+ * @returns The validated answer (if any), the raw text and token usage.
+ */
+export async function generateStructuredAnswer(params: {
+  model: LanguageModelV2
+  system?: string
+  messages: ModelMessage[]
+  mode: EvalMode
+  labels?: LabelSchema
+  abortSignal?: AbortSignal
+  providerOptions?: ProviderOptions
+  temperature?: number
+  maxOutputTokens?: number
+  seed?: number
+}): Promise<StructuredResult> {
+  try {
+    const result = await generateObject({
+      model: params.model,
+      system: params.system,
+      messages: params.messages,
+      schema: buildAnswerSchema(params.mode, params.labels),
+      schemaName: "FactCheckAnswer",
+      maxRetries: 0,
+      abortSignal: params.abortSignal,
+      providerOptions: params.providerOptions,
+      temperature: params.temperature,
+      maxOutputTokens: params.maxOutputTokens,
+      seed: params.seed,
+    })
+    return {
+      answer: result.object,
+      text: JSON.stringify(result.object),
+      usage: result.usage,
+      responseBody: result.response.body,
+    }
+  } catch (err) {
+    if (NoObjectGeneratedError.isInstance(err)) {
+      return { text: err.text ?? "", usage: err.usage }
+    }
+    throw err
+  }
+}
@@ -0,0 +1,164 @@
+import path from "node:path"
+import { summarizeCost } from "./cost"
+import type { ModelEvalSummary } from "./evaluate"
+import { computeLatencyStats, type LatencyStats } from "./latency"
+import type { RunReportMeta } from "./report"
+
+/**
+ * A model's summary as stored in `summary.json`: everything but the items.
+ * Token usage and cost are in `cost`; `latency` is always set.
+ */
+export type ModelRunSummary = Omit<ModelEvalSummary, "items"> & {
+  latency: LatencyStats
+}
+
+/**
+ * Machine-readable summary of a run, stored at `runs/<runId>/summary.json`.
+ */
+export type RunSummary = {
+  v: 1
+  generatedAtIso: string
+  meta: RunReportMeta
+  models: ModelRunSummary[]
+}
+
+/**
+ * Builds the machine-readable summary of a run.
+ * @param meta - Run metadata.
+ * @param summaries - Final per-model summaries (with items).
+ * @returns The run summary.
+ */
+export function buildRunSummary(meta: RunReportMeta, summaries: ModelEvalSummary[]): RunSummary {
+  if (!Array.isArray(summaries)) {
+    throw new Error("Summaries must be an array")
+  }
+  return {
+    v: 1,
+    generatedAtIso: new Date().toISOString(),
+    meta,
+    models: summaries.map(({ items, ...rest }) => ({
+      ...rest,
+      cost: rest.cost ?? summarizeCost(rest.modelId, items),
+      latency: rest.latency ?? computeLatencyStats(items),
+    })),
+  }
+}
+
+/**
+ * Quotes a CSV field when needed (RFC 4180).
+ * @param value - Field value.
+ * @returns The escaped field.
+ */
+function csvField(value: string | number | undefined): string {
+  if (value === undefined) return ""
+  const s = typeof value === "number" ? (Number.isFinite(value) ? String(value) : "") : value
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+export const SUMMARY_CSV_COLUMNS = [
+  "run_id",
+  "timestamp",
+  "dataset",
+  "dataset_hash",
+  "model",
+  "total",
+  "correct",
+  "invalid",
+  "transport_errors",
+  "accuracy",
+  "accuracy_ci_lower",
+  "accuracy_ci_upper",
+  "macro_f1",
+  "invalid_rate",
+  "prompt_tokens",
+  "completion_tokens",
+  "total_tokens",
+  "cost_usd",
+  "cached_items",
+  "cached_tokens",
+  "cached_cost_usd",
+  "cost_per_correct_usd",
+  "latency_mean_ms",
+  "latency_p50_ms",
+  "latency_p90_ms",
+  "latency_p99_ms",
+  "latency_max_ms",
+  "requests_per_second",
+  "tokens_per_second",
+  "ece",
+  "brier",
+  "samples",
+  "accuracy_at_1",
+  "accuracy_at_3",
+  "accuracy_at_5",
+  "vote_agreement",
+  "vote_entropy",
+] as const
+
+/**
+ * Renders a run summary as CSV, one row per model.
+ * @param summary - The run summary.
+ * @returns CSV text with a header row.
+ */
+export function renderSummaryCsv(summary: RunSummary): string {
+  const { meta } = summary
+  const rows = summary.models.map((m) =>
+    [
+      meta.runId,
+      meta.timestampIso,
+      meta.filePath,
+      meta.datasetHash,
+      m.modelId,
+      m.total,
+      m.correct,
+      m.invalid,
+      m.transportErrors,
+      m.accuracy,
+      m.ci?.accuracy.lower,
+      m.ci?.accuracy.upper,
+      m.metrics.macroF1,
+      m.invalidRate,
+      m.cost?.spent.promptTokens,
+      m.cost?.spent.completionTokens,
+      m.cost?.spent.totalTokens,
+      m.cost?.spent.costUsd,
+      m.cost?.cached.items,
+      m.cost?.cached.totalTokens,
+      m.cost?.cached.costUsd,
+      m.cost?.costPerCorrectUsd,
+      m.latency.meanMs,
+      m.latency.p50Ms,
+      m.latency.p90Ms,
+      m.latency.p99Ms,
+      m.latency.maxMs,
+      m.latency.requestsPerSecond,
+      m.latency.tokensPerSecond,
+      m.calibration?.ece,
+      m.calibration?.brier,
+      m.voting?.samples,
+      ...[1, 3, 5].map((k) => m.voting?.accuracyAtK.find((a) => a.k === k)?.accuracy),
+      m.voting?.meanAgreement,
+      m.voting?.meanEntropy,
+    ]
+      .map(csvField)
+      .join(","),
+  )
+  return [SUMMARY_CSV_COLUMNS.join(","), ...rows].join("\n") + "\n"
+}
+
+/**
+ * Writes `summary.json` and `summary.csv` into a run directory.
+ * @param dir - The run directory.
+ * @param summary - The run summary.
+ * @returns Paths of the written files.
+ */
+export async function writeRunSummary(dir: string, summary: RunSummary): Promise<{ jsonPath: string; csvPath: string }> {
+  if (!dir || typeof dir !== "string") {
+    throw new Error("Directory must be a non-empty string")
+  }
+  const jsonPath = path.join(dir, "summary.json")
+  const csvPath = path.join(dir, "summary.csv")
+  await Bun.write(jsonPath, JSON.stringify(summary, null, 2) + "\n")
+  await Bun.write(csvPath, renderSummaryCsv(summary))
+  return { jsonPath, csvPath }
+}
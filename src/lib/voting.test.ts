@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test"
+import type { ModelEvalItem } from "./evaluate"
+import type { PredictedLabel } from "./labels"
+import { majorityVote, summarizeVoting, tallyVotes } from "./voting"
+
+/**
+ * Builds a multi-sample item.
+ * @param goldLabel - The gold label.
+ * @param labels - Votes in request order.
+ * @param failed - Samples that failed in transport.
+ * @param extra - Fields to override.
+ * @returns The item.
+ */
+function voted(goldLabel: string, labels: PredictedLabel[], failed = 0, extra: Partial<ModelEvalItem> = {}): ModelEvalItem {
+  const winner = majorityVote(labels) ?? "INVALID"
+  return {
+    datasetId: 1,
+    claim: "Claim.",
+    goldLabel,
+    predictedLabel: winner,
+    rawText: winner,
+    ok: winner === goldLabel,
+    latencyMs: 1,
+    samples: tallyVotes(labels, failed),
+    ...extra,
+  }
+}
+
+describe("majorityVote", () => {
+  test("breaks ties in favour of the label voted first", () => {
+    expect(majorityVote(["REFUTES", "SUPPORTS", "SUPPORTS", "REFUTES"])).toBe("REFUTES")
+    expect(majorityVote(["SUPPORTS", "REFUTES", "REFUTES"])).toBe("REFUTES")
+  })
+
+  test("only lets INVALID win when no valid label got a vote", () => {
+    expect(majorityVote(["INVALID", "INVALID", "SUPPORTS"])).toBe("SUPPORTS")
+    expect(majorityVote(["INVALID", "INVALID"])).toBe("INVALID")
+    expect(majorityVote([])).toBeUndefined()
+  })
+})
+
+describe("tallyVotes", () => {
+  test("counts votes and measures agreement and entropy", () => {
+    expect(tallyVotes(["SUPPORTS", "SUPPORTS", "SUPPORTS"])).toEqual({
+      labels: ["SUPPORTS", "SUPPORTS", "SUPPORTS"],
+      distribution: { SUPPORTS: 3 },
+      agreement: 1,
+      entropy: 0,
+      failed: 0,
+    })
+    const split = tallyVotes(["SUPPORTS", "REFUTES"], 1)
+    expect(split.agreement).toBe(0.5)
+    expect(split.entropy).toBe(1)
+    expect(split.failed).toBe(1)
+  })
+
+  test("gives zero agreement when every sample failed", () => {
+    expect(tallyVotes([], 3)).toMatchObject({ agreement: 0, entropy: 0, failed: 3 })
+  })
+})
+
+describe("summarizeVoting", () => {
+  test("reports accuracy at k over the first k votes, counting failed samples in the sample size", () => {
+    const summary = summarizeVoting([
+      voted("SUPPORTS", ["SUPPORTS", "REFUTES", "SUPPORTS", "SUPPORTS", "REFUTES"]),
+      voted("REFUTES", ["SUPPORTS", "REFUTES", "REFUTES"], 2),
+      voted("REFUTES", ["SUPPORTS"], 4, { errorKind: "transport", error: "timeout" }),
+      undefined,
+    ])
+    expect(summary?.samples).toBe(5)
+    expect(summary?.accuracyAtK).toEqual([
+      { k: 1, accuracy: 0.5 },
+      { k: 3, accuracy: 1 },
+      { k: 5, accuracy: 1 },
+    ])
+    expect(summary?.meanAgreement).toBeCloseTo((3 / 5 + 2 / 3) / 2, 10)
+  })
+
+  test("returns undefined for single-sample runs", () => {
+    const { samples: _, ...single } = voted("SUPPORTS", ["SUPPORTS"])
+    expect(summarizeVoting([single])).toBeUndefined()
+  })
+})
@@ -0,0 +1,98 @@
+import type { ModelEvalItem } from "./evaluate"
+import { isTransportFailure } from "./evaluate"
+import type { PredictedLabel } from "./labels"
+
+/**
+ * Votes of a multi-sample (self-consistency) item.
+ */
+export type SampleVotes = {
+  /** Label of each answered sample, in request order. */
+  labels: PredictedLabel[]
+  /** Votes per label. */
+  distribution: Record<PredictedLabel, number>
+  /** Share of the votes won by the majority label, in [0, 1]. */
+  agreement: number
+  /** Shannon entropy of the vote distribution in bits (0 = unanimous). */
+  entropy: number
+  /** Samples that failed in transport and did not vote. */
+  failed: number
+}
+
+export type VotingSummary = {
+  /** Samples requested per claim (the largest vote count seen). */
+  samples: number
+  /** Accuracy of the majority vote over the first k samples of each item. */
+  accuracyAtK: Array<{ k: number; accuracy: number }>
+  meanAgreement: number
+  meanEntropy: number
+}
+
+/**
+ * Picks the majority label. Ties go to the tied label that was voted first,
+ * and INVALID only wins if no valid label got a vote.
+ * @param labels - Votes in request order.
+ * @returns The winning label, or undefined if there are no votes.
+ */
+export function majorityVote(labels: PredictedLabel[]): PredictedLabel | undefined {
+  const counts = new Map<PredictedLabel, number>()
+  for (const l of labels) counts.set(l, (counts.get(l) ?? 0) + 1)
+  let best: PredictedLabel | undefined
+  for (const [label, n] of counts) {
+    if (label === "INVALID" && counts.size > 1) continue
+    if (best === undefined || n > counts.get(best)!) best = label
+  }
+  return best
+}
+
+/**
+ * Tallies the votes of one claim.
+ * @param labels - Votes in request order.
+ * @param failed - Samples that failed in transport.
+ * @returns Vote distribution, agreement and entropy.
+ */
+export function tallyVotes(labels: PredictedLabel[], failed: number = 0): SampleVotes {
+  const distribution: Record<PredictedLabel, number> = {}
+  for (const l of labels) distribution[l] = (distribution[l] ?? 0) + 1
+  const winner = majorityVote(labels)
+  const n = labels.length
+  let entropy = 0
+  for (const count of Object.values(distribution)) {
+    const p = count / n
+    entropy -= p * Math.log2(p)
+  }
+  return {
+    labels,
+    distribution,
+    agreement: n === 0 || winner === undefined ? 0 : distribution[winner]! / n,
+    entropy: Math.abs(entropy),
+    failed,
+  }
+}
+
+/**
+ * Summarizes self-consistency voting over a model's items: accuracy of the
+ * majority vote at 1, 3 and 5 samples (and at the full sample count), plus
+ * mean agreement and entropy.
+ * @param items - Evaluated items (may be sparse).
+ * @returns The summary, or undefined if no item carries votes.
+ */
+export function summarizeVoting(items: Array<ModelEvalItem | undefined>): VotingSummary | undefined {
+  const voted = items.filter((i): i is ModelEvalItem & { samples: SampleVotes } =>
+    Boolean(i?.samples && !isTransportFailure(i)),
+  )
+  if (voted.length === 0) return undefined
+  const samples = Math.max(...voted.map((i) => i.samples.labels.length + i.samples.failed))
+  const ks = [...new Set([1, 3, 5, samples])].filter((k) => k <= samples).sort((a, b) => a - b)
+  // Items with failed samples vote with the answers they have
+  const accuracyAtK = ks.map((k) => {
+    const correct = voted.filter((i) => majorityVote(i.samples.labels.slice(0, k)) === i.goldLabel).length
+    return { k, accuracy: correct / voted.length }
+  })
+  const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length
+  return {
+    samples,
+    accuracyAtK,
+    meanAgreement: mean(voted.map((i) => i.samples.agreement)),
+    meanEntropy: mean(voted.map((i) => i.samples.entropy)),
+  }
+}
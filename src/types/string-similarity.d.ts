@@ -0,0 +1,19 @@
+/**
+ * Types of the `string-similarity` package, which ships none.
+ */
+declare module "string-similarity" {
+  /**
+   * Dice coefficient of the two strings' character bigrams, ignoring whitespace.
+   * @returns Similarity between 0 (nothing shared) and 1 (identical).
+   */
+  export function compareTwoStrings(first: string, second: string): number
+
+  export function findBestMatch(
+    mainString: string,
+    targetStrings: string[],
+  ): {
+    ratings: Array<{ target: string; rating: number }>
+    bestMatch: { target: string; rating: number }
+    bestMatchIndex: number
+  }
+}